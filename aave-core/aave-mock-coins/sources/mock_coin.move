@@ -0,0 +1,85 @@
+/// @title Mock Coin
+/// @author Aave
+/// @notice Provides a legacy Coin underlying and migrates it to its paired fungible asset for testing
+/// @dev The coin migrator conversion is a public function, the entry function below lets transactions call it
+module aave_mock_underlyings::mock_coin {
+    // imports
+    use std::signer;
+    use std::string::String;
+    use aptos_framework::coin::{Self, BurnCapability, FreezeCapability, MintCapability};
+    use aptos_framework::fungible_asset;
+    use aave_pool::coin_migrator;
+
+    // Error constants
+    /// @notice Only the mock underlyings account can initialize and mint the coin
+    const ENOT_OWNER: u64 = 1;
+
+    // Structs
+    /// @notice The legacy coin type
+    struct MockCoin {}
+
+    /// @notice Hold the capabilities of the mock coin
+    struct Capabilities has key {
+        /// @dev Capability to mint new coins
+        mint_cap: MintCapability<MockCoin>,
+        /// @dev Capability to burn coins
+        burn_cap: BurnCapability<MockCoin>,
+        /// @dev Capability to freeze coin stores
+        freeze_cap: FreezeCapability<MockCoin>
+    }
+
+    // Public entry functions
+    /// @notice Initializes the mock coin and pairs it with its fungible asset
+    /// @dev The pairing is created by converting a zero coin, so the fungible asset can be listed as a reserve
+    /// before any coin is migrated
+    /// @param account The signer of the mock underlyings account
+    /// @param name The name of the coin
+    /// @param symbol The symbol of the coin
+    /// @param decimals The decimals of the coin
+    public entry fun initialize(
+        account: &signer,
+        name: String,
+        symbol: String,
+        decimals: u8
+    ) {
+        only_coin_admin(account);
+        let (burn_cap, freeze_cap, mint_cap) =
+            coin::initialize<MockCoin>(account, name, symbol, decimals, true);
+        fungible_asset::destroy_zero(
+            coin::coin_to_fungible_asset(coin::zero<MockCoin>())
+        );
+        move_to(account, Capabilities { mint_cap, burn_cap, freeze_cap });
+    }
+
+    /// @notice Creates the coin store of the signer, so minted coins stay legacy coins until migrated
+    /// @param account The signer of the coin holder
+    public entry fun register(account: &signer) {
+        coin::register<MockCoin>(account);
+    }
+
+    /// @notice Mints coins to an account
+    /// @dev The framework deposits them to the coin store of the account if it has one, to its primary
+    /// fungible store otherwise
+    /// @param admin The signer of the mock underlyings account
+    /// @param to Address to receive the minted coins
+    /// @param amount Amount of coins to mint
+    public entry fun mint(admin: &signer, to: address, amount: u64) acquires Capabilities {
+        only_coin_admin(admin);
+        let capabilities = borrow_global<Capabilities>(@aave_mock_underlyings);
+        coin::deposit(to, coin::mint(amount, &capabilities.mint_cap));
+    }
+
+    /// @notice Converts coins of the signer to the paired fungible asset through the coin migrator
+    /// @param account The signer of the coin holder
+    /// @param amount The amount of coins to convert
+    public entry fun coin_to_fa<CoinType>(account: &signer, amount: u64) {
+        coin_migrator::coin_to_fa<CoinType>(account, amount);
+    }
+
+    // Private functions
+    /// @dev Checks that the signer is the mock underlyings account
+    /// @param account The signer to check
+    fun only_coin_admin(account: &signer) {
+        assert!(signer::address_of(account) == @aave_mock_underlyings, ENOT_OWNER)
+    }
+}
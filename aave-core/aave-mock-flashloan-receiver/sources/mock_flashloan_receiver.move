@@ -0,0 +1,87 @@
+/// @title Mock Flashloan Receiver
+/// @author Aave
+/// @notice Takes and repays pool flash loans within one transaction for testing
+/// @dev Flash loans hand out receipts that must be paid back in the same transaction,
+/// the entry functions below take a loan for the signer and pay its receipts back
+module aave_mock_underlyings::mock_flashloan_receiver {
+    // imports
+    use std::signer;
+    use aave_pool::flashloan_logic;
+
+    // Public entry functions
+    /// @notice Flash-borrows a single asset to the signer and repays it plus the premium
+    /// @dev The signer must hold the premium on top of the borrowed amount
+    /// @param account The initiator and receiver of the flash loan
+    /// @param asset The address of the asset being flash-borrowed
+    /// @param amount The amount of the asset being flash-borrowed
+    /// @param referral_code The referral code of the flash loan
+    public entry fun flash_loan_simple(
+        account: &signer,
+        asset: address,
+        amount: u256,
+        referral_code: u16
+    ) {
+        let receipt =
+            flashloan_logic::flash_loan_simple(
+                account,
+                signer::address_of(account),
+                asset,
+                amount,
+                referral_code
+            );
+        flashloan_logic::pay_flash_loan_simple(account, receipt);
+    }
+
+    /// @notice Flash-borrows several assets to the signer and settles every receipt
+    /// @dev Assets with interest rate mode 0 are repaid plus the premium, mode 2 opens a variable debt for the signer
+    /// @param account The initiator, receiver and on behalf of account of the flash loan
+    /// @param assets The addresses of the assets being flash-borrowed
+    /// @param amounts The amounts of the assets being flash-borrowed
+    /// @param interest_rate_modes The interest rate mode of every asset, 0 to repay or 2 to open a debt
+    /// @param referral_code The referral code of the flash loan
+    public entry fun flash_loan(
+        account: &signer,
+        assets: vector<address>,
+        amounts: vector<u256>,
+        interest_rate_modes: vector<u8>,
+        referral_code: u16
+    ) {
+        let account_address = signer::address_of(account);
+        let receipts =
+            flashloan_logic::flash_loan(
+                account,
+                account_address,
+                assets,
+                amounts,
+                interest_rate_modes,
+                account_address,
+                referral_code
+            );
+        flashloan_logic::pay_flash_loan_complex(account, receipts);
+    }
+
+    /// @notice Flash-borrows a single asset to receiver_address and tries to repay it as the signer
+    /// @dev Always aborts unless receiver_address is the signer, only the receiver may pay a receipt back
+    /// @param account The initiator of the flash loan
+    /// @param receiver_address The address receiving the flash-borrowed funds
+    /// @param asset The address of the asset being flash-borrowed
+    /// @param amount The amount of the asset being flash-borrowed
+    /// @param referral_code The referral code of the flash loan
+    public entry fun flash_loan_simple_to_receiver(
+        account: &signer,
+        receiver_address: address,
+        asset: address,
+        amount: u256,
+        referral_code: u16
+    ) {
+        let receipt =
+            flashloan_logic::flash_loan_simple(
+                account,
+                receiver_address,
+                asset,
+                amount,
+                referral_code
+            );
+        flashloan_logic::pay_flash_loan_simple(account, receipt);
+    }
+}
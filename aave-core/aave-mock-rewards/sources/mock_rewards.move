@@ -0,0 +1,135 @@
+/// @title Mock Rewards
+/// @author Aave
+/// @notice Creates pull rewards transfer strategies and claims rewards for testing
+/// @dev The transfer strategy constructor and the rewards distributor claims are public functions,
+/// the entry functions below let transactions call them
+module aave_mock_underlyings::mock_rewards {
+    // imports
+    use aptos_framework::account;
+    use aptos_framework::object;
+    use aave_pool::rewards_distributor;
+    use aave_pool::transfer_strategy;
+
+    // Public entry functions
+    /// @notice Creates a pull rewards transfer strategy and the resource account holding its rewards
+    /// @dev The signer must be an emission admin. The strategy object and the rewards vault are both derived
+    /// from the signer address and the seed, the vault has to be funded with the rewards before they are claimed
+    /// @param account The emission admin creating the strategy
+    /// @param seed The seed of the strategy object and of the rewards vault
+    /// @param rewards_admin The address allowed to withdraw the rewards in an emergency
+    /// @param incentives_controller The address of the rewards controller pulling the rewards
+    public entry fun create_pull_rewards_transfer_strategy(
+        account: &signer,
+        seed: vector<u8>,
+        rewards_admin: address,
+        incentives_controller: address
+    ) {
+        let constructor_ref = object::create_named_object(account, seed);
+        let (_, rewards_vault) = account::create_resource_account(account, seed);
+        transfer_strategy::create_pull_rewards_transfer_strategy(
+            account,
+            &constructor_ref,
+            rewards_admin,
+            incentives_controller,
+            rewards_vault
+        );
+    }
+
+    /// @notice Claims up to amount of a reward accrued by the signer on assets
+    /// @param account The user claiming its rewards
+    /// @param assets The addresses of the aTokens or variable debt tokens the reward accrued on
+    /// @param amount The maximum amount of the reward to claim
+    /// @param to The address receiving the reward
+    /// @param reward The address of the reward
+    /// @param rewards_controller_address The address of the rewards controller
+    public entry fun claim_rewards(
+        account: &signer,
+        assets: vector<address>,
+        amount: u256,
+        to: address,
+        reward: address,
+        rewards_controller_address: address
+    ) {
+        rewards_distributor::claim_rewards(
+            account,
+            assets,
+            amount,
+            to,
+            reward,
+            rewards_controller_address
+        );
+    }
+
+    /// @notice Claims up to amount of a reward accrued by user on assets
+    /// @dev Aborts unless the signer is the claimer the emission manager set for user
+    /// @param account The claimer of user
+    /// @param assets The addresses of the aTokens or variable debt tokens the reward accrued on
+    /// @param amount The maximum amount of the reward to claim
+    /// @param user The address of the user the reward accrued to
+    /// @param to The address receiving the reward
+    /// @param reward The address of the reward
+    /// @param rewards_controller_address The address of the rewards controller
+    public entry fun claim_rewards_on_behalf(
+        account: &signer,
+        assets: vector<address>,
+        amount: u256,
+        user: address,
+        to: address,
+        reward: address,
+        rewards_controller_address: address
+    ) {
+        rewards_distributor::claim_rewards_on_behalf(
+            account,
+            assets,
+            amount,
+            user,
+            to,
+            reward,
+            rewards_controller_address
+        );
+    }
+
+    /// @notice Claims every reward accrued by the signer on assets
+    /// @param account The user claiming its rewards
+    /// @param assets The addresses of the aTokens or variable debt tokens the rewards accrued on
+    /// @param to The address receiving the rewards
+    /// @param rewards_controller_address The address of the rewards controller
+    public entry fun claim_all_rewards(
+        account: &signer,
+        assets: vector<address>,
+        to: address,
+        rewards_controller_address: address
+    ) {
+        let (_, _) =
+            rewards_distributor::claim_all_rewards(
+                account,
+                assets,
+                to,
+                rewards_controller_address
+            );
+    }
+
+    /// @notice Claims every reward accrued by user on assets
+    /// @dev Aborts unless the signer is the claimer the emission manager set for user
+    /// @param account The claimer of user
+    /// @param assets The addresses of the aTokens or variable debt tokens the rewards accrued on
+    /// @param user The address of the user the rewards accrued to
+    /// @param to The address receiving the rewards
+    /// @param rewards_controller_address The address of the rewards controller
+    public entry fun claim_all_rewards_on_behalf(
+        account: &signer,
+        assets: vector<address>,
+        user: address,
+        to: address,
+        rewards_controller_address: address
+    ) {
+        let (_, _) =
+            rewards_distributor::claim_all_rewards_on_behalf(
+                account,
+                assets,
+                user,
+                to,
+                rewards_controller_address
+            );
+    }
+}
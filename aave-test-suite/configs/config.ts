@@ -1,13 +1,20 @@
-import { Account, AccountAddress, Ed25519Account } from "@aptos-labs/ts-sdk";
+import { Account, AccountAddress, createResourceAddress, Ed25519Account } from "@aptos-labs/ts-sdk";
 import { getTokens } from "../scripts/getTokens";
-import { AclClient, AptosProvider } from "@aave/aave-v3-aptos-ts-sdk";
+import { AAVE_PROFILES, AclClient, AptosProvider } from "@aave/aave-v3-aptos-ts-sdk";
 import path from "path";
 import dotenv from "dotenv";
+import {
+  hasLocalnetSnapshot,
+  INIT_DATA_SNAPSHOT,
+  localnetSnapshotsEnabled,
+  revertLocalnet,
+  snapshotLocalnet,
+} from "../helpers/localnet";
 
 const envPath = path.resolve(__dirname, "../../.env");
 dotenv.config({ path: envPath });
 
-const TREASURY = AccountAddress.fromString("0x800010ed1fe94674af83640117490d459e20441eab132c17e7ff39b7ae07a722");
+export const TREASURY = AccountAddress.fromString("0x800010ed1fe94674af83640117490d459e20441eab132c17e7ff39b7ae07a722");
 
 // Tokens
 export const DAI = "DAI";
@@ -64,6 +71,12 @@ export const testEnv: TestEnv = {
 
 const aptosProvider = AptosProvider.fromEnvs();
 
+// collector.move resource account, what collector::collector_address() returns
+export const COLLECTOR = createResourceAddress(
+  aptosProvider.getProfileAddressByName(AAVE_PROFILES.AAVE_POOL),
+  "AAVE_COLLECTOR",
+);
+
 export async function getTestAccounts(): Promise<Ed25519Account[]> {
   // 1. create accounts
   const accounts: Ed25519Account[] = [];
@@ -99,7 +112,56 @@ export async function getTestAccounts(): Promise<Ed25519Account[]> {
   return accounts;
 }
 
-export async function initializeMakeSuite() {
+// Ledger timestamp of the latest block, in seconds
+export async function getLedgerTimestamp(): Promise<number> {
+  return (await getLedgerState()).timestamp;
+}
+
+// The latest ledger version and its timestamp in seconds, read together so views can be pinned to that version
+export async function getLedgerState(): Promise<{ version: bigint; timestamp: number }> {
+  const { ledger_version, ledger_timestamp } = await aptosProvider.getAptos().getLedgerInfo();
+  return { version: BigInt(ledger_version), timestamp: Math.floor(Number(ledger_timestamp) / 1e6) };
+}
+
+// Moves the ledger clock forward by at least seconds and returns the new ledger timestamp.
+// An Aptos node takes block timestamps from its own clock and has no way to set them, so on the localnet this waits
+// for wall-clock time to pass and then commits a transaction so the next block carries the new time.
+export async function advanceTime(seconds: number): Promise<number> {
+  const target = (await getLedgerTimestamp()) + seconds;
+  const aptos = aptosProvider.getAptos();
+  const funder = aptosProvider.getProfileAccountByName(AAVE_PROFILES.DEFAULT_FUNDER);
+  let timestamp = await getLedgerTimestamp();
+  while (timestamp < target) {
+    await new Promise((resolve) => setTimeout(resolve, (target - timestamp) * 1000));
+    const transaction = await aptos.transferCoinTransaction({
+      sender: funder.accountAddress,
+      recipient: funder.accountAddress,
+      amount: 0,
+    });
+    const pending = await aptos.signAndSubmitTransaction({ signer: funder, transaction });
+    await aptos.waitForTransaction({ transactionHash: pending.hash });
+    timestamp = await getLedgerTimestamp();
+  }
+  return timestamp;
+}
+
+export interface SuiteSnapshots {
+  // checkpoints the localnet, e.g. before a block of tests that change the market configuration
+  snapshot: (name: string) => Promise<void>;
+  // restores a checkpoint, the initData one by default
+  revert: (name?: string) => Promise<void>;
+}
+
+const suiteSnapshots: SuiteSnapshots = {
+  snapshot: (name: string) => snapshotLocalnet(name),
+  revert: (name: string = INIT_DATA_SNAPSHOT) => revertLocalnet(name),
+};
+
+export async function initializeMakeSuite(): Promise<SuiteSnapshots> {
+  // every spec file starts from the market as initData deployed it, whatever the specs before it changed
+  if (localnetSnapshotsEnabled() && hasLocalnetSnapshot(INIT_DATA_SNAPSHOT)) {
+    await revertLocalnet(INIT_DATA_SNAPSHOT);
+  }
 
   await getTokens();
 
@@ -133,6 +195,8 @@ export async function initializeMakeSuite() {
   if (!isEmergencyAdmin) {
     await aclClient.addEmergencyAdmin(testEnv.emergencyAdmin.accountAddress);
   }
+
+  return suiteSnapshots;
 }
 
 interface UnderlyingToken {
@@ -165,7 +229,8 @@ export const underlyingTokens: Array<UnderlyingToken> = [
     symbol: DAI,
     name: DAI,
     decimals: 8,
-    treasury: TREASURY,
+    // its income shows up in the collected fees
+    treasury: COLLECTOR,
     metadataAddress: AccountAddress.ZERO,
     accountAddress: AccountAddress.ZERO,
   },
@@ -0,0 +1,427 @@
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+import {
+  AAVE,
+  aTokens,
+  COLLECTOR,
+  DAI,
+  LINK,
+  TREASURY,
+  underlyingTokens,
+  USDC,
+  varTokens,
+  WBTC,
+  WETH,
+} from "./config";
+import {
+  EModeConfig,
+  eModes,
+  IncentiveConfig,
+  RateStrategy,
+  ReserveStrategy,
+  strategyAAVE,
+  strategyDAI,
+  strategyLINK,
+  strategyUSDC,
+  strategyWBTC,
+  strategyWETH,
+} from "./pool";
+
+export const MARKET_CONFIG_VERSION = 1;
+
+export const DEFAULT_MAX_SUPPLY = "100000000000000000";
+export const DEFAULT_ORACLE_PRICE = "1";
+// treasury of the reserves that mint to collector.move, whose address depends on the pool deployment
+export const COLLECTOR_TREASURY = "collector";
+
+export interface RateStrategyConfig {
+  optimalUsageRatio: string;
+  baseVariableBorrowRate: string;
+  variableRateSlope1: string;
+  variableRateSlope2: string;
+}
+
+// markets reference their rate strategy by name through MarketReserveConfig.rateStrategy
+export type MarketReserveStrategy = Omit<ReserveStrategy, "strategy">;
+
+export interface MarketReserveConfig {
+  symbol: string;
+  name: string;
+  decimals: number;
+  // an address or COLLECTOR_TREASURY, falls back to the market treasury
+  treasury?: string;
+  maxSupply?: string;
+  aTokenName?: string;
+  aTokenSymbol?: string;
+  varTokenName?: string;
+  varTokenSymbol?: string;
+  // key into MarketConfig.rateStrategies
+  rateStrategy: string;
+  price?: string;
+  strategy: MarketReserveStrategy;
+}
+
+export interface MarketConfig {
+  version: number;
+  name: string;
+  treasury: string;
+  // existing rewards controller the incentivized reserves point to, one is created under the pool account otherwise
+  rewardsController?: string;
+  rateStrategies: Record<string, RateStrategyConfig>;
+  eModes: Array<EModeConfig>;
+  reserves: Array<MarketReserveConfig>;
+}
+
+const RATE_STRATEGY_FIELDS: Array<keyof RateStrategyConfig> = [
+  "optimalUsageRatio",
+  "baseVariableBorrowRate",
+  "variableRateSlope1",
+  "variableRateSlope2",
+];
+
+const RESERVE_STRATEGY_NUMERIC_FIELDS: Array<keyof MarketReserveStrategy> = [
+  "baseLTVAsCollateral",
+  "liquidationThreshold",
+  "liquidationBonus",
+  "liquidationProtocolFee",
+  "reserveDecimals",
+  "reserveFactor",
+  "supplyCap",
+  "borrowCap",
+  "debtCeiling",
+];
+
+// missing means the default of the field, e.g. no APT fee
+const RESERVE_STRATEGY_OPTIONAL_NUMERIC_FIELDS: Array<keyof MarketReserveStrategy> = ["aptFee"];
+
+// missing means false
+const RESERVE_STRATEGY_OPTIONAL_BOOLEAN_FIELDS: Array<keyof MarketReserveStrategy> = ["siloedBorrowing"];
+
+const RESERVE_STRATEGY_BOOLEAN_FIELDS: Array<keyof MarketReserveStrategy> = [
+  "borrowingEnabled",
+  "flashLoanEnabled",
+  "borrowableIsolation",
+];
+
+const INCENTIVE_AMOUNT_FIELDS: Array<keyof IncentiveConfig> = ["emissionPerSecond", "maxEmissionRate", "vaultFunding"];
+
+export const aTokenSymbolOf = (reserve: MarketReserveConfig): string =>
+  reserve.aTokenSymbol ?? `A${reserve.symbol}`;
+
+export const varTokenSymbolOf = (reserve: MarketReserveConfig): string =>
+  reserve.varTokenSymbol ?? `V${reserve.symbol}`;
+
+export const treasuryOf = (market: MarketConfig, reserve: MarketReserveConfig): AccountAddress => {
+  const treasury = reserve.treasury ?? market.treasury;
+  return treasury === COLLECTOR_TREASURY ? COLLECTOR : AccountAddress.fromString(treasury);
+};
+
+export const rateStrategyOf = (market: MarketConfig, reserve: MarketReserveConfig): RateStrategyConfig =>
+  market.rateStrategies[reserve.rateStrategy];
+
+const toRateStrategyConfig = (strategy: RateStrategy): RateStrategyConfig => ({
+  optimalUsageRatio: strategy.optimalUsageRatio,
+  baseVariableBorrowRate: strategy.baseVariableBorrowRate,
+  variableRateSlope1: strategy.variableRateSlope1,
+  variableRateSlope2: strategy.variableRateSlope2,
+});
+
+// The market the test suite is written against, built from configs/config.ts and configs/pool.ts
+export function defaultMarketConfig(): MarketConfig {
+  const strategies: Record<string, ReserveStrategy> = {
+    [DAI]: strategyDAI,
+    [WETH]: strategyWETH,
+    [USDC]: strategyUSDC,
+    [AAVE]: strategyAAVE,
+    [LINK]: strategyLINK,
+    [WBTC]: strategyWBTC,
+  };
+
+  const rateStrategies: Record<string, RateStrategyConfig> = {};
+  for (const { strategy } of Object.values(strategies)) {
+    rateStrategies[strategy.name] = toRateStrategyConfig(strategy);
+  }
+
+  return {
+    version: MARKET_CONFIG_VERSION,
+    name: "aave-local",
+    treasury: TREASURY.toString(),
+    rateStrategies,
+    eModes: eModes.map((eMode) => ({ ...eMode })),
+    reserves: underlyingTokens.map((token) => {
+      const { strategy: rateStrategy, ...strategy } = strategies[token.symbol];
+      return {
+        symbol: token.symbol,
+        name: token.name,
+        decimals: token.decimals,
+        treasury: token.treasury.equals(COLLECTOR) ? COLLECTOR_TREASURY : token.treasury.toString(),
+        aTokenName: aTokens.find((aToken) => aToken.underlyingSymbol === token.symbol).name,
+        aTokenSymbol: aTokens.find((aToken) => aToken.underlyingSymbol === token.symbol).symbol,
+        varTokenName: varTokens.find((varToken) => varToken.underlyingSymbol === token.symbol).name,
+        varTokenSymbol: varTokens.find((varToken) => varToken.underlyingSymbol === token.symbol).symbol,
+        rateStrategy: rateStrategy.name,
+        price: DEFAULT_ORACLE_PRICE,
+        strategy,
+      };
+    }),
+  };
+}
+
+const isUnsignedIntegerString = (value: unknown): boolean =>
+  typeof value === "string" && /^\d+$/.test(value);
+
+const isAddress = (value: unknown): boolean =>
+  typeof value === "string" && AccountAddress.isValid({ input: value }).valid;
+
+const isTreasury = (value: unknown): boolean => value === COLLECTOR_TREASURY || isAddress(value);
+
+// whole token amounts, parsed with the decimals of the reward
+const isDecimalString = (value: unknown): boolean => typeof value === "string" && /^\d+(\.\d+)?$/.test(value);
+
+const isPositiveInteger = (value: unknown): boolean => Number.isSafeInteger(value) && (value as number) > 0;
+
+const validateIncentives = (
+  prefix: string,
+  incentives: Array<IncentiveConfig>,
+  symbols: Set<string>,
+  errors: Array<string>,
+) => {
+  const rewards = new Set<string>();
+  for (const [index, incentive] of incentives.entries()) {
+    const incentivePrefix = `${prefix}.strategy.incentives[${index}]`;
+    if (!symbols.has(incentive.reward)) {
+      errors.push(`${incentivePrefix}.reward: ${incentive.reward} is not a reserve of the market`);
+    } else if (rewards.has(incentive.reward)) {
+      errors.push(`${incentivePrefix}.reward: duplicate reward ${incentive.reward}`);
+    }
+    rewards.add(incentive.reward);
+    for (const field of INCENTIVE_AMOUNT_FIELDS) {
+      if (!isDecimalString(incentive[field])) {
+        errors.push(`${incentivePrefix}.${field}: must be a decimal amount of whole tokens`);
+      }
+    }
+    if (
+      isDecimalString(incentive.emissionPerSecond) &&
+      isDecimalString(incentive.maxEmissionRate) &&
+      Number(incentive.emissionPerSecond) > Number(incentive.maxEmissionRate)
+    ) {
+      errors.push(`${incentivePrefix}.emissionPerSecond: exceeds maxEmissionRate ${incentive.maxEmissionRate}`);
+    }
+    if (incentive.distributionEnd === undefined && incentive.distributionDuration === undefined) {
+      errors.push(`${incentivePrefix}: one of distributionEnd or distributionDuration is required`);
+    }
+    for (const field of ["distributionEnd", "distributionDuration"] as const) {
+      if (incentive[field] !== undefined && !isPositiveInteger(incentive[field])) {
+        errors.push(`${incentivePrefix}.${field}: must be a positive integer (seconds)`);
+      }
+    }
+  }
+};
+
+// Checks the shape of a market definition and the references between its sections
+export function validateMarketConfig(market: MarketConfig): Array<string> {
+  const errors: Array<string> = [];
+
+  if (market.version !== MARKET_CONFIG_VERSION) {
+    errors.push(`version: expected ${MARKET_CONFIG_VERSION}, got ${market.version}`);
+  }
+  if (typeof market.name !== "string" || market.name.length === 0) {
+    errors.push("name: must be a non-empty string");
+  }
+  if (!isTreasury(market.treasury)) {
+    errors.push(`treasury: ${market.treasury} is neither a valid account address nor ${COLLECTOR_TREASURY}`);
+  }
+  if (market.rewardsController !== undefined && !isAddress(market.rewardsController)) {
+    errors.push(`rewardsController: ${market.rewardsController} is not a valid account address`);
+  }
+
+  const rateStrategies = market.rateStrategies ?? {};
+  for (const [name, strategy] of Object.entries(rateStrategies)) {
+    for (const field of RATE_STRATEGY_FIELDS) {
+      // ray values exceed Number.MAX_SAFE_INTEGER, so they have to be quoted in the file
+      if (!isUnsignedIntegerString(strategy[field])) {
+        errors.push(`rateStrategies.${name}.${field}: must be a quoted unsigned integer (ray)`);
+      }
+    }
+  }
+
+  const eModeIds = new Set<number>();
+  for (const [index, eMode] of (market.eModes ?? []).entries()) {
+    if (!Number.isInteger(eMode.categoryId) || eMode.categoryId <= 0) {
+      errors.push(`eModes[${index}].categoryId: must be a positive integer`);
+    } else if (eModeIds.has(eMode.categoryId)) {
+      errors.push(`eModes[${index}].categoryId: duplicate category ${eMode.categoryId}`);
+    }
+    eModeIds.add(eMode.categoryId);
+    for (const field of ["ltv", "liquidationThreshold", "liquidationBonus"] as const) {
+      if (!Number.isInteger(eMode[field])) {
+        errors.push(`eModes[${index}].${field}: must be an integer`);
+      }
+    }
+    if (typeof eMode.label !== "string") {
+      errors.push(`eModes[${index}].label: must be a string`);
+    }
+  }
+
+  if (!Array.isArray(market.reserves) || market.reserves.length === 0) {
+    errors.push("reserves: at least one reserve is required");
+    return errors;
+  }
+
+  const symbols = new Set<string>();
+  for (const [index, reserve] of market.reserves.entries()) {
+    const prefix = `reserves[${index}]${reserve.symbol ? ` (${reserve.symbol})` : ""}`;
+    if (typeof reserve.symbol !== "string" || reserve.symbol.length === 0) {
+      errors.push(`${prefix}.symbol: must be a non-empty string`);
+    } else if (symbols.has(reserve.symbol)) {
+      errors.push(`${prefix}.symbol: duplicate reserve`);
+    }
+    symbols.add(reserve.symbol);
+    if (typeof reserve.name !== "string" || reserve.name.length === 0) {
+      errors.push(`${prefix}.name: must be a non-empty string`);
+    }
+    if (!Number.isInteger(reserve.decimals)) {
+      errors.push(`${prefix}.decimals: must be an integer`);
+    }
+    if (reserve.treasury !== undefined && !isTreasury(reserve.treasury)) {
+      errors.push(`${prefix}.treasury: ${reserve.treasury} is neither a valid account address nor ${COLLECTOR_TREASURY}`);
+    }
+    if (reserve.maxSupply !== undefined && !isUnsignedIntegerString(reserve.maxSupply)) {
+      errors.push(`${prefix}.maxSupply: must be a quoted unsigned integer`);
+    }
+    if (reserve.price !== undefined && !isUnsignedIntegerString(reserve.price)) {
+      errors.push(`${prefix}.price: must be a quoted unsigned integer`);
+    }
+    if (!rateStrategies[reserve.rateStrategy]) {
+      errors.push(`${prefix}.rateStrategy: unknown rate strategy ${reserve.rateStrategy}`);
+    }
+
+    const { strategy } = reserve;
+    if (!strategy) {
+      errors.push(`${prefix}.strategy: is required`);
+      continue;
+    }
+    for (const field of RESERVE_STRATEGY_NUMERIC_FIELDS) {
+      if (!isUnsignedIntegerString(strategy[field])) {
+        errors.push(`${prefix}.strategy.${field}: must be an unsigned integer`);
+      }
+    }
+    for (const field of RESERVE_STRATEGY_BOOLEAN_FIELDS) {
+      if (typeof strategy[field] !== "boolean") {
+        errors.push(`${prefix}.strategy.${field}: must be a boolean`);
+      }
+    }
+    if (!Number.isInteger(strategy.emode)) {
+      errors.push(`${prefix}.strategy.emode: must be an integer`);
+    } else if (strategy.emode !== 0 && !eModeIds.has(strategy.emode)) {
+      errors.push(`${prefix}.strategy.emode: unknown eMode category ${strategy.emode}`);
+    }
+    for (const field of RESERVE_STRATEGY_OPTIONAL_NUMERIC_FIELDS) {
+      if (strategy[field] !== undefined && !isUnsignedIntegerString(strategy[field])) {
+        errors.push(`${prefix}.strategy.${field}: must be an unsigned integer`);
+      }
+    }
+    for (const field of RESERVE_STRATEGY_OPTIONAL_BOOLEAN_FIELDS) {
+      if (strategy[field] !== undefined && typeof strategy[field] !== "boolean") {
+        errors.push(`${prefix}.strategy.${field}: must be a boolean`);
+      }
+    }
+  }
+
+  // rewards can be paid in any reserve of the market, including ones listed after the incentivized reserve
+  for (const [index, reserve] of market.reserves.entries()) {
+    const incentives = reserve.strategy?.incentives;
+    if (incentives === undefined) {
+      continue;
+    }
+    const prefix = `reserves[${index}]${reserve.symbol ? ` (${reserve.symbol})` : ""}`;
+    if (!Array.isArray(incentives)) {
+      errors.push(`${prefix}.strategy.incentives: must be a list`);
+      continue;
+    }
+    validateIncentives(prefix, incentives, symbols, errors);
+  }
+
+  return errors;
+}
+
+// numbers in bps are allowed unquoted in the file, the rest of the tooling works on strings
+const normalizeMarketConfig = (market: MarketConfig): MarketConfig => {
+  for (const reserve of market.reserves ?? []) {
+    if (!reserve.strategy) {
+      continue;
+    }
+    for (const field of [...RESERVE_STRATEGY_NUMERIC_FIELDS, ...RESERVE_STRATEGY_OPTIONAL_NUMERIC_FIELDS]) {
+      const value = reserve.strategy[field];
+      if (typeof value === "number" && Number.isSafeInteger(value)) {
+        Object.assign(reserve.strategy, { [field]: value.toString() });
+      }
+    }
+    for (const incentive of Array.isArray(reserve.strategy.incentives) ? reserve.strategy.incentives : []) {
+      for (const field of INCENTIVE_AMOUNT_FIELDS) {
+        const value = incentive[field];
+        if (typeof value === "number") {
+          Object.assign(incentive, { [field]: value.toString() });
+        }
+      }
+    }
+    if (typeof reserve.price === "number") {
+      reserve.price = (reserve.price as number).toString();
+    }
+  }
+  return market;
+};
+
+// Loads a market definition from a .yaml/.yml/.json file and validates it
+export function loadMarketConfig(filePath: string): MarketConfig {
+  const resolvedPath = path.resolve(filePath);
+  const contents = fs.readFileSync(resolvedPath, { encoding: "utf8" });
+  // YAML is a superset of JSON, so a single parser covers both formats
+  const market = normalizeMarketConfig(YAML.parse(contents) as MarketConfig);
+
+  const errors = validateMarketConfig(market);
+  if (errors.length > 0) {
+    throw new Error(`Invalid market config ${resolvedPath}:\n  - ${errors.join("\n  - ")}`);
+  }
+  return market;
+}
+
+// Points the shared token registries at the reserves of the given market
+export function applyMarketConfig(market: MarketConfig) {
+  underlyingTokens.splice(
+    0,
+    underlyingTokens.length,
+    ...market.reserves.map((reserve) => ({
+      symbol: reserve.symbol,
+      name: reserve.name,
+      decimals: reserve.decimals,
+      treasury: treasuryOf(market, reserve),
+      metadataAddress: AccountAddress.ZERO,
+      accountAddress: AccountAddress.ZERO,
+    })),
+  );
+  aTokens.splice(
+    0,
+    aTokens.length,
+    ...market.reserves.map((reserve) => ({
+      symbol: aTokenSymbolOf(reserve),
+      name: reserve.aTokenName ?? aTokenSymbolOf(reserve),
+      underlyingSymbol: reserve.symbol,
+      metadataAddress: AccountAddress.ZERO,
+      accountAddress: AccountAddress.ZERO,
+    })),
+  );
+  varTokens.splice(
+    0,
+    varTokens.length,
+    ...market.reserves.map((reserve) => ({
+      symbol: varTokenSymbolOf(reserve),
+      name: reserve.varTokenName ?? varTokenSymbolOf(reserve),
+      underlyingSymbol: reserve.symbol,
+      metadataAddress: AccountAddress.ZERO,
+      accountAddress: AccountAddress.ZERO,
+    })),
+  );
+}
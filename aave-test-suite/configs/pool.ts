@@ -1,6 +1,110 @@
+// rate Strategy
+export type RateStrategy = {
+  name: string;
+  /// all rates in ray, stored in bps on-chain
+  optimalUsageRatio: string;
+  baseVariableBorrowRate: string;
+  variableRateSlope1: string;
+  variableRateSlope2: string;
+  /// stable rate parameters of the Ethereum markets, Aptos has no stable borrowing
+  stableRateSlope1?: string;
+  stableRateSlope2?: string;
+  baseStableRateOffset?: string;
+  stableRateExcessOffset?: string;
+  optimalStableToTotalDebtRatio?: string;
+};
+
+export const rateStrategyVolatileOne: RateStrategy = {
+  name: "rateStrategyVolatileOne",
+  optimalUsageRatio: "450000000000000000000000000",
+  baseVariableBorrowRate: "0",
+  variableRateSlope1: "70000000000000000000000000",
+  variableRateSlope2: "3000000000000000000000000000",
+  stableRateSlope1: "70000000000000000000000000",
+  stableRateSlope2: "3000000000000000000000000000",
+  baseStableRateOffset: "20000000000000000000000000",
+  stableRateExcessOffset: "50000000000000000000000000",
+  optimalStableToTotalDebtRatio: "200000000000000000000000000",
+};
+
+export const rateStrategyStableOne: RateStrategy = {
+  name: "rateStrategyStableOne",
+  optimalUsageRatio: "900000000000000000000000000",
+  baseVariableBorrowRate: "0",
+  variableRateSlope1: "40000000000000000000000000",
+  variableRateSlope2: "600000000000000000000000000",
+  stableRateSlope1: "5000000000000000000000000",
+  stableRateSlope2: "600000000000000000000000000",
+  baseStableRateOffset: "10000000000000000000000000",
+  stableRateExcessOffset: "80000000000000000000000000",
+  optimalStableToTotalDebtRatio: "200000000000000000000000000",
+};
+
+export const rateStrategyStableTwo: RateStrategy = {
+  name: "rateStrategyStableTwo",
+  optimalUsageRatio: "800000000000000000000000000",
+  baseVariableBorrowRate: "0",
+  variableRateSlope1: "40000000000000000000000000",
+  variableRateSlope2: "750000000000000000000000000",
+  stableRateSlope1: "20000000000000000000000000",
+  stableRateSlope2: "750000000000000000000000000",
+  baseStableRateOffset: "20000000000000000000000000",
+  stableRateExcessOffset: "50000000000000000000000000",
+  optimalStableToTotalDebtRatio: "200000000000000000000000000",
+};
+
+// Rewards emitted to the aToken holders of a reserve
+export type IncentiveConfig = {
+  /// symbol of the underlying paid out as reward, it needs an oracle price
+  reward: string;
+  /// whole reward tokens per second, shared by all holders of the aToken
+  emissionPerSecond: string;
+  /// whole reward tokens per second the emission can later be raised to
+  maxEmissionRate: string;
+  /// unix timestamp the distribution stops at, wins over distributionDuration
+  distributionEnd?: number;
+  /// seconds from the deployment to the end of the distribution
+  distributionDuration?: number;
+  /// whole reward tokens the rewards vault is topped up to
+  vaultFunding: string;
+};
+
 // Asset Strategy Configurator
-export const strategyDAI = {
-  // strategy: rateStrategies_1.rateStrategyStableTwo,
+export type ReserveStrategy = {
+  /// interest rate strategy of the reserve
+  strategy: RateStrategy;
+  /// loan to value, in bps
+  baseLTVAsCollateral: string;
+  /// in bps, must not be lower than the ltv
+  liquidationThreshold: string;
+  /// in bps, above 10000 unless the threshold is 0
+  liquidationBonus: string;
+  /// share of the liquidation bonus sent to the treasury, in bps
+  liquidationProtocolFee: string;
+  borrowingEnabled: boolean;
+  flashLoanEnabled: boolean;
+  reserveDecimals: string;
+  /// in bps
+  reserveFactor: string;
+  /// in whole tokens, 0 means no cap
+  supplyCap: string;
+  /// in whole tokens, 0 means no cap
+  borrowCap: string;
+  /// with 2 decimals, 0 means the asset is not isolated
+  debtCeiling: string;
+  borrowableIsolation: boolean;
+  /// 0 means no eMode category
+  emode: number;
+  /// reserves without incentives are listed without an incentives controller
+  incentives?: Array<IncentiveConfig>;
+  /// APT charged on supply, withdraw, borrow and repay, in octas, missing means no fee
+  aptFee?: string;
+  /// missing means the reserve is not siloed
+  siloedBorrowing?: boolean;
+};
+
+export const strategyDAI: ReserveStrategy = {
+  strategy: rateStrategyStableTwo,
   baseLTVAsCollateral: "7500",
   liquidationThreshold: "8000",
   liquidationBonus: "10500",
@@ -16,10 +120,19 @@ export const strategyDAI = {
   debtCeiling: "0",
   borrowableIsolation: true,
   emode: 0,
+  incentives: [
+    {
+      reward: "AAVE",
+      emissionPerSecond: "0.01",
+      maxEmissionRate: "1",
+      distributionDuration: 30 * 24 * 3600,
+      vaultFunding: "100000",
+    },
+  ],
 };
 
-export const strategyUSDC = {
-  // strategy: rateStrategies_1.rateStrategyStableOne,
+export const strategyUSDC: ReserveStrategy = {
+  strategy: rateStrategyStableOne,
   baseLTVAsCollateral: "8000",
   liquidationThreshold: "8500",
   liquidationBonus: "10500",
@@ -37,8 +150,8 @@ export const strategyUSDC = {
   emode: 0,
 };
 
-export const strategyAAVE = {
-  // strategy: rateStrategies_1.rateStrategyVolatileOne,
+export const strategyAAVE: ReserveStrategy = {
+  strategy: rateStrategyVolatileOne,
   baseLTVAsCollateral: "5000",
   liquidationThreshold: "6500",
   liquidationBonus: "11000",
@@ -56,8 +169,8 @@ export const strategyAAVE = {
   emode: 0,
 };
 
-export const strategyWETH = {
-  // strategy: rateStrategies_1.rateStrategyVolatileOne,
+export const strategyWETH: ReserveStrategy = {
+  strategy: rateStrategyVolatileOne,
   baseLTVAsCollateral: "8000",
   liquidationThreshold: "8250",
   liquidationBonus: "10500",
@@ -75,8 +188,8 @@ export const strategyWETH = {
   emode: 0,
 };
 
-export const strategyLINK = {
-  // strategy: rateStrategies_1.rateStrategyVolatileOne,
+export const strategyLINK: ReserveStrategy = {
+  strategy: rateStrategyVolatileOne,
   baseLTVAsCollateral: "7000",
   liquidationThreshold: "7500",
   liquidationBonus: "11000",
@@ -94,8 +207,8 @@ export const strategyLINK = {
   emode: 0,
 };
 
-export const strategyWBTC = {
-  // strategy: rateStrategies_1.rateStrategyVolatileOne,
+export const strategyWBTC: ReserveStrategy = {
+  strategy: rateStrategyVolatileOne,
   baseLTVAsCollateral: "7000",
   liquidationThreshold: "7500",
   liquidationBonus: "11000",
@@ -113,8 +226,8 @@ export const strategyWBTC = {
   emode: 1,
 };
 
-export const strategyUSDT = {
-  // strategy: rateStrategies_1.rateStrategyStableOne,
+export const strategyUSDT: ReserveStrategy = {
+  strategy: rateStrategyStableOne,
   baseLTVAsCollateral: "7500",
   liquidationThreshold: "8000",
   liquidationBonus: "10500",
@@ -132,8 +245,8 @@ export const strategyUSDT = {
   emode: 0,
 };
 
-export const strategyEURS = {
-  // strategy: rateStrategies_1.rateStrategyStableOne,
+export const strategyEURS: ReserveStrategy = {
+  strategy: rateStrategyStableOne,
   baseLTVAsCollateral: "8000",
   liquidationThreshold: "8500",
   liquidationBonus: "10500",
@@ -151,20 +264,32 @@ export const strategyEURS = {
   emode: 0,
 };
 
-// rate Strategy
-export const rateStrategyStableTwo = {
-  name: "rateStrategyStableTwo",
-  optimalUsageRatio: "800000000000000000000000000",
-  baseVariableBorrowRate: "0",
-  variableRateSlope1: "40000000000000000000000000",
-  variableRateSlope2: "750000000000000000000000000",
-  stableRateSlope1: "20000000000000000000000000",
-  stableRateSlope2: "750000000000000000000000000",
-  baseStableRateOffset: "20000000000000000000000000",
-  stableRateExcessOffset: "50000000000000000000000000",
-  optimalStableToTotalDebtRatio: "200000000000000000000000000",
+// eMode categories
+export type EModeConfig = {
+  categoryId: number;
+  ltv: number;
+  liquidationThreshold: number;
+  liquidationBonus: number;
+  label: string;
 };
 
+export const eModes: Array<EModeConfig> = [
+  {
+    categoryId: 1,
+    ltv: 9000,
+    liquidationThreshold: 9300,
+    liquidationBonus: 10200,
+    label: "ETH correlated",
+  },
+  {
+    categoryId: 2,
+    ltv: 9500,
+    liquidationThreshold: 9700,
+    liquidationBonus: 10100,
+    label: "Stablecoins",
+  },
+];
+
 export type ReserveData = {
   /// stores the reserve configuration
   configuration: { data: Number };
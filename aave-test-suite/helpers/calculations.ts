@@ -0,0 +1,405 @@
+import { BigNumber, BigNumberish } from "@ethersproject/bignumber";
+import "./wadraymath";
+import { ReserveData, UserReserveData } from "./interfaces";
+import { calculateInterestRates } from "./interestRates";
+
+// same as math_utils::SECONDS_PER_YEAR
+export const SECONDS_PER_YEAR = BigNumber.from(365 * 24 * 3600);
+
+// math_utils::calculate_linear_interest
+export function calcLinearInterest(rate: BigNumber, lastUpdateTimestamp: BigNumber, currentTimestamp: BigNumber): BigNumber {
+  const timePassed = currentTimestamp.sub(lastUpdateTimestamp);
+  return BigNumber.prototype.ray().add(rate.mul(timePassed).div(SECONDS_PER_YEAR));
+}
+
+// math_utils::calculate_compounded_interest, a third order binomial approximation
+export function calcCompoundedInterest(
+  rate: BigNumber,
+  lastUpdateTimestamp: BigNumber,
+  currentTimestamp: BigNumber,
+): BigNumber {
+  const timePassed = currentTimestamp.sub(lastUpdateTimestamp);
+  if (timePassed.isZero()) {
+    return BigNumber.prototype.ray();
+  }
+  const x = timePassed.mul(rate).div(SECONDS_PER_YEAR);
+  return BigNumber.prototype.ray().add(x).add(x.rayMul(x.div(2).add(x.rayMul(x.div(6)))));
+}
+
+export function calcUsageRatio(totalDebt: BigNumber, liquidity: BigNumber): BigNumber {
+  if (totalDebt.isZero()) {
+    return BigNumber.from(0);
+  }
+  return totalDebt.rayDiv(liquidity.add(totalDebt));
+}
+
+export function calcExpectedLiquidityIndex(reserveData: ReserveData, timestamp: BigNumber): BigNumber {
+  // the index only moves when the reserve produces income
+  if (reserveData.liquidityRate.isZero()) {
+    return reserveData.liquidityIndex;
+  }
+  return calcLinearInterest(reserveData.liquidityRate, reserveData.lastUpdateTimestamp, timestamp).rayMul(
+    reserveData.liquidityIndex,
+  );
+}
+
+export function calcExpectedVariableBorrowIndex(reserveData: ReserveData, timestamp: BigNumber): BigNumber {
+  // a positive base rate does not move the index while nothing is borrowed
+  if (reserveData.scaledVariableDebt.isZero()) {
+    return reserveData.variableBorrowIndex;
+  }
+  return calcCompoundedInterest(reserveData.variableBorrowRate, reserveData.lastUpdateTimestamp, timestamp).rayMul(
+    reserveData.variableBorrowIndex,
+  );
+}
+
+// pool_logic::accrue_to_treasury
+export function calcExpectedAccruedToTreasury(
+  reserveData: ReserveData,
+  nextLiquidityIndex: BigNumber,
+  nextVariableBorrowIndex: BigNumber,
+): BigNumber {
+  if (reserveData.reserveFactor.isZero()) {
+    return reserveData.accruedToTreasuryScaled;
+  }
+  const prevTotalVariableDebt = reserveData.scaledVariableDebt.rayMul(reserveData.variableBorrowIndex);
+  const currTotalVariableDebt = reserveData.scaledVariableDebt.rayMul(nextVariableBorrowIndex);
+  const amountToMint = currTotalVariableDebt.sub(prevTotalVariableDebt).percentMul(reserveData.reserveFactor.toString());
+  if (amountToMint.isZero()) {
+    return reserveData.accruedToTreasuryScaled;
+  }
+  return reserveData.accruedToTreasuryScaled.add(amountToMint.rayDiv(nextLiquidityIndex));
+}
+
+// pool_logic::update_state, the reserve as it is at timestamp before the operation changes it
+export function calcExpectedReserveDataAfterUpdateState(reserveData: ReserveData, timestamp: BigNumber): ReserveData {
+  if (reserveData.lastUpdateTimestamp.eq(timestamp)) {
+    return { ...reserveData };
+  }
+  const liquidityIndex = calcExpectedLiquidityIndex(reserveData, timestamp);
+  const variableBorrowIndex = calcExpectedVariableBorrowIndex(reserveData, timestamp);
+  return {
+    ...reserveData,
+    liquidityIndex,
+    variableBorrowIndex,
+    accruedToTreasuryScaled: calcExpectedAccruedToTreasury(reserveData, liquidityIndex, variableBorrowIndex),
+    lastUpdateTimestamp: timestamp,
+  };
+}
+
+// pool_token_logic::mint_to_treasury does not update the reserve: it mints what accrued up to the last update, valued
+// at the normalized income of timestamp
+export function calcExpectedMintToTreasury(reserveData: ReserveData, timestamp: BigNumber): BigNumber {
+  return reserveData.accruedToTreasuryScaled.rayMul(calcExpectedLiquidityIndex(reserveData, timestamp));
+}
+
+// What mint_to_treasury sends at timestamp once an operation on the reserve has accrued its interest up to then
+export function calcProjectedMintToTreasury(reserveData: ReserveData, timestamp: BigNumber): BigNumber {
+  const updated = calcExpectedReserveDataAfterUpdateState(reserveData, timestamp);
+  return updated.accruedToTreasuryScaled.rayMul(updated.liquidityIndex);
+}
+
+// pool_logic::update_interest_rates_and_virtual_balance, applied to an updated reserve whose scaled debt already moved
+function updateInterestRatesAndLiquidity(
+  reserveData: ReserveData,
+  liquidityAdded: BigNumber,
+  liquidityTaken: BigNumber,
+): ReserveData {
+  const totalVariableDebt = reserveData.scaledVariableDebt.rayMul(reserveData.variableBorrowIndex);
+  const { currentLiquidityRate, currentVariableBorrowRate } = calculateInterestRates(
+    {
+      unbacked: reserveData.unbacked,
+      liquidityAdded,
+      liquidityTaken,
+      totalDebt: totalVariableDebt,
+      reserveFactor: reserveData.reserveFactor,
+      virtualUnderlyingBalance: reserveData.availableLiquidity,
+    },
+    reserveData,
+  );
+  const availableLiquidity = reserveData.availableLiquidity.add(liquidityAdded).sub(liquidityTaken);
+
+  return {
+    ...reserveData,
+    availableLiquidity,
+    totalLiquidity: availableLiquidity.add(totalVariableDebt),
+    totalVariableDebt,
+    supplyUsageRatio: calcUsageRatio(totalVariableDebt, availableLiquidity.add(reserveData.unbacked)),
+    borrowUsageRatio: calcUsageRatio(totalVariableDebt, availableLiquidity),
+    liquidityRate: currentLiquidityRate,
+    variableBorrowRate: currentVariableBorrowRate,
+  };
+}
+
+export function calcExpectedReserveDataAfterSupply(
+  amount: BigNumberish,
+  reserveDataBefore: ReserveData,
+  txTimestamp: BigNumber,
+): ReserveData {
+  const reserveData = calcExpectedReserveDataAfterUpdateState(reserveDataBefore, txTimestamp);
+  return updateInterestRatesAndLiquidity(reserveData, BigNumber.from(amount), BigNumber.from(0));
+}
+
+// amount is the amount actually withdrawn, not the max sentinel
+export function calcExpectedReserveDataAfterWithdraw(
+  amount: BigNumberish,
+  reserveDataBefore: ReserveData,
+  txTimestamp: BigNumber,
+): ReserveData {
+  const reserveData = calcExpectedReserveDataAfterUpdateState(reserveDataBefore, txTimestamp);
+  return updateInterestRatesAndLiquidity(reserveData, BigNumber.from(0), BigNumber.from(amount));
+}
+
+export function calcExpectedReserveDataAfterBorrow(
+  amount: BigNumberish,
+  reserveDataBefore: ReserveData,
+  txTimestamp: BigNumber,
+): ReserveData {
+  const reserveData = calcExpectedReserveDataAfterUpdateState(reserveDataBefore, txTimestamp);
+  reserveData.scaledVariableDebt = reserveData.scaledVariableDebt.add(
+    BigNumber.from(amount).rayDiv(reserveData.variableBorrowIndex),
+  );
+  return updateInterestRatesAndLiquidity(reserveData, BigNumber.from(0), BigNumber.from(amount));
+}
+
+// amount is the amount actually repaid, not the max sentinel
+export function calcExpectedReserveDataAfterRepay(
+  amount: BigNumberish,
+  reserveDataBefore: ReserveData,
+  txTimestamp: BigNumber,
+): ReserveData {
+  const reserveData = calcExpectedReserveDataAfterUpdateState(reserveDataBefore, txTimestamp);
+  reserveData.scaledVariableDebt = reserveData.scaledVariableDebt.sub(
+    BigNumber.from(amount).rayDiv(reserveData.variableBorrowIndex),
+  );
+  return updateInterestRatesAndLiquidity(reserveData, BigNumber.from(amount), BigNumber.from(0));
+}
+
+// flashloan_logic::handle_flash_loan_repayment for a flash loan paid back with its premium. The protocol share of
+// the premium accrues to the treasury, the rest goes to the suppliers through the liquidity index.
+export function calcExpectedReserveDataAfterFlashLoan(
+  amount: BigNumberish,
+  totalPremium: BigNumberish,
+  flashloanPremiumToProtocol: BigNumberish,
+  aTokenScaledTotalSupply: BigNumber,
+  reserveDataBefore: ReserveData,
+  txTimestamp: BigNumber,
+): ReserveData {
+  const reserveData = calcExpectedReserveDataAfterUpdateState(reserveDataBefore, txTimestamp);
+  const premium = BigNumber.from(totalPremium);
+  const premiumToProtocol = premium.percentMul(flashloanPremiumToProtocol.toString());
+  const totalLiquidity = aTokenScaledTotalSupply
+    .rayMul(reserveData.liquidityIndex)
+    .add(reserveData.accruedToTreasuryScaled.rayMul(reserveData.liquidityIndex));
+  // pool::cumulate_to_liquidity_index
+  const liquidityIndex = premium
+    .sub(premiumToProtocol)
+    .wadToRay()
+    .rayDiv(totalLiquidity.wadToRay())
+    .add(BigNumber.prototype.ray())
+    .rayMul(reserveData.liquidityIndex);
+  return updateInterestRatesAndLiquidity(
+    {
+      ...reserveData,
+      liquidityIndex,
+      accruedToTreasuryScaled: reserveData.accruedToTreasuryScaled.add(premiumToProtocol.rayDiv(liquidityIndex)),
+      // the loan left the virtual balance when it was taken
+      availableLiquidity: reserveData.availableLiquidity.sub(amount),
+    },
+    BigNumber.from(amount).add(premium),
+    BigNumber.from(0),
+  );
+}
+
+// liquidation_logic::calculate_available_collateral_to_liquidate for a user holding enough collateral to cover the
+// bonus. liquidationBonus is the one of the user eMode category when the collateral is in it, else the reserve's.
+export function calcExpectedLiquidatedCollateral(
+  debtToCover: BigNumberish,
+  debtPrice: BigNumberish,
+  debtDecimals: number,
+  collateralPrice: BigNumberish,
+  collateralDecimals: number,
+  liquidationBonus: BigNumberish,
+  liquidationProtocolFee: BigNumberish,
+): { collateralAmount: BigNumber; protocolFee: BigNumber } {
+  const baseCollateral = BigNumber.from(debtPrice)
+    .mul(debtToCover)
+    .mul(BigNumber.from(10).pow(collateralDecimals))
+    .div(BigNumber.from(collateralPrice).mul(BigNumber.from(10).pow(debtDecimals)));
+  const maxCollateral = baseCollateral.percentMul(liquidationBonus.toString());
+  const bonusCollateral = maxCollateral.sub(maxCollateral.percentDiv(liquidationBonus.toString()));
+  const protocolFee = bonusCollateral.percentMul(liquidationProtocolFee.toString());
+  return { collateralAmount: maxCollateral.sub(protocolFee), protocolFee };
+}
+
+// rewards_controller::calculate_asset_index_internal, the index of a reward on an asset at timestamp. Emissions stop at
+// the distribution end. totalSupply is the scaled supply of the asset, decimals its decimals.
+export function calcExpectedRewardsIndex(
+  index: BigNumberish,
+  emissionPerSecond: BigNumberish,
+  lastUpdateTimestamp: BigNumberish,
+  distributionEnd: BigNumberish,
+  totalSupply: BigNumberish,
+  decimals: number,
+  timestamp: BigNumberish,
+): BigNumber {
+  const lastUpdate = BigNumber.from(lastUpdateTimestamp);
+  const end = BigNumber.from(distributionEnd);
+  if (
+    BigNumber.from(emissionPerSecond).isZero() ||
+    BigNumber.from(totalSupply).isZero() ||
+    lastUpdate.gte(timestamp) ||
+    lastUpdate.gte(end)
+  ) {
+    return BigNumber.from(index);
+  }
+  const timeDelta = (end.lt(timestamp) ? end : BigNumber.from(timestamp)).sub(lastUpdate);
+  return BigNumber.from(emissionPerSecond)
+    .mul(timeDelta)
+    .mul(BigNumber.from(10).pow(decimals))
+    .div(totalSupply)
+    .add(index);
+}
+
+// rewards_controller::get_user_rewards for one asset, the accrued rewards plus those of the scaled balance since the
+// user index was last updated
+export function calcExpectedUserRewards(
+  scaledBalance: BigNumberish,
+  assetIndex: BigNumberish,
+  userIndex: BigNumberish,
+  accrued: BigNumberish,
+  decimals: number,
+): BigNumber {
+  return BigNumber.from(scaledBalance)
+    .mul(BigNumber.from(assetIndex).sub(userIndex))
+    .div(BigNumber.from(10).pow(decimals))
+    .add(accrued);
+}
+
+// The debt and collateral reserves after liquidation_call. Bad debt turned into a deficit is not modelled.
+// collateralLiquidated excludes the protocol fee, which stays in the pool as aTokens of the treasury.
+export function calcExpectedReserveDataAfterLiquidation(
+  debtRepaid: BigNumberish,
+  collateralLiquidated: BigNumberish,
+  receiveAToken: boolean,
+  debtReserveDataBefore: ReserveData,
+  collateralReserveDataBefore: ReserveData,
+  txTimestamp: BigNumber,
+): { debtReserveData: ReserveData; collateralReserveData: ReserveData } {
+  const debtReserveData = calcExpectedReserveDataAfterRepay(debtRepaid, debtReserveDataBefore, txTimestamp);
+  // aTokens sent to the liquidator leave the collateral reserve untouched
+  const collateralReserveData = receiveAToken
+    ? { ...collateralReserveDataBefore }
+    : calcExpectedReserveDataAfterWithdraw(collateralLiquidated, collateralReserveDataBefore, txTimestamp);
+  return { debtReserveData, collateralReserveData };
+}
+
+// the balances of a user at the indexes of reserveData, which must already be at timestamp
+function updateUserBalances(userData: UserReserveData, reserveData: ReserveData): UserReserveData {
+  return {
+    ...userData,
+    currentATokenBalance: userData.scaledATokenBalance.rayMul(reserveData.liquidityIndex),
+    currentVariableDebt: userData.scaledVariableDebt.rayMul(reserveData.variableBorrowIndex),
+    liquidityRate: reserveData.liquidityRate,
+  };
+}
+
+// The position of a user once time has passed without any interaction, e.g. after advancing the chain
+export function calcExpectedUserDataAfterTime(
+  reserveData: ReserveData,
+  userData: UserReserveData,
+  timestamp: BigNumber,
+): UserReserveData {
+  return updateUserBalances(userData, calcExpectedReserveDataAfterUpdateState(reserveData, timestamp));
+}
+
+// Expects the supplier to be the receiver of the aTokens
+export function calcExpectedUserDataAfterSupply(
+  amount: BigNumberish,
+  reserveDataAfter: ReserveData,
+  userDataBefore: UserReserveData,
+): UserReserveData {
+  const userData = { ...userDataBefore };
+  userData.scaledATokenBalance = userDataBefore.scaledATokenBalance.add(
+    BigNumber.from(amount).rayDiv(reserveDataAfter.liquidityIndex),
+  );
+  userData.walletBalance = userDataBefore.walletBalance.sub(amount);
+  // supply leaves the collateral flag as is, validate_automatic_use_as_collateral always returns false
+  return updateUserBalances(userData, reserveDataAfter);
+}
+
+export function calcExpectedUserDataAfterWithdraw(
+  amount: BigNumberish,
+  reserveDataAfter: ReserveData,
+  userDataBefore: UserReserveData,
+): UserReserveData {
+  const userData = { ...userDataBefore };
+  userData.scaledATokenBalance = userDataBefore.scaledATokenBalance.sub(
+    BigNumber.from(amount).rayDiv(reserveDataAfter.liquidityIndex),
+  );
+  userData.walletBalance = userDataBefore.walletBalance.add(amount);
+  if (userData.scaledATokenBalance.isZero()) {
+    userData.usageAsCollateralEnabled = false;
+  }
+  return updateUserBalances(userData, reserveDataAfter);
+}
+
+export function calcExpectedUserDataAfterBorrow(
+  amount: BigNumberish,
+  reserveDataAfter: ReserveData,
+  userDataBefore: UserReserveData,
+): UserReserveData {
+  const userData = { ...userDataBefore };
+  userData.scaledVariableDebt = userDataBefore.scaledVariableDebt.add(
+    BigNumber.from(amount).rayDiv(reserveDataAfter.variableBorrowIndex),
+  );
+  userData.walletBalance = userDataBefore.walletBalance.add(amount);
+  return updateUserBalances(userData, reserveDataAfter);
+}
+
+// Expects the payer to be the borrower
+export function calcExpectedUserDataAfterRepay(
+  amount: BigNumberish,
+  reserveDataAfter: ReserveData,
+  userDataBefore: UserReserveData,
+): UserReserveData {
+  const userData = { ...userDataBefore };
+  userData.scaledVariableDebt = userDataBefore.scaledVariableDebt.sub(
+    BigNumber.from(amount).rayDiv(reserveDataAfter.variableBorrowIndex),
+  );
+  userData.walletBalance = userDataBefore.walletBalance.sub(amount);
+  return updateUserBalances(userData, reserveDataAfter);
+}
+
+// The positions of the liquidated user. collateralLiquidated excludes the protocol fee sent to the treasury.
+export function calcExpectedUserDataAfterLiquidation(
+  debtRepaid: BigNumberish,
+  collateralLiquidated: BigNumberish,
+  liquidationProtocolFee: BigNumberish,
+  debtReserveDataAfter: ReserveData,
+  collateralReserveDataAfter: ReserveData,
+  userDebtDataBefore: UserReserveData,
+  userCollateralDataBefore: UserReserveData,
+  txTimestamp: BigNumber,
+): { userDebtData: UserReserveData; userCollateralData: UserReserveData } {
+  const userDebtData = { ...userDebtDataBefore };
+  userDebtData.scaledVariableDebt = userDebtDataBefore.scaledVariableDebt.sub(
+    BigNumber.from(debtRepaid).rayDiv(debtReserveDataAfter.variableBorrowIndex),
+  );
+
+  // with receiveAToken the collateral reserve is not updated, the aTokens move at its normalized income
+  const collateralReserveData = calcExpectedReserveDataAfterUpdateState(collateralReserveDataAfter, txTimestamp);
+  const userCollateralData = { ...userCollateralDataBefore };
+  // the liquidator and the treasury are paid by two transfers, each one rounded on its own
+  userCollateralData.scaledATokenBalance = userCollateralDataBefore.scaledATokenBalance
+    .sub(BigNumber.from(collateralLiquidated).rayDiv(collateralReserveData.liquidityIndex))
+    .sub(BigNumber.from(liquidationProtocolFee).rayDiv(collateralReserveData.liquidityIndex));
+  if (userCollateralData.scaledATokenBalance.isZero()) {
+    userCollateralData.usageAsCollateralEnabled = false;
+  }
+
+  return {
+    userDebtData: updateUserBalances(userDebtData, debtReserveDataAfter),
+    userCollateralData: updateUserBalances(userCollateralData, collateralReserveData),
+  };
+}
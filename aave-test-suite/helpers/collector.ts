@@ -0,0 +1,40 @@
+import { AccountAddress, CommittedTransactionResponse, Ed25519Account, MoveFunctionId } from "@aptos-labs/ts-sdk";
+import { AAVE_PROFILES, AptosContractWrapperBaseClass, AptosProvider } from "@aave/aave-v3-aptos-ts-sdk";
+
+// Reads and withdraws the aTokens held by collector.move. The SDK has no client for it, withdraw needs a funds admin
+// as signer.
+export class CollectorClient extends AptosContractWrapperBaseClass {
+  private readonly collectorModule: string;
+
+  constructor(aptosProvider: AptosProvider, signer?: Ed25519Account) {
+    super(aptosProvider, signer);
+    const pool = aptosProvider.getProfileAddressByName(AAVE_PROFILES.AAVE_POOL);
+    this.collectorModule = `${pool.toString()}::collector`;
+  }
+
+  private functionId(name: string): MoveFunctionId {
+    return `${this.collectorModule}::${name}` as MoveFunctionId;
+  }
+
+  // The resource account holding the collected aTokens
+  async collectorAddress(): Promise<AccountAddress> {
+    const [collector] = await this.callViewMethod<[string]>(this.functionId("collector_address"), []);
+    return AccountAddress.fromString(collector);
+  }
+
+  // Scaled aToken balance of the collector, 0 for anything that is not an aToken
+  async getCollectedFees(aToken: AccountAddress): Promise<bigint> {
+    const [fees] = await this.callViewMethod<[string]>(this.functionId("get_collected_fees"), [aToken]);
+    return BigInt(fees);
+  }
+
+  async isFundsAdmin(account: AccountAddress): Promise<boolean> {
+    const [isFundsAdmin] = await this.callViewMethod<[boolean]>(this.functionId("is_funds_admin"), [account]);
+    return isFundsAdmin;
+  }
+
+  // amount is in aTokens, not scaled
+  async withdraw(aToken: AccountAddress, receiver: AccountAddress, amount: bigint): Promise<CommittedTransactionResponse> {
+    return this.sendTxAndAwaitResponse(this.functionId("withdraw"), [aToken, receiver, amount]);
+  }
+}
@@ -0,0 +1,231 @@
+import { execFileSync } from "child_process";
+import path from "path";
+import { BigNumber } from "@ethersproject/bignumber";
+import type { EMode, IAaveConfiguration, IInterestRateStrategyParams, IReserveParams } from "@aave/deploy-v3";
+import { TREASURY } from "../configs/config";
+import {
+  MARKET_CONFIG_VERSION,
+  MarketConfig,
+  MarketReserveConfig,
+  MarketReserveStrategy,
+  RateStrategyConfig,
+  validateMarketConfig,
+} from "../configs/market";
+import { EModeConfig } from "../configs/pool";
+import { validateMarketStrategies } from "./strategyValidator";
+import { rayToBps } from "./utils";
+
+// deploy-v3 parameters without an equivalent in the Aptos protocol
+const STABLE_RATE_FIELDS: Array<keyof IInterestRateStrategyParams> = [
+  "stableRateSlope1",
+  "stableRateSlope2",
+  "baseStableRateOffset",
+  "stableRateExcessOffset",
+  "optimalStableToTotalDebtRatio",
+];
+
+const UNSUPPORTED_MARKET_FIELDS: Array<keyof IAaveConfiguration> = [
+  "ChainlinkAggregator",
+  "FallbackOracle",
+  "IncentivesConfig",
+  "FlashLoanPremiums",
+  "WrappedNativeTokenSymbol",
+  "L2PoolEnabled",
+  "StkAaveProxy",
+  "ParaswapRegistry",
+];
+
+const RAY_TO_BPS = BigNumber.from("10").pow(23);
+
+export interface ImportIssue {
+  // dotted path of the field in the deploy-v3 market
+  path: string;
+  value: string;
+  reason: string;
+}
+
+export interface DeployV3ImportOptions {
+  // defaults to a slug of the deploy-v3 MarketId
+  name?: string;
+  // deploy-v3 treasuries are Ethereum addresses, so one has to be provided for Aptos
+  treasury?: string;
+}
+
+export interface DeployV3ImportResult {
+  market: MarketConfig;
+  // fields that were dropped or altered because Aptos has no equivalent
+  unsupported: Array<ImportIssue>;
+  // rules the imported market breaks, as the pool configurator would report them
+  errors: Array<string>;
+}
+
+const slugify = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+const toRateStrategy = (
+  strategy: IInterestRateStrategyParams,
+  unsupported: Array<ImportIssue>,
+): RateStrategyConfig => {
+  const path = `RateStrategies.${strategy.name}`;
+  for (const field of STABLE_RATE_FIELDS) {
+    if (strategy[field] !== undefined && !BigNumber.from(strategy[field]).isZero()) {
+      unsupported.push({ path: `${path}.${field}`, value: strategy[field], reason: "stable rate borrowing is not supported" });
+    }
+  }
+
+  // the pool stores rates in bps, anything finer than that is lost on-chain
+  const toBpsPrecision = (field: keyof RateStrategyConfig): string => {
+    const ray = BigNumber.from(strategy[field]);
+    const bps = rayToBps(ray);
+    if (!bps.mul(RAY_TO_BPS).eq(ray)) {
+      unsupported.push({ path: `${path}.${field}`, value: ray.toString(), reason: `rounded down to ${bps.toString()} bps` });
+    }
+    return bps.mul(RAY_TO_BPS).toString();
+  };
+
+  return {
+    optimalUsageRatio: toBpsPrecision("optimalUsageRatio"),
+    baseVariableBorrowRate: toBpsPrecision("baseVariableBorrowRate"),
+    variableRateSlope1: toBpsPrecision("variableRateSlope1"),
+    variableRateSlope2: toBpsPrecision("variableRateSlope2"),
+  };
+};
+
+const toEModeConfig = (eMode: EMode, key: string, unsupported: Array<ImportIssue>): EModeConfig => {
+  if (eMode.oracleId) {
+    unsupported.push({ path: `EModes.${key}.oracleId`, value: eMode.oracleId, reason: "eMode price sources are not supported" });
+  }
+  return {
+    categoryId: Number(eMode.id),
+    ltv: Number(eMode.ltv),
+    liquidationThreshold: Number(eMode.liquidationThreshold),
+    liquidationBonus: Number(eMode.liquidationBonus),
+    label: eMode.label,
+  };
+};
+
+const toReserveStrategy = (
+  symbol: string,
+  params: IReserveParams,
+  eMode: number,
+  unsupported: Array<ImportIssue>,
+): MarketReserveStrategy => {
+  const path = `ReservesConfig.${symbol}`;
+  if (params.stableBorrowRateEnabled) {
+    unsupported.push({ path: `${path}.stableBorrowRateEnabled`, value: "true", reason: "stable rate borrowing is not supported" });
+  }
+  if (params.aTokenImpl !== undefined && params.aTokenImpl !== "AToken") {
+    unsupported.push({ path: `${path}.aTokenImpl`, value: params.aTokenImpl, reason: "custom aToken implementations are not supported" });
+  }
+
+  return {
+    baseLTVAsCollateral: params.baseLTVAsCollateral,
+    liquidationThreshold: params.liquidationThreshold,
+    liquidationBonus: params.liquidationBonus,
+    liquidationProtocolFee: params.liquidationProtocolFee ?? "0",
+    borrowingEnabled: params.borrowingEnabled,
+    flashLoanEnabled: params.flashLoanEnabled,
+    reserveDecimals: params.reserveDecimals,
+    reserveFactor: params.reserveFactor,
+    supplyCap: params.supplyCap,
+    borrowCap: params.borrowCap,
+    debtCeiling: params.debtCeiling,
+    borrowableIsolation: params.borrowableIsolation,
+    emode: eMode,
+  };
+};
+
+// Maps a market from @aave/deploy-v3 (markets/aave, markets/test, ...) onto this project's market config
+export function importDeployV3Market(config: IAaveConfiguration, options: DeployV3ImportOptions = {}): DeployV3ImportResult {
+  const unsupported: Array<ImportIssue> = [];
+
+  for (const field of UNSUPPORTED_MARKET_FIELDS) {
+    if (config[field] !== undefined) {
+      unsupported.push({ path: field, value: JSON.stringify(config[field]), reason: "not imported, configure it separately on Aptos" });
+    }
+  }
+  if (config.ReserveAssets !== undefined) {
+    unsupported.push({ path: "ReserveAssets", value: "...", reason: "Ethereum token addresses, underlyings are created by createTokens" });
+  }
+
+  const eModeEntries = Object.entries(config.EModes ?? {});
+  const eModes = eModeEntries.map(([key, eMode]) => toEModeConfig(eMode, key, unsupported));
+
+  const rateStrategies: Record<string, RateStrategyConfig> = {};
+  const reserves: Array<MarketReserveConfig> = [];
+  for (const [symbol, params] of Object.entries(config.ReservesConfig)) {
+    if (!rateStrategies[params.strategy.name]) {
+      rateStrategies[params.strategy.name] = toRateStrategy(params.strategy, unsupported);
+    }
+
+    // deploy-v3 lists the assets of each category, Aptos stores the category on the reserve
+    const categories = eModeEntries.filter(([, eMode]) => eMode.assets.includes(symbol));
+    if (categories.length > 1) {
+      unsupported.push({
+        path: `ReservesConfig.${symbol}`,
+        value: categories.map(([key]) => key).join(", "),
+        reason: `a reserve belongs to a single eMode category, kept ${categories[0][0]}`,
+      });
+    }
+    const eMode = categories.length > 0 ? Number(categories[0][1].id) : 0;
+
+    reserves.push({
+      symbol,
+      name: symbol,
+      decimals: Number(params.reserveDecimals),
+      rateStrategy: params.strategy.name,
+      strategy: toReserveStrategy(symbol, params, eMode, unsupported),
+    });
+  }
+
+  const market: MarketConfig = {
+    version: MARKET_CONFIG_VERSION,
+    name: options.name ?? slugify(config.MarketId),
+    treasury: options.treasury ?? TREASURY.toString(),
+    rateStrategies,
+    eModes,
+    reserves,
+  };
+
+  const errors = validateMarketConfig(market);
+  return {
+    market,
+    unsupported,
+    errors: errors.length > 0 ? errors : validateMarketStrategies(market),
+  };
+}
+
+// Runs in a separate node process: the deploy-v3 modules are written against ethers v5, installed as ethers-v5 next
+// to the ethers 6 of this project, and the market indexes import the helpers barrel for ZERO_ADDRESS only, which
+// would also load every hardhat task. Both are redirected before the market is required.
+const LOAD_DEPLOY_V3_MARKET_SCRIPT = `
+const Module = require("module");
+const path = require("path");
+const deployV3Dir = path.dirname(require.resolve("@aave/deploy-v3/package.json"));
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request, parent, ...rest) {
+  if (parent && parent.filename && parent.filename.startsWith(deployV3Dir)) {
+    if (request === "ethers" || request.startsWith("ethers/")) {
+      request = request.replace(/^ethers/, "ethers-v5");
+    } else if (request === "../../helpers" && parent.filename.includes(path.sep + "markets" + path.sep)) {
+      request = "../../helpers/constants";
+    }
+  }
+  return resolveFilename.call(this, request, parent, ...rest);
+};
+const marketModule = require("@aave/deploy-v3/dist/markets/" + process.argv[1]);
+process.stdout.write(JSON.stringify(marketModule.default ?? marketModule));
+`;
+
+// Loads a market of @aave/deploy-v3/dist/markets, e.g. aave or test, as its JSON export
+export function loadDeployV3Market(name: string): IAaveConfiguration {
+  const output = execFileSync(process.execPath, ["-e", LOAD_DEPLOY_V3_MARKET_SCRIPT, name], {
+    cwd: path.join(__dirname, ".."),
+    encoding: "utf8",
+    maxBuffer: 16 * 1024 * 1024,
+  });
+  return JSON.parse(output) as IAaveConfiguration;
+}
@@ -0,0 +1,142 @@
+import fs from "fs";
+import path from "path";
+
+export const DEPLOYMENT_STATE_DIR = path.resolve(__dirname, "../deployments");
+
+// initData steps, in execution order
+export enum DeploymentStep {
+  CREATE_ROLES = "createRoles",
+  CREATE_TOKENS = "createTokens",
+  INIT_EMODES = "initEModes",
+  INIT_REWARDS_CONTROLLER = "initRewardsController",
+  INIT_RESERVES = "initReserves",
+  CONFIG_RESERVES = "configReserves",
+  INIT_INTEREST_RATES = "initDefaultInterestRates",
+  INIT_ORACLE_PRICES = "initReserveOraclePrice",
+  INIT_REWARDS = "initRewards",
+}
+
+export enum DeploymentStatus {
+  PENDING = "pending",
+  DONE = "done",
+}
+
+export interface DeploymentTx {
+  description: string;
+  hash: string;
+}
+
+export interface DeploymentStepState {
+  status: DeploymentStatus;
+  // assets (or other units of work) the step already finished
+  completedItems: Array<string>;
+  txs: Array<DeploymentTx>;
+  updatedAt: string;
+}
+
+export interface DeploymentStateData {
+  market: string;
+  network: string;
+  createdAt: string;
+  updatedAt: string;
+  steps: Record<string, DeploymentStepState>;
+}
+
+export const defaultDeploymentStatePath = (marketName: string, network: string): string =>
+  path.join(DEPLOYMENT_STATE_DIR, `${marketName}.${network}.json`);
+
+// Progress of an initData run, persisted after every change so a crashed run can be resumed
+export class DeploymentState {
+  private constructor(
+    public readonly filePath: string,
+    private readonly data: DeploymentStateData,
+  ) {}
+
+  public static create(filePath: string, market: string, network: string): DeploymentState {
+    const now = new Date().toISOString();
+    const state = new DeploymentState(filePath, {
+      market,
+      network,
+      createdAt: now,
+      updatedAt: now,
+      steps: {},
+    });
+    state.save();
+    return state;
+  }
+
+  public static load(filePath: string): DeploymentState {
+    const contents = fs.readFileSync(filePath, { encoding: "utf8" });
+    return new DeploymentState(filePath, JSON.parse(contents) as DeploymentStateData);
+  }
+
+  // Resumes from an existing state file, or starts a new one if there is none
+  public static loadOrCreate(filePath: string, market: string, network: string): DeploymentState {
+    if (!fs.existsSync(filePath)) {
+      return DeploymentState.create(filePath, market, network);
+    }
+    const state = DeploymentState.load(filePath);
+    if (state.data.market !== market || state.data.network !== network) {
+      throw new Error(
+        `State file ${filePath} belongs to market ${state.data.market} on ${state.data.network}, not ${market} on ${network}`,
+      );
+    }
+    return state;
+  }
+
+  public get market(): string {
+    return this.data.market;
+  }
+
+  public isStepDone(step: string): boolean {
+    return this.data.steps[step]?.status === DeploymentStatus.DONE;
+  }
+
+  public isItemDone(step: string, item: string): boolean {
+    return this.data.steps[step]?.completedItems.includes(item) ?? false;
+  }
+
+  public markItemDone(step: string, item: string) {
+    const stepState = this.getOrCreateStep(step);
+    if (!stepState.completedItems.includes(item)) {
+      stepState.completedItems.push(item);
+    }
+    this.touch(stepState);
+  }
+
+  public markStepDone(step: string) {
+    const stepState = this.getOrCreateStep(step);
+    stepState.status = DeploymentStatus.DONE;
+    this.touch(stepState);
+  }
+
+  public recordTx(step: string, description: string, hash: string) {
+    const stepState = this.getOrCreateStep(step);
+    stepState.txs.push({ description, hash });
+    this.touch(stepState);
+  }
+
+  public save() {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(this.data, null, 2), { encoding: "utf8" });
+  }
+
+  private getOrCreateStep(step: string): DeploymentStepState {
+    if (!this.data.steps[step]) {
+      this.data.steps[step] = {
+        status: DeploymentStatus.PENDING,
+        completedItems: [],
+        txs: [],
+        updatedAt: new Date().toISOString(),
+      };
+    }
+    return this.data.steps[step];
+  }
+
+  private touch(stepState: DeploymentStepState) {
+    const now = new Date().toISOString();
+    stepState.updatedAt = now;
+    this.data.updatedAt = now;
+    this.save();
+  }
+}
@@ -0,0 +1,50 @@
+import path from "path";
+
+// every Aave module aborts with the codes of aave_config::error_config
+export const errorConfigPath = path.resolve(__dirname, "../../aave-core/aave-config/sources/error_config.move");
+
+export interface MoveErrorConstant {
+  name: string;
+  code: number;
+  message: string;
+}
+
+const CONSTANT_PATTERN = /^\s*const (E\w+): u64 = (\d+);/;
+const DOC_PATTERN = /^\s*\/\/\/\s?(?:@notice\s+)?(.*)$/;
+
+// Reads the error constants of a Move module along with the doc comment right above each of them
+export function parseMoveErrorConstants(source: string): Array<MoveErrorConstant> {
+  const constants: Array<MoveErrorConstant> = [];
+  let doc: Array<string> = [];
+  for (const line of source.split("\n")) {
+    const docMatch = DOC_PATTERN.exec(line);
+    if (docMatch) {
+      doc.push(docMatch[1].trim());
+      continue;
+    }
+    const constantMatch = CONSTANT_PATTERN.exec(line);
+    if (constantMatch) {
+      constants.push({ name: constantMatch[1], code: Number(constantMatch[2]), message: doc.join(" ") });
+    }
+    doc = [];
+  }
+  return constants;
+}
+
+// Renders helpers/errorCodes.ts
+export function renderErrorCodes(constants: Array<MoveErrorConstant>, source: string): string {
+  const members = constants.map(({ name, code }) => `  ${name} = ${code},`);
+  const messages = constants.map(({ name, message }) => `  [AaveError.${name}]: ${JSON.stringify(message)},`);
+  return [
+    `// Generated from ${source} by scripts/generateErrorCodes.ts, do not edit`,
+    "",
+    "export enum AaveError {",
+    ...members,
+    "}",
+    "",
+    "export const AaveErrorMessage: Record<AaveError, string> = {",
+    ...messages,
+    "};",
+    "",
+  ].join("\n");
+}
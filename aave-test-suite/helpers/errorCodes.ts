@@ -0,0 +1,347 @@
+// Generated from aave-core/aave-config/sources/error_config.move by scripts/generateErrorCodes.ts, do not edit
+
+export enum AaveError {
+  ECALLER_NOT_POOL_ADMIN = 1,
+  ECALLER_NOT_EMERGENCY_ADMIN = 2,
+  ECALLER_NOT_POOL_OR_EMERGENCY_ADMIN = 3,
+  ECALLER_NOT_RISK_OR_POOL_ADMIN = 4,
+  ECALLER_NOT_ASSET_LISTING_OR_POOL_ADMIN = 5,
+  EADDRESSES_PROVIDER_NOT_REGISTERED = 7,
+  EINVALID_ADDRESSES_PROVIDER_ID = 8,
+  ENOT_CONTRACT = 9,
+  ECALLER_NOT_POOL_CONFIGURATOR = 10,
+  ECALLER_NOT_ATOKEN = 11,
+  EINVALID_ADDRESSES_PROVIDER = 12,
+  EINVALID_FLASHLOAN_EXECUTOR_RETURN = 13,
+  ERESERVE_ALREADY_ADDED = 14,
+  ENO_MORE_RESERVES_ALLOWED = 15,
+  EEMODE_CATEGORY_RESERVED = 16,
+  EINVALID_EMODE_CATEGORY_ASSIGNMENT = 17,
+  ERESERVE_LIQUIDITY_NOT_ZERO = 18,
+  EFLASHLOAN_PREMIUM_INVALID = 19,
+  EINVALID_RESERVE_PARAMS = 20,
+  EINVALID_EMODE_CATEGORY_PARAMS = 21,
+  ECALLER_MUST_BE_POOL = 23,
+  EINVALID_MINT_AMOUNT = 24,
+  EINVALID_BURN_AMOUNT = 25,
+  EINVALID_AMOUNT = 26,
+  ERESERVE_INACTIVE = 27,
+  ERESERVE_FROZEN = 28,
+  ERESERVE_PAUSED = 29,
+  EBORROWING_NOT_ENABLED = 30,
+  ENOT_ENOUGH_AVAILABLE_USER_BALANCE = 32,
+  EINVALID_INTEREST_RATE_MODE_SELECTED = 33,
+  ECOLLATERAL_BALANCE_IS_ZERO = 34,
+  EHEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD = 35,
+  ECOLLATERAL_CANNOT_COVER_NEW_BORROW = 36,
+  ECOLLATERAL_SAME_AS_BORROWING_CURRENCY = 37,
+  ENO_DEBT_OF_SELECTED_TYPE = 39,
+  ENO_EXPLICIT_AMOUNT_TO_REPAY_ON_BEHALF = 40,
+  ENO_OUTSTANDING_VARIABLE_DEBT = 42,
+  EUNDERLYING_BALANCE_ZERO = 43,
+  EHEALTH_FACTOR_NOT_BELOW_THRESHOLD = 45,
+  ECOLLATERAL_CANNOT_BE_LIQUIDATED = 46,
+  ESPECIFIED_CURRENCY_NOT_BORROWED_BY_USER = 47,
+  EINCONSISTENT_FLASHLOAN_PARAMS = 49,
+  EBORROW_CAP_EXCEEDED = 50,
+  ESUPPLY_CAP_EXCEEDED = 51,
+  EDEBT_CEILING_EXCEEDED = 53,
+  EUNDERLYING_CLAIMABLE_RIGHTS_NOT_ZERO = 54,
+  EVARIABLE_DEBT_SUPPLY_NOT_ZERO = 56,
+  ELTV_VALIDATION_FAILED = 57,
+  EINCONSISTENT_EMODE_CATEGORY = 58,
+  EASSET_NOT_BORROWABLE_IN_ISOLATION = 60,
+  ERESERVE_ALREADY_INITIALIZED = 61,
+  EUSER_IN_ISOLATION_MODE_OR_LTV_ZERO = 62,
+  EINVALID_LTV = 63,
+  EINVALID_LIQ_THRESHOLD = 64,
+  EINVALID_LIQ_BONUS = 65,
+  EINVALID_DECIMALS = 66,
+  EINVALID_RESERVE_FACTOR = 67,
+  EINVALID_BORROW_CAP = 68,
+  EINVALID_SUPPLY_CAP = 69,
+  EINVALID_LIQUIDATION_PROTOCOL_FEE = 70,
+  EINVALID_EMODE_CATEGORY = 71,
+  EINVALID_UNBACKED_MINT_CAP = 72,
+  EINVALID_DEBT_CEILING = 73,
+  EINVALID_RESERVE_INDEX = 74,
+  EACL_ADMIN_CANNOT_BE_ZERO = 75,
+  EINCONSISTENT_PARAMS_LENGTH = 76,
+  EZERO_ADDRESS_NOT_VALID = 77,
+  EINVALID_EXPIRATION = 78,
+  EINVALID_SIGNATURE = 79,
+  EOPERATION_NOT_SUPPORTED = 80,
+  EDEBT_CEILING_NOT_ZERO = 81,
+  EASSET_NOT_LISTED = 82,
+  EINVALID_OPTIMAL_USAGE_RATIO = 83,
+  EUNDERLYING_CANNOT_BE_RESCUED = 85,
+  EADDRESSES_PROVIDER_ALREADY_ADDED = 86,
+  EPOOL_ADDRESSES_DO_NOT_MATCH = 87,
+  ESILOED_BORROWING_VIOLATION = 89,
+  ERESERVE_DEBT_NOT_ZERO = 90,
+  EFLASHLOAN_DISABLED = 91,
+  EINVALID_MAX_RATE = 92,
+  EWITHDRAW_TO_ATOKEN = 93,
+  ESUPPLY_TO_ATOKEN = 94,
+  ESLOPE_2_MUST_BE_GTE_SLOPE_1 = 95,
+  ECALLER_NOT_RISK_OR_POOL_OR_EMERGENCY_ADMIN = 96,
+  ELIQUIDATION_GRACE_SENTINEL_CHECK_FAILED = 97,
+  EINVALID_GRACE_PERIOD = 98,
+  EINVALID_FREEZE_FLAG = 99,
+  EMUST_NOT_LEAVE_DUST = 103,
+  ENOT_ACL_OWNER = 1001,
+  EROLE_MISMATCH = 1002,
+  EROLE_CAN_ONLY_RENOUNCE_SELF = 1003,
+  EROLES_NOT_INITIALIZED = 1004,
+  EOVERFLOW = 1101,
+  EDIVISION_BY_ZERO = 1102,
+  EORACLE_NOT_ADMIN = 1201,
+  EASSET_ALREADY_EXISTS = 1202,
+  ENO_ASSET_FEED = 1203,
+  EORACLE_BENCHMARK_LENGTH_MISMATCH = 1204,
+  ENEGATIVE_ORACLE_PRICE = 1205,
+  EZERO_ORACLE_PRICE = 1206,
+  ECALLER_NOT_POOL_OR_ASSET_LISTING_ADMIN = 1207,
+  EREQUESTED_FEED_IDS_ASSETS_MISMATCH = 1208,
+  EDIFFERENT_CALLER_ON_BEHALF_OF = 1209,
+  EEMPTY_FEED_ID = 1210,
+  ENO_CUSTOM_PRICE = 1211,
+  EZERO_CUSTOM_PRICE = 1212,
+  EREQUESTED_CUSTOM_PRICES_ASSETS_MISMATCH = 1213,
+  EASSET_NOT_REGISTERED_WITH_ORACLE = 1214,
+  ECAP_LOWER_THAN_ACTUAL_PRICE = 1215,
+  EASSET_NO_PRICE_CAP = 1216,
+  ESTALE_ORACLE_PRICE = 1217,
+  EORACLE_PRICE_TIMESTAMP_IN_FUTURE = 1218,
+  EZERO_ORACLE_MAX_ASSET_PRICE_AGE = 1219,
+  EZERO_SNAPSHOT_RATIO = 1220,
+  EINVALID_RATIO_TIMESTAMP = 1221,
+  ESNAPSHOT_OVERFLOW = 1222,
+  EZERO_RATIO_DECIMALS = 1223,
+  EMISMATCH_ADAPTER_TYPE = 1224,
+  EINVALID_GROWTH_RATE = 1225,
+  EINVALID_SNAPSHOT_DELAY = 1226,
+  EINVALID_SNAPSHOT_RATIO = 1227,
+  EINVALID_SNAPSHOT_TIMESTAMP = 1228,
+  ECUSTOM_PRICE_ABOVE_PRICE_CAP = 1229,
+  ENOT_RATE_OWNER = 1301,
+  EDEFAULT_INTEREST_RATE_STRATEGY_NOT_INITIALIZED = 1302,
+  EGHO_INTEREST_RATE_STRATEGY_NOT_INITIALIZED = 1303,
+  ENOT_POOL_OWNER = 1401,
+  EUSER_NOT_LISTED = 1402,
+  ERESERVES_STORAGE_COUNT_MISMATCH = 1403,
+  ESIGNER_AND_ON_BEHALF_OF_NOT_SAME = 1404,
+  EACCOUNT_DOES_NOT_EXIST = 1405,
+  EFLASHLOAN_PAYER_NOT_RECEIVER = 1406,
+  EPRICE_ORACLE_CHECK_FAILED = 1407,
+  ERESERVE_LIST_NOT_INITIALIZED = 1408,
+  ERESERVE_ADDRESSES_LIST_NOT_INITIALIZED = 1409,
+  EINVALID_MAX_APT_FEE = 1410,
+  EINSUFFICIENT_COINS_TO_WRAP = 1415,
+  EINSUFFICIENT_FAS_TO_UNWRAP = 1416,
+  EUNMAPPED_COIN_TO_FA = 1417,
+  ETOKEN_ALREADY_EXISTS = 1501,
+  ETOKEN_NOT_EXIST = 1502,
+  ERESOURCE_NOT_EXIST = 1503,
+  ETOKEN_NAME_ALREADY_EXIST = 1504,
+  ETOKEN_SYMBOL_ALREADY_EXIST = 1505,
+  EMIN_ASSET_DECIMAL_PLACES = 1506,
+  ENOT_REWARDS_ADMIN = 3001,
+  EINCENTIVES_CONTROLLER_MISMATCH = 3002,
+  EUNAUTHORIZED_CLAIMER = 3003,
+  EREWARD_INDEX_OVERFLOW = 3004,
+  EINVALID_REWARD_CONFIG = 3005,
+  EDISTRIBUTION_DOES_NOT_EXIST = 3006,
+  EREWARD_TRANSFER_FAILED = 3007,
+  ENOT_EMISSION_ADMIN = 3008,
+  EREWARDS_CONTROLLER_NOT_DEFINED = 3009,
+  ENOT_ECOSYSTEM_RESERVE_FUNDS_ADMIN = 3010,
+  ENOT_ECOSYSTEM_ADMIN_OR_RECIPIENT = 3011,
+  ESTREAM_NOT_EXIST = 3012,
+  ESTREAM_TO_THE_CONTRACT_ITSELF = 3013,
+  ESTREAM_TO_THE_CALLER = 3014,
+  ESTREAM_DEPOSIT_IS_ZERO = 3015,
+  ESTART_TIME_BEFORE_BLOCK_TIMESTAMP = 3016,
+  ESTOP_TIME_BEFORE_THE_START_TIME = 3017,
+  EDEPOSIT_SMALLER_THAN_TIME_DELTA = 3018,
+  EDEPOSIT_NOT_MULTIPLE_OF_TIME_DELTA = 3019,
+  ESTREAM_WITHDRAW_IS_ZERO = 3020,
+  EWITHDRAW_EXCEEDS_THE_AVAILABLE_BALANCE = 3021,
+  EINVALID_REWARDS_CONTROLLER_ADDRESS = 3022,
+  EREWARD_NOT_EXIST = 3023,
+  ESTORE_FOR_ASSET_NOT_EXIST = 3024,
+  EINVALID_EMISSION_RATE = 3025,
+}
+
+export const AaveErrorMessage: Record<AaveError, string> = {
+  [AaveError.ECALLER_NOT_POOL_ADMIN]: "The caller of the function is not a pool admin",
+  [AaveError.ECALLER_NOT_EMERGENCY_ADMIN]: "The caller of the function is not an emergency admin",
+  [AaveError.ECALLER_NOT_POOL_OR_EMERGENCY_ADMIN]: "The caller of the function is not a pool or emergency admin",
+  [AaveError.ECALLER_NOT_RISK_OR_POOL_ADMIN]: "The caller of the function is not a risk or pool admin",
+  [AaveError.ECALLER_NOT_ASSET_LISTING_OR_POOL_ADMIN]: "The caller of the function is not an asset listing or pool admin",
+  [AaveError.EADDRESSES_PROVIDER_NOT_REGISTERED]: "Pool addresses provider is not registered",
+  [AaveError.EINVALID_ADDRESSES_PROVIDER_ID]: "Invalid id for the pool addresses provider",
+  [AaveError.ENOT_CONTRACT]: "Address is not a contract",
+  [AaveError.ECALLER_NOT_POOL_CONFIGURATOR]: "The caller of the function is not the pool configurator",
+  [AaveError.ECALLER_NOT_ATOKEN]: "The caller of the function is not an AToken",
+  [AaveError.EINVALID_ADDRESSES_PROVIDER]: "The address of the pool addresses provider is invalid",
+  [AaveError.EINVALID_FLASHLOAN_EXECUTOR_RETURN]: "Invalid return value of the flashloan executor function",
+  [AaveError.ERESERVE_ALREADY_ADDED]: "Reserve has already been added to reserve list",
+  [AaveError.ENO_MORE_RESERVES_ALLOWED]: "Maximum amount of reserves in the pool reached",
+  [AaveError.EEMODE_CATEGORY_RESERVED]: "Zero eMode category is reserved for volatile heterogeneous assets",
+  [AaveError.EINVALID_EMODE_CATEGORY_ASSIGNMENT]: "Invalid eMode category assignment to asset",
+  [AaveError.ERESERVE_LIQUIDITY_NOT_ZERO]: "The liquidity of the reserve needs to be 0",
+  [AaveError.EFLASHLOAN_PREMIUM_INVALID]: "Invalid flashloan premium",
+  [AaveError.EINVALID_RESERVE_PARAMS]: "Invalid risk parameters for the reserve",
+  [AaveError.EINVALID_EMODE_CATEGORY_PARAMS]: "Invalid risk parameters for the eMode category",
+  [AaveError.ECALLER_MUST_BE_POOL]: "The caller of this function must be a pool",
+  [AaveError.EINVALID_MINT_AMOUNT]: "Invalid amount to mint",
+  [AaveError.EINVALID_BURN_AMOUNT]: "Invalid amount to burn",
+  [AaveError.EINVALID_AMOUNT]: "Amount must be greater than 0",
+  [AaveError.ERESERVE_INACTIVE]: "Action requires an active reserve",
+  [AaveError.ERESERVE_FROZEN]: "Action cannot be performed because the reserve is frozen",
+  [AaveError.ERESERVE_PAUSED]: "Action cannot be performed because the reserve is paused",
+  [AaveError.EBORROWING_NOT_ENABLED]: "Borrowing is not enabled",
+  [AaveError.ENOT_ENOUGH_AVAILABLE_USER_BALANCE]: "User cannot withdraw more than the available balance",
+  [AaveError.EINVALID_INTEREST_RATE_MODE_SELECTED]: "Invalid interest rate mode selected",
+  [AaveError.ECOLLATERAL_BALANCE_IS_ZERO]: "The collateral balance is 0",
+  [AaveError.EHEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD]: "Health factor is lesser than the liquidation threshold",
+  [AaveError.ECOLLATERAL_CANNOT_COVER_NEW_BORROW]: "There is not enough collateral to cover a new borrow",
+  [AaveError.ECOLLATERAL_SAME_AS_BORROWING_CURRENCY]: "Collateral is (mostly) the same currency that is being borrowed",
+  [AaveError.ENO_DEBT_OF_SELECTED_TYPE]: "For repayment of a specific type of debt, the user needs to have debt that type",
+  [AaveError.ENO_EXPLICIT_AMOUNT_TO_REPAY_ON_BEHALF]: "To repay on behalf of a user an explicit amount to repay is needed",
+  [AaveError.ENO_OUTSTANDING_VARIABLE_DEBT]: "User does not have outstanding variable rate debt on this reserve",
+  [AaveError.EUNDERLYING_BALANCE_ZERO]: "The underlying balance needs to be greater than 0",
+  [AaveError.EHEALTH_FACTOR_NOT_BELOW_THRESHOLD]: "Health factor is not below the threshold",
+  [AaveError.ECOLLATERAL_CANNOT_BE_LIQUIDATED]: "The collateral chosen cannot be liquidated",
+  [AaveError.ESPECIFIED_CURRENCY_NOT_BORROWED_BY_USER]: "User did not borrow the specified currency",
+  [AaveError.EINCONSISTENT_FLASHLOAN_PARAMS]: "Inconsistent flashloan parameters",
+  [AaveError.EBORROW_CAP_EXCEEDED]: "Borrow cap is exceeded",
+  [AaveError.ESUPPLY_CAP_EXCEEDED]: "Supply cap is exceeded",
+  [AaveError.EDEBT_CEILING_EXCEEDED]: "Debt ceiling is exceeded",
+  [AaveError.EUNDERLYING_CLAIMABLE_RIGHTS_NOT_ZERO]: "Claimable rights over underlying not zero (aToken supply or accruedToTreasury)",
+  [AaveError.EVARIABLE_DEBT_SUPPLY_NOT_ZERO]: "Variable debt supply is not zero",
+  [AaveError.ELTV_VALIDATION_FAILED]: "Ltv validation failed",
+  [AaveError.EINCONSISTENT_EMODE_CATEGORY]: "Inconsistent eMode category",
+  [AaveError.EASSET_NOT_BORROWABLE_IN_ISOLATION]: "Asset is not borrowable in isolation mode",
+  [AaveError.ERESERVE_ALREADY_INITIALIZED]: "Reserve has already been initialized",
+  [AaveError.EUSER_IN_ISOLATION_MODE_OR_LTV_ZERO]: "User is in isolation mode or ltv is zero",
+  [AaveError.EINVALID_LTV]: "Invalid ltv parameter for the reserve",
+  [AaveError.EINVALID_LIQ_THRESHOLD]: "Invalid liquidity threshold parameter for the reserve",
+  [AaveError.EINVALID_LIQ_BONUS]: "Invalid liquidity bonus parameter for the reserve",
+  [AaveError.EINVALID_DECIMALS]: "Invalid decimals parameter of the underlying asset of the reserve",
+  [AaveError.EINVALID_RESERVE_FACTOR]: "Invalid reserve factor parameter for the reserve",
+  [AaveError.EINVALID_BORROW_CAP]: "Invalid borrow cap for the reserve",
+  [AaveError.EINVALID_SUPPLY_CAP]: "Invalid supply cap for the reserve",
+  [AaveError.EINVALID_LIQUIDATION_PROTOCOL_FEE]: "Invalid liquidation protocol fee for the reserve",
+  [AaveError.EINVALID_EMODE_CATEGORY]: "Invalid eMode category for the reserve",
+  [AaveError.EINVALID_UNBACKED_MINT_CAP]: "Invalid unbacked mint cap for the reserve",
+  [AaveError.EINVALID_DEBT_CEILING]: "Invalid debt ceiling for the reserve",
+  [AaveError.EINVALID_RESERVE_INDEX]: "Invalid reserve index",
+  [AaveError.EACL_ADMIN_CANNOT_BE_ZERO]: "ACL admin cannot be set to the zero address",
+  [AaveError.EINCONSISTENT_PARAMS_LENGTH]: "Array parameters that should be equal length are not",
+  [AaveError.EZERO_ADDRESS_NOT_VALID]: "Zero address not valid",
+  [AaveError.EINVALID_EXPIRATION]: "Invalid expiration",
+  [AaveError.EINVALID_SIGNATURE]: "Invalid signature",
+  [AaveError.EOPERATION_NOT_SUPPORTED]: "Operation not supported",
+  [AaveError.EDEBT_CEILING_NOT_ZERO]: "Debt ceiling is not zero",
+  [AaveError.EASSET_NOT_LISTED]: "Asset is not listed",
+  [AaveError.EINVALID_OPTIMAL_USAGE_RATIO]: "Invalid optimal usage ratio",
+  [AaveError.EUNDERLYING_CANNOT_BE_RESCUED]: "The underlying asset cannot be rescued",
+  [AaveError.EADDRESSES_PROVIDER_ALREADY_ADDED]: "Reserve has already been added to reserve list",
+  [AaveError.EPOOL_ADDRESSES_DO_NOT_MATCH]: "The token implementation pool address and the pool address provided by the initializing pool do not match",
+  [AaveError.ESILOED_BORROWING_VIOLATION]: "User is trying to borrow multiple assets including a siloed one",
+  [AaveError.ERESERVE_DEBT_NOT_ZERO]: "the total debt of the reserve needs to be 0",
+  [AaveError.EFLASHLOAN_DISABLED]: "FlashLoaning for this asset is disabled",
+  [AaveError.EINVALID_MAX_RATE]: "The expect maximum borrow rate is invalid",
+  [AaveError.EWITHDRAW_TO_ATOKEN]: "Withdrawing to the aToken is not allowed",
+  [AaveError.ESUPPLY_TO_ATOKEN]: "Supplying to the aToken is not allowed",
+  [AaveError.ESLOPE_2_MUST_BE_GTE_SLOPE_1]: "Variable interest rate slope 2 can not be lower than slope 1",
+  [AaveError.ECALLER_NOT_RISK_OR_POOL_OR_EMERGENCY_ADMIN]: "The caller of the function is neither a risk nor pool admin nor emergency admin",
+  [AaveError.ELIQUIDATION_GRACE_SENTINEL_CHECK_FAILED]: "Liquidation grace sentinel validation failed",
+  [AaveError.EINVALID_GRACE_PERIOD]: "Grace period above a valid range",
+  [AaveError.EINVALID_FREEZE_FLAG]: "Freeze flag is invalid",
+  [AaveError.EMUST_NOT_LEAVE_DUST]: "Below a certain threshold liquidators need to take the full position",
+  [AaveError.ENOT_ACL_OWNER]: "Account is not the acl's owner",
+  [AaveError.EROLE_MISMATCH]: "Account is missing role",
+  [AaveError.EROLE_CAN_ONLY_RENOUNCE_SELF]: "Can only renounce roles for self",
+  [AaveError.EROLES_NOT_INITIALIZED]: "Roles not initialized",
+  [AaveError.EOVERFLOW]: "Calculation results in overflow",
+  [AaveError.EDIVISION_BY_ZERO]: "Cannot divide by zero",
+  [AaveError.EORACLE_NOT_ADMIN]: "Caller must be only oracle admin",
+  [AaveError.EASSET_ALREADY_EXISTS]: "Asset is already registered with feed",
+  [AaveError.ENO_ASSET_FEED]: "No asset feed for the given asset",
+  [AaveError.EORACLE_BENCHMARK_LENGTH_MISMATCH]: "Returned batch of prices equals the requested assets",
+  [AaveError.ENEGATIVE_ORACLE_PRICE]: "Returned oracle price is negative",
+  [AaveError.EZERO_ORACLE_PRICE]: "Returned oracle price is zero",
+  [AaveError.ECALLER_NOT_POOL_OR_ASSET_LISTING_ADMIN]: "The caller of the function is not a pool or asset listing admin",
+  [AaveError.EREQUESTED_FEED_IDS_ASSETS_MISMATCH]: "Requested assets and feed ids do not match",
+  [AaveError.EDIFFERENT_CALLER_ON_BEHALF_OF]: "On behalf of and caller are different for minting",
+  [AaveError.EEMPTY_FEED_ID]: "Empty oracle feed_id",
+  [AaveError.ENO_CUSTOM_PRICE]: "No custom price for the given asset",
+  [AaveError.EZERO_CUSTOM_PRICE]: "Zero custom price for the given asset",
+  [AaveError.EREQUESTED_CUSTOM_PRICES_ASSETS_MISMATCH]: "Requested assets and custom prices do not match",
+  [AaveError.EASSET_NOT_REGISTERED_WITH_ORACLE]: "The asset is not registered with the oracle",
+  [AaveError.ECAP_LOWER_THAN_ACTUAL_PRICE]: "The asset cap is lower than the actual price of the asset",
+  [AaveError.EASSET_NO_PRICE_CAP]: "The asset does not have a price cap",
+  [AaveError.ESTALE_ORACLE_PRICE]: "The oracle price is stale",
+  [AaveError.EORACLE_PRICE_TIMESTAMP_IN_FUTURE]: "The oracle price timestamp is in the future",
+  [AaveError.EZERO_ORACLE_MAX_ASSET_PRICE_AGE]: "The max asset price age of the asset is zero",
+  [AaveError.EZERO_SNAPSHOT_RATIO]: "The snapshot ratio is zero",
+  [AaveError.EINVALID_RATIO_TIMESTAMP]: "The timestamp ratio is invalid",
+  [AaveError.ESNAPSHOT_OVERFLOW]: "The snapshot may overflow very soon",
+  [AaveError.EZERO_RATIO_DECIMALS]: "The ratio decimals is zero",
+  [AaveError.EMISMATCH_ADAPTER_TYPE]: "The adapter type that is being updated is not the one stored",
+  [AaveError.EINVALID_GROWTH_RATE]: "The growth rate is invalid",
+  [AaveError.EINVALID_SNAPSHOT_DELAY]: "The snapshot delay is invalid",
+  [AaveError.EINVALID_SNAPSHOT_RATIO]: "The snapshot ratio is invalid",
+  [AaveError.EINVALID_SNAPSHOT_TIMESTAMP]: "The snapshot timestamp is invalid",
+  [AaveError.ECUSTOM_PRICE_ABOVE_PRICE_CAP]: "The assigned custom price is above the price cap",
+  [AaveError.ENOT_RATE_OWNER]: "Account is not the rate's owner",
+  [AaveError.EDEFAULT_INTEREST_RATE_STRATEGY_NOT_INITIALIZED]: "Default interest rate strategy not initialized",
+  [AaveError.EGHO_INTEREST_RATE_STRATEGY_NOT_INITIALIZED]: "GHO interest rate strategy not initialized",
+  [AaveError.ENOT_POOL_OWNER]: "Account is not the pool's owner",
+  [AaveError.EUSER_NOT_LISTED]: "User is not listed",
+  [AaveError.ERESERVES_STORAGE_COUNT_MISMATCH]: "Mismatch of reserves count in storage",
+  [AaveError.ESIGNER_AND_ON_BEHALF_OF_NOT_SAME]: "The person who signed must be consistent with on_behalf_of",
+  [AaveError.EACCOUNT_DOES_NOT_EXIST]: "Account does not exist",
+  [AaveError.EFLASHLOAN_PAYER_NOT_RECEIVER]: "Flashloan payer is different from the flashloan receiver",
+  [AaveError.EPRICE_ORACLE_CHECK_FAILED]: "Price oracle validation failed",
+  [AaveError.ERESERVE_LIST_NOT_INITIALIZED]: "Reserve list not initialized",
+  [AaveError.ERESERVE_ADDRESSES_LIST_NOT_INITIALIZED]: "Reserve addresses list not initialized",
+  [AaveError.EINVALID_MAX_APT_FEE]: "The expect maximum apt fee is invalid",
+  [AaveError.EINSUFFICIENT_COINS_TO_WRAP]: "Coin migrations User has insufficient coins to wrap",
+  [AaveError.EINSUFFICIENT_FAS_TO_UNWRAP]: "User has insufficient fungible assets to unwrap",
+  [AaveError.EUNMAPPED_COIN_TO_FA]: "The coin has not been mapped to a fungible asset by Aptos",
+  [AaveError.ETOKEN_ALREADY_EXISTS]: "Token already exists",
+  [AaveError.ETOKEN_NOT_EXIST]: "Token not exist",
+  [AaveError.ERESOURCE_NOT_EXIST]: "Resource not exist",
+  [AaveError.ETOKEN_NAME_ALREADY_EXIST]: "Token name already exist",
+  [AaveError.ETOKEN_SYMBOL_ALREADY_EXIST]: "Token symbol already exist",
+  [AaveError.EMIN_ASSET_DECIMAL_PLACES]: "Asset minimum decimal places requirement is violated",
+  [AaveError.ENOT_REWARDS_ADMIN]: "Caller is not rewards admin",
+  [AaveError.EINCENTIVES_CONTROLLER_MISMATCH]: "Incentives controller mismatch",
+  [AaveError.EUNAUTHORIZED_CLAIMER]: "Claimer is not authorized to make the reward claim",
+  [AaveError.EREWARD_INDEX_OVERFLOW]: "Reward index overflow",
+  [AaveError.EINVALID_REWARD_CONFIG]: "Invalid config data used in rewards controller / distributor",
+  [AaveError.EDISTRIBUTION_DOES_NOT_EXIST]: "Distribution does not exist",
+  [AaveError.EREWARD_TRANSFER_FAILED]: "Rewards transfer failed",
+  [AaveError.ENOT_EMISSION_ADMIN]: "Caller is not emission admin",
+  [AaveError.EREWARDS_CONTROLLER_NOT_DEFINED]: "Rewards controller is not defined",
+  [AaveError.ENOT_ECOSYSTEM_RESERVE_FUNDS_ADMIN]: "Caller does not have the ecosystem reserve funds admin role",
+  [AaveError.ENOT_ECOSYSTEM_ADMIN_OR_RECIPIENT]: "Caller does not have the ecosystem admin or recipient role",
+  [AaveError.ESTREAM_NOT_EXIST]: "Stream does not exist",
+  [AaveError.ESTREAM_TO_THE_CONTRACT_ITSELF]: "Creating a stream to the contract itself",
+  [AaveError.ESTREAM_TO_THE_CALLER]: "Creating a stream to the caller",
+  [AaveError.ESTREAM_DEPOSIT_IS_ZERO]: "Stream deposit is zero",
+  [AaveError.ESTART_TIME_BEFORE_BLOCK_TIMESTAMP]: "Stream start time is before block timestamp",
+  [AaveError.ESTOP_TIME_BEFORE_THE_START_TIME]: "Stream stop time is before start time",
+  [AaveError.EDEPOSIT_SMALLER_THAN_TIME_DELTA]: "Stream deposit is smaller than time delta",
+  [AaveError.EDEPOSIT_NOT_MULTIPLE_OF_TIME_DELTA]: "Stream deposit is not a multiple of time delta",
+  [AaveError.ESTREAM_WITHDRAW_IS_ZERO]: "Stream withdraw amount is zero",
+  [AaveError.EWITHDRAW_EXCEEDS_THE_AVAILABLE_BALANCE]: "Stream withdraw amount exceeds available balance",
+  [AaveError.EINVALID_REWARDS_CONTROLLER_ADDRESS]: "Rewards controller address is not valid",
+  [AaveError.EREWARD_NOT_EXIST]: "Reward does not exist",
+  [AaveError.ESTORE_FOR_ASSET_NOT_EXIST]: "Secondrary fungible store does not exist for the asset",
+  [AaveError.EINVALID_EMISSION_RATE]: "The expect maximum emission rate is invalid",
+};
@@ -0,0 +1,377 @@
+import { AccountAddress, CommittedTransactionResponse, UserTransactionResponse } from "@aptos-labs/ts-sdk";
+
+type MoveFieldType = "address" | "bool" | "string" | "u8" | "u16" | "u64" | "u128" | "u256";
+
+// Event structs of the aave_pool package, module and fields as declared in the Move sources
+export const POOL_EVENTS = {
+  // supply_logic
+  Supply: {
+    module: "supply_logic",
+    fields: { reserve: "address", user: "address", on_behalf_of: "address", amount: "u256", referral_code: "u16" },
+  },
+  Withdraw: { module: "supply_logic", fields: { reserve: "address", user: "address", to: "address", amount: "u256" } },
+  // borrow_logic
+  Borrow: {
+    module: "borrow_logic",
+    fields: {
+      reserve: "address",
+      user: "address",
+      on_behalf_of: "address",
+      amount: "u256",
+      interest_rate_mode: "u8",
+      borrow_rate: "u256",
+      referral_code: "u16",
+    },
+  },
+  Repay: {
+    module: "borrow_logic",
+    fields: { reserve: "address", user: "address", repayer: "address", amount: "u256", use_a_tokens: "bool" },
+  },
+  // liquidation_logic
+  LiquidationCall: {
+    module: "liquidation_logic",
+    fields: {
+      collateral_asset: "address",
+      debt_asset: "address",
+      user: "address",
+      debt_to_cover: "u256",
+      liquidated_collateral_amount: "u256",
+      liquidator: "address",
+      receive_a_token: "bool",
+    },
+  },
+  DeficitCreated: {
+    module: "liquidation_logic",
+    fields: { user: "address", debt_asset: "address", amount_created: "u256" },
+  },
+  // emode_logic and flashloan_logic
+  UserEModeSet: { module: "emode_logic", fields: { user: "address", category_id: "u8" } },
+  FlashLoan: {
+    module: "flashloan_logic",
+    fields: {
+      target: "address",
+      initiator: "address",
+      asset: "address",
+      amount: "u256",
+      interest_rate_mode: "u8",
+      premium: "u256",
+      referral_code: "u16",
+    },
+  },
+  // pool_logic and pool_token_logic
+  ReserveDataUpdated: {
+    module: "pool_logic",
+    fields: {
+      reserve: "address",
+      liquidity_rate: "u256",
+      variable_borrow_rate: "u256",
+      liquidity_index: "u256",
+      variable_borrow_index: "u256",
+    },
+  },
+  ReserveInitialized: {
+    module: "pool_token_logic",
+    fields: { asset: "address", a_token: "address", variable_debt_token: "address" },
+  },
+  MintedToTreasury: { module: "pool_token_logic", fields: { reserve: "address", amount_minted: "u256" } },
+  // events
+  IsolationModeTotalDebtUpdated: { module: "events", fields: { asset: "address", total_debt: "u256" } },
+  ReserveUsedAsCollateralEnabled: { module: "events", fields: { reserve: "address", user: "address" } },
+  ReserveUsedAsCollateralDisabled: { module: "events", fields: { reserve: "address", user: "address" } },
+  BalanceTransfer: {
+    module: "events",
+    fields: { from: "address", to: "address", value: "u256", index: "u256", a_token_address: "address" },
+  },
+  // token_base and a_token_factory
+  Transfer: { module: "token_base", fields: { from: "address", to: "address", value: "u256", token: "address" } },
+  Mint: {
+    module: "token_base",
+    fields: {
+      caller: "address",
+      on_behalf_of: "address",
+      value: "u256",
+      balance_increase: "u256",
+      index: "u256",
+      token: "address",
+    },
+  },
+  Burn: {
+    module: "token_base",
+    fields: {
+      from: "address",
+      target: "address",
+      value: "u256",
+      balance_increase: "u256",
+      index: "u256",
+      token: "address",
+    },
+  },
+  TokenRescued: {
+    module: "a_token_factory",
+    fields: { rescuer: "address", from: "address", to: "address", amount: "u256", a_token_address: "address" },
+  },
+  // pool_configurator
+  ReserveInterestRateDataChanged: {
+    module: "pool_configurator",
+    fields: {
+      asset: "address",
+      optimal_usage_ratio: "u256",
+      base_variable_borrow_rate: "u256",
+      variable_rate_slope1: "u256",
+      variable_rate_slope2: "u256",
+    },
+  },
+  ReserveBorrowing: { module: "pool_configurator", fields: { asset: "address", enabled: "bool" } },
+  ReserveFlashLoaning: { module: "pool_configurator", fields: { asset: "address", enabled: "bool" } },
+  CollateralConfigurationChanged: {
+    module: "pool_configurator",
+    fields: { asset: "address", ltv: "u256", liquidation_threshold: "u256", liquidation_bonus: "u256" },
+  },
+  PendingLtvChanged: { module: "pool_configurator", fields: { asset: "address", pending_ltv_set: "u256" } },
+  ReserveActive: { module: "pool_configurator", fields: { asset: "address", active: "bool" } },
+  ReserveFrozen: { module: "pool_configurator", fields: { asset: "address", frozen: "bool" } },
+  ReservePaused: { module: "pool_configurator", fields: { asset: "address", paused: "bool" } },
+  ReserveDropped: { module: "pool_configurator", fields: { asset: "address" } },
+  ReserveFactorChanged: {
+    module: "pool_configurator",
+    fields: { asset: "address", old_reserve_factor: "u256", new_reserve_factor: "u256" },
+  },
+  BorrowCapChanged: {
+    module: "pool_configurator",
+    fields: { asset: "address", old_borrow_cap: "u256", new_borrow_cap: "u256" },
+  },
+  SupplyCapChanged: {
+    module: "pool_configurator",
+    fields: { asset: "address", old_supply_cap: "u256", new_supply_cap: "u256" },
+  },
+  LiquidationProtocolFeeChanged: {
+    module: "pool_configurator",
+    fields: { asset: "address", old_fee: "u256", new_fee: "u256" },
+  },
+  LiquidationGracePeriodChanged: {
+    module: "pool_configurator",
+    fields: { asset: "address", grace_period_until: "u64" },
+  },
+  LiquidationGracePeriodDisabled: { module: "pool_configurator", fields: { asset: "address" } },
+  EModeAssetCategoryChanged: {
+    module: "pool_configurator",
+    fields: { asset: "address", old_category_id: "u8", new_category_id: "u8" },
+  },
+  EModeCategoryAdded: {
+    module: "pool_configurator",
+    fields: { category_id: "u8", ltv: "u16", liquidation_threshold: "u16", liquidation_bonus: "u16", label: "string" },
+  },
+  DebtCeilingChanged: {
+    module: "pool_configurator",
+    fields: { asset: "address", old_debt_ceiling: "u256", new_debt_ceiling: "u256" },
+  },
+  SiloedBorrowingChanged: {
+    module: "pool_configurator",
+    fields: { asset: "address", old_state: "bool", new_state: "bool" },
+  },
+  FlashloanPremiumTotalUpdated: {
+    module: "pool_configurator",
+    fields: { old_flashloan_premium_total: "u128", new_flashloan_premium_total: "u128" },
+  },
+  FlashloanPremiumToProtocolUpdated: {
+    module: "pool_configurator",
+    fields: { old_flashloan_premium_to_protocol: "u128", new_flashloan_premium_to_protocol: "u128" },
+  },
+  BorrowableInIsolationChanged: { module: "pool_configurator", fields: { asset: "address", borrowable: "bool" } },
+  // default_reserve_interest_rate_strategy
+  RateDataUpdate: {
+    module: "default_reserve_interest_rate_strategy",
+    fields: {
+      reserve: "address",
+      optimal_usage_ratio: "u256",
+      base_variable_borrow_rate: "u256",
+      variable_rate_slope1: "u256",
+      variable_rate_slope2: "u256",
+    },
+  },
+  // rewards_controller and rewards_distributor
+  AssetConfigUpdated: {
+    module: "rewards_controller",
+    fields: {
+      asset: "address",
+      reward: "address",
+      old_emission: "u256",
+      new_emission: "u256",
+      old_distribution_end: "u256",
+      new_distribution_end: "u256",
+      asset_index: "u256",
+      rewards_controller_address: "address",
+    },
+  },
+  Accrued: {
+    module: "rewards_controller",
+    fields: {
+      asset: "address",
+      reward: "address",
+      user: "address",
+      asset_index: "u256",
+      user_index: "u256",
+      rewards_accrued: "u256",
+      rewards_controller_address: "address",
+    },
+  },
+  ClaimerSet: {
+    module: "rewards_controller",
+    fields: { user: "address", claimer: "address", rewards_controller_address: "address" },
+  },
+  RewardsClaimed: {
+    module: "rewards_distributor",
+    fields: {
+      user: "address",
+      reward: "address",
+      to: "address",
+      claimer: "address",
+      amount: "u256",
+      rewards_controller_address: "address",
+    },
+  },
+  // pool_fee_manager
+  FeeChanged: {
+    module: "pool_fee_manager",
+    fields: { caller: "address", asset: "address", old_fee: "u64", new_fee: "u64" },
+  },
+  FeeCollected: {
+    module: "pool_fee_manager",
+    fields: { from: "address", recipient: "address", asset: "address", amount: "u128" },
+  },
+  FeeWithdrawn: { module: "pool_fee_manager", fields: { caller: "address", recipient: "address", amount: "u128" } },
+  // coin_migrator
+  CoinToFaConvertion: {
+    module: "coin_migrator",
+    fields: {
+      user: "address",
+      amount: "u64",
+      name: "string",
+      symbol: "string",
+      decimals: "u8",
+      coin_address: "address",
+      fa_address: "address",
+    },
+  },
+} as const satisfies Record<string, { module: string; fields: Record<string, MoveFieldType> }>;
+
+export type PoolEventName = keyof typeof POOL_EVENTS;
+
+type CamelCase<S extends string> = S extends `${infer Head}_${infer Tail}`
+  ? `${Head}${Capitalize<CamelCase<Tail>>}`
+  : S;
+
+type DecodedField<T> = T extends "address" | "string"
+  ? string
+  : T extends "bool"
+    ? boolean
+    : T extends "u8" | "u16"
+      ? number
+      : bigint;
+
+// e.g. PoolEvent<"Borrow"> is { reserve: string; user: string; onBehalfOf: string; amount: bigint; ... }
+export type PoolEvent<N extends PoolEventName> = {
+  -readonly [F in keyof (typeof POOL_EVENTS)[N]["fields"] as CamelCase<F & string>]: DecodedField<
+    (typeof POOL_EVENTS)[N]["fields"][F]
+  >;
+};
+
+export interface DecodedEvent<N extends PoolEventName = PoolEventName> {
+  name: N;
+  // fully qualified Move type, e.g. 0x...::borrow_logic::Borrow
+  type: string;
+  data: PoolEvent<N>;
+}
+
+const toCamelCase = (field: string): string => field.replace(/_(\w)/g, (_, char: string) => char.toUpperCase());
+
+// addresses are compared in their long form, event data may carry them without leading zeros
+const normalizeAddress = (address: unknown): string =>
+  AccountAddress.from(String(address), { maxMissingChars: 63 }).toStringLong();
+
+function decodeField(type: MoveFieldType, value: unknown): unknown {
+  switch (type) {
+    case "address":
+      return normalizeAddress(value);
+    case "bool":
+    case "string":
+      return value;
+    case "u8":
+    case "u16":
+      return Number(value);
+    default:
+      return BigInt(value as string);
+  }
+}
+
+// Maps a Move event type to the name of the pool event it is, the package address is not checked
+function poolEventName(type: string): PoolEventName | undefined {
+  const [, module, struct] = type.split("::");
+  const name = struct as PoolEventName;
+  return POOL_EVENTS[name]?.module === module ? name : undefined;
+}
+
+// Decodes the pool events emitted by a transaction, in emission order, other events are skipped
+export function getEvents(tx: CommittedTransactionResponse): Array<DecodedEvent>;
+export function getEvents<N extends PoolEventName>(tx: CommittedTransactionResponse, name: N): Array<DecodedEvent<N>>;
+export function getEvents(tx: CommittedTransactionResponse, name?: PoolEventName): Array<DecodedEvent> {
+  const events = (tx as UserTransactionResponse).events ?? [];
+  const decoded: Array<DecodedEvent> = [];
+  for (const event of events) {
+    const eventName = poolEventName(event.type);
+    if (eventName === undefined || (name !== undefined && eventName !== name)) {
+      continue;
+    }
+    const { fields } = POOL_EVENTS[eventName];
+    const data = Object.fromEntries(
+      Object.entries(fields).map(([field, type]) => [toCamelCase(field), decodeField(type, event.data[field])]),
+    );
+    decoded.push({ name: eventName, type: event.type, data: data as PoolEvent<typeof eventName> });
+  }
+  return decoded;
+}
+
+export type ExpectedEventData<N extends PoolEventName> = {
+  [F in keyof PoolEvent<N>]?: PoolEvent<N>[F] extends bigint
+    ? bigint | number | string
+    : PoolEvent<N>[F] extends string
+      ? string | AccountAddress
+      : PoolEvent<N>[F];
+};
+
+const matchesField = (actual: unknown, expected: unknown): boolean => {
+  if (typeof actual === "bigint") {
+    return actual === BigInt(expected as string);
+  }
+  if (typeof actual === "string" && (expected instanceof AccountAddress || String(expected).startsWith("0x"))) {
+    return actual === normalizeAddress(expected);
+  }
+  return actual === expected;
+};
+
+const describeData = (data: object): string =>
+  JSON.stringify(data, (_, value) => (typeof value === "bigint" ? value.toString() : value));
+
+// Fails unless tx emitted a name event whose data has every expected field, returns the first such event
+export function expectEvent<N extends PoolEventName>(
+  tx: CommittedTransactionResponse,
+  name: N,
+  expected: ExpectedEventData<N> = {},
+): PoolEvent<N> {
+  const events = getEvents(tx, name);
+  const match = events.find(({ data }) =>
+    Object.entries(expected).every(([field, value]) => matchesField(data[field], value)),
+  );
+  if (!match) {
+    const emitted = events.length > 0 ? events.map(({ data }) => `\n  ${describeData(data)}`).join("") : " none";
+    throw new Error(`Expected a ${name} event with ${describeData(expected)} in tx ${tx.hash}, emitted:${emitted}`);
+  }
+  return match.data;
+}
+
+export function expectNoEvent(tx: CommittedTransactionResponse, name: PoolEventName) {
+  const events = getEvents(tx, name);
+  if (events.length > 0) {
+    throw new Error(`Expected no ${name} event in tx ${tx.hash}, got ${events.length}`);
+  }
+}
@@ -0,0 +1,56 @@
+import { AccountAddress, CommittedTransactionResponse, Ed25519Account, MoveFunctionId } from "@aptos-labs/ts-sdk";
+import { AAVE_PROFILES, AptosContractWrapperBaseClass, AptosProvider } from "@aave/aave-v3-aptos-ts-sdk";
+
+// Reads and configures the APT fees of pool_fee_manager.move. The fee methods of the SDK pool client still target the
+// old fee_manager module, and the fee is set per reserve through pool_configurator. All amounts are in octas.
+export class FeeManagerClient extends AptosContractWrapperBaseClass {
+  private readonly pool: string;
+
+  constructor(aptosProvider: AptosProvider, signer?: Ed25519Account) {
+    super(aptosProvider, signer);
+    this.pool = aptosProvider.getProfileAddressByName(AAVE_PROFILES.AAVE_POOL).toString();
+  }
+
+  private functionId(module: "pool_fee_manager" | "pool_configurator", name: string): MoveFunctionId {
+    return `${this.pool}::${module}::${name}` as MoveFunctionId;
+  }
+
+  // 0 for reserves that never had a fee set
+  async getAptFee(asset: AccountAddress): Promise<bigint> {
+    const [fee] = await this.callViewMethod<[string]>(this.functionId("pool_fee_manager", "get_apt_fee"), [asset]);
+    return BigInt(fee);
+  }
+
+  // The resource account the fees are paid to
+  async getFeeCollectorAddress(): Promise<AccountAddress> {
+    const [collector] = await this.callViewMethod<[string]>(
+      this.functionId("pool_fee_manager", "get_fee_collector_address"),
+      [],
+    );
+    return AccountAddress.fromString(collector);
+  }
+
+  async getFeeCollectorAptBalance(): Promise<bigint> {
+    const [balance] = await this.callViewMethod<[string]>(
+      this.functionId("pool_fee_manager", "get_fee_collector_apt_balance"),
+      [],
+    );
+    return BigInt(balance);
+  }
+
+  // Every fee collected so far, withdrawals do not lower it
+  async getTotalFees(): Promise<bigint> {
+    const [totalFees] = await this.callViewMethod<[string]>(this.functionId("pool_fee_manager", "get_total_fees"), []);
+    return BigInt(totalFees);
+  }
+
+  // needs a risk or pool admin as signer
+  async setAptFee(asset: AccountAddress, fee: bigint): Promise<CommittedTransactionResponse> {
+    return this.sendTxAndAwaitResponse(this.functionId("pool_configurator", "set_apt_fee"), [asset, fee]);
+  }
+
+  // needs a pool admin as signer
+  async withdrawAptFee(to: AccountAddress, amount: bigint): Promise<CommittedTransactionResponse> {
+    return this.sendTxAndAwaitResponse(this.functionId("pool_fee_manager", "withdraw_apt_fee"), [to, amount]);
+  }
+}
@@ -0,0 +1,63 @@
+import { AccountAddress, CommittedTransactionResponse, Ed25519Account, MoveFunctionId } from "@aptos-labs/ts-sdk";
+import { AAVE_PROFILES, AptosContractWrapperBaseClass, AptosProvider, consts } from "@aave/aave-v3-aptos-ts-sdk";
+
+// Interest rate modes of a multi-asset flash loan, NONE repays the asset and VARIABLE opens a debt instead
+export const FLASH_LOAN_MODES = {
+  NONE: 0,
+  VARIABLE: consts.INTEREST_RATE_MODES.VARIABLE,
+} as const;
+
+// Takes flash loans through mock_flashloan_receiver, published next to the mock underlyings by
+// `make publish-mock-flashloan-receiver`. The signer both receives the funds and pays them back.
+export class FlashLoanReceiverClient extends AptosContractWrapperBaseClass {
+  private readonly receiverModule: string;
+
+  constructor(aptosProvider: AptosProvider, signer?: Ed25519Account) {
+    super(aptosProvider, signer);
+    const address = aptosProvider.getProfileAddressByName(AAVE_PROFILES.AAVE_MOCK_UNDERLYINGS);
+    this.receiverModule = `${address.toString()}::mock_flashloan_receiver`;
+  }
+
+  private functionId(name: string): MoveFunctionId {
+    return `${this.receiverModule}::${name}` as MoveFunctionId;
+  }
+
+  // The signer must hold the premium, amount plus premium is pulled back in the same transaction
+  async flashLoanSimple(
+    asset: AccountAddress,
+    amount: bigint,
+    referralCode: number = consts.AAVE_REFERRAL,
+  ): Promise<CommittedTransactionResponse> {
+    return this.sendTxAndAwaitResponse(this.functionId("flash_loan_simple"), [asset, amount, referralCode]);
+  }
+
+  // Authorized flash borrowers pay no premium here, assets with FLASH_LOAN_MODES.VARIABLE become a debt of the signer
+  async flashLoan(
+    assets: Array<AccountAddress>,
+    amounts: Array<bigint>,
+    interestRateModes: Array<number>,
+    referralCode: number = consts.AAVE_REFERRAL,
+  ): Promise<CommittedTransactionResponse> {
+    return this.sendTxAndAwaitResponse(this.functionId("flash_loan"), [
+      assets,
+      amounts,
+      interestRateModes,
+      referralCode,
+    ]);
+  }
+
+  // Sends the funds to receiver and pays them back as the signer, which only the receiver itself may do
+  async flashLoanSimpleToReceiver(
+    receiver: AccountAddress,
+    asset: AccountAddress,
+    amount: bigint,
+    referralCode: number = consts.AAVE_REFERRAL,
+  ): Promise<CommittedTransactionResponse> {
+    return this.sendTxAndAwaitResponse(this.functionId("flash_loan_simple_to_receiver"), [
+      receiver,
+      asset,
+      amount,
+      referralCode,
+    ]);
+  }
+}
@@ -0,0 +1,7 @@
+import { gasReportEnabled, startGasSession } from "./gasReporter";
+
+export default function gasReportSetup() {
+  if (gasReportEnabled()) {
+    startGasSession();
+  }
+}
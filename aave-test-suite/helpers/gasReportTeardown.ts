@@ -0,0 +1,41 @@
+import fs from "fs";
+import path from "path";
+import {
+  compareGasBaseline,
+  formatGasTable,
+  GAS_REPORT_DIR,
+  GAS_REPORT_PATH,
+  gasReportEnabled,
+  GasSummary,
+  readGasRecords,
+  summarizeGas,
+} from "./gasReporter";
+
+export default function gasReportTeardown() {
+  if (!gasReportEnabled()) {
+    return;
+  }
+  const summary = summarizeGas(readGasRecords());
+  if (summary.length === 0) {
+    return;
+  }
+  console.log(`\nGas usage per entry function:\n${formatGasTable(summary)}`);
+  fs.mkdirSync(GAS_REPORT_DIR, { recursive: true });
+  fs.writeFileSync(GAS_REPORT_PATH, JSON.stringify(summary, null, 2), { encoding: "utf8" });
+  console.log(`Gas report written to ${GAS_REPORT_PATH}`);
+
+  if (process.env.GAS_BASELINE) {
+    const baseline = JSON.parse(
+      fs.readFileSync(path.resolve(process.env.GAS_BASELINE), { encoding: "utf8" }),
+    ) as Array<GasSummary>;
+    const threshold = process.env.GAS_THRESHOLD !== undefined ? Number(process.env.GAS_THRESHOLD) : undefined;
+    const regressions = compareGasBaseline(summary, baseline, threshold);
+    if (regressions.length > 0) {
+      throw new Error(
+        `Gas regressions against ${process.env.GAS_BASELINE}:\n${regressions
+          .map(({ function: name, baselineAvg, avg, increase }) => `  ${name}: ${baselineAvg} -> ${avg} (+${increase}%)`)
+          .join("\n")}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import fs from "fs";
+import path from "path";
+import { CommittedTransactionResponse, EntryFunctionPayloadResponse, UserTransactionResponse } from "@aptos-labs/ts-sdk";
+
+// Gas reporting is opt-in with REPORT_GAS=true, optionally against a GAS_BASELINE report
+export const gasReportEnabled = (): boolean => process.env.REPORT_GAS === "true";
+
+export const GAS_REPORT_DIR = path.resolve(__dirname, "../gas-reports");
+// one file of raw records per spec file, merged once the whole run is over
+const GAS_RECORDS_DIR = path.join(GAS_REPORT_DIR, "records");
+export const GAS_REPORT_PATH = path.join(GAS_REPORT_DIR, "gas-report.json");
+// GAS_REPORT_SESSION of the runs the records belong to
+const GAS_SESSION_PATH = path.join(GAS_RECORDS_DIR, "session");
+const DEFAULT_GAS_REGRESSION_THRESHOLD = 5;
+
+export interface GasRecord {
+  // entry function without the package address, e.g. supply_logic::supply
+  function: string;
+  gasUsed: number;
+  gasUnitPrice: number;
+}
+
+export interface GasSummary {
+  function: string;
+  calls: number;
+  min: number;
+  avg: number;
+  max: number;
+  avgGasUnitPrice: number;
+}
+
+export interface GasRegression {
+  function: string;
+  baselineAvg: number;
+  avg: number;
+  // increase over the baseline average, in percent
+  increase: number;
+}
+
+export function toGasRecord(tx: CommittedTransactionResponse): GasRecord | undefined {
+  const { payload, gas_used, gas_unit_price } = tx as UserTransactionResponse;
+  if (payload?.type !== "entry_function_payload") {
+    return undefined;
+  }
+  const [, module, name] = (payload as EntryFunctionPayloadResponse).function.split("::");
+  return { function: `${module}::${name}`, gasUsed: Number(gas_used), gasUnitPrice: Number(gas_unit_price) };
+}
+
+export function summarizeGas(records: Array<GasRecord>): Array<GasSummary> {
+  const byFunction = new Map<string, Array<GasRecord>>();
+  for (const record of records) {
+    byFunction.set(record.function, [...(byFunction.get(record.function) ?? []), record]);
+  }
+  return [...byFunction.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, calls]) => {
+      const gasUsed = calls.map(({ gasUsed }) => gasUsed);
+      const sum = (values: Array<number>) => values.reduce((total, value) => total + value, 0);
+      return {
+        function: name,
+        calls: calls.length,
+        min: Math.min(...gasUsed),
+        avg: Math.round(sum(gasUsed) / calls.length),
+        max: Math.max(...gasUsed),
+        avgGasUnitPrice: Math.round(sum(calls.map(({ gasUnitPrice }) => gasUnitPrice)) / calls.length),
+      };
+    });
+}
+
+// Functions whose average gas grew by more than threshold percent, functions missing from either side are ignored
+export function compareGasBaseline(
+  summary: Array<GasSummary>,
+  baseline: Array<GasSummary>,
+  threshold: number = DEFAULT_GAS_REGRESSION_THRESHOLD,
+): Array<GasRegression> {
+  const baselineByFunction = new Map(baseline.map((entry) => [entry.function, entry]));
+  return summary
+    .filter((entry) => baselineByFunction.has(entry.function))
+    .map((entry) => {
+      const baselineAvg = baselineByFunction.get(entry.function).avg;
+      return {
+        function: entry.function,
+        baselineAvg,
+        avg: entry.avg,
+        increase: Number((((entry.avg - baselineAvg) / baselineAvg) * 100).toFixed(2)),
+      };
+    })
+    .filter(({ increase }) => increase > threshold);
+}
+
+export function formatGasTable(summary: Array<GasSummary>): string {
+  const header = ["function", "calls", "min", "avg", "max", "avg gas unit price"];
+  const rows = summary.map((entry) =>
+    [entry.function, entry.calls, entry.min, entry.avg, entry.max, entry.avgGasUnitPrice].map(String),
+  );
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column].length)));
+  const line = (cells: Array<string>) =>
+    cells.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))).join("  ");
+  return [line(header), widths.map((width) => "-".repeat(width)).join("  "), ...rows.map(line)].join("\n");
+}
+
+export function writeGasRecords(records: Array<GasRecord>, specPath: string) {
+  if (records.length === 0) {
+    return;
+  }
+  fs.mkdirSync(GAS_RECORDS_DIR, { recursive: true });
+  const fileName = `${path.basename(specPath, ".ts")}-${process.pid}-${Date.now()}.json`;
+  fs.writeFileSync(path.join(GAS_RECORDS_DIR, fileName), JSON.stringify(records), { encoding: "utf8" });
+}
+
+export function readGasRecords(): Array<GasRecord> {
+  if (!fs.existsSync(GAS_RECORDS_DIR)) {
+    return [];
+  }
+  return fs
+    .readdirSync(GAS_RECORDS_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .flatMap((file) => JSON.parse(fs.readFileSync(path.join(GAS_RECORDS_DIR, file), { encoding: "utf8" })));
+}
+
+export function clearGasRecords() {
+  fs.rmSync(GAS_RECORDS_DIR, { recursive: true, force: true });
+}
+
+// Clears the records of earlier runs, unless they belong to the same GAS_REPORT_SESSION. The jest runs test:gas:all
+// chains share one, so each of them adds to the records and the last report covers every spec.
+export function startGasSession(session: string | undefined = process.env.GAS_REPORT_SESSION) {
+  if (session !== undefined && fs.existsSync(GAS_SESSION_PATH)) {
+    if (fs.readFileSync(GAS_SESSION_PATH, { encoding: "utf8" }) === session) {
+      return;
+    }
+  }
+  clearGasRecords();
+  if (session !== undefined) {
+    fs.mkdirSync(GAS_RECORDS_DIR, { recursive: true });
+    fs.writeFileSync(GAS_SESSION_PATH, session, { encoding: "utf8" });
+  }
+}
@@ -0,0 +1,71 @@
+import { BigNumber, BigNumberish } from "@ethersproject/bignumber";
+import "./wadraymath";
+import { rayToBps } from "./utils";
+
+export interface InterestRateReserveState {
+  unbacked: BigNumberish;
+  liquidityAdded: BigNumberish;
+  liquidityTaken: BigNumberish;
+  totalDebt: BigNumberish;
+  // in bps
+  reserveFactor: BigNumberish;
+  virtualUnderlyingBalance: BigNumberish;
+}
+
+// rates in ray, as in configs/pool.ts
+export interface InterestRateStrategyParams {
+  optimalUsageRatio: BigNumberish;
+  baseVariableBorrowRate: BigNumberish;
+  variableRateSlope1: BigNumberish;
+  variableRateSlope2: BigNumberish;
+}
+
+export interface InterestRates {
+  currentLiquidityRate: BigNumber;
+  currentVariableBorrowRate: BigNumber;
+}
+
+// the strategy is stored in bps on-chain and read back in ray, so anything finer than a bps is lost
+const toOnChainRay = (value: BigNumberish): BigNumber => rayToBps(BigNumber.from(value)).mul(BigNumber.from(10).pow(23));
+
+// Off-chain copy of default_reserve_interest_rate_strategy::calculate_interest_rates, with the same rounding
+export function calculateInterestRates(
+  reserveState: InterestRateReserveState,
+  strategy: InterestRateStrategyParams,
+): InterestRates {
+  const optimalUsageRatio = toOnChainRay(strategy.optimalUsageRatio);
+  const variableRateSlope1 = toOnChainRay(strategy.variableRateSlope1);
+  const variableRateSlope2 = toOnChainRay(strategy.variableRateSlope2);
+  const totalDebt = BigNumber.from(reserveState.totalDebt);
+
+  let currentVariableBorrowRate = toOnChainRay(strategy.baseVariableBorrowRate);
+  if (totalDebt.isZero()) {
+    return { currentLiquidityRate: BigNumber.from(0), currentVariableBorrowRate };
+  }
+
+  const availableLiquidity = BigNumber.from(reserveState.virtualUnderlyingBalance)
+    .add(reserveState.liquidityAdded)
+    .sub(reserveState.liquidityTaken);
+  const availableLiquidityPlusDebt = availableLiquidity.add(totalDebt);
+  const borrowUsageRatio = totalDebt.rayDiv(availableLiquidityPlusDebt);
+  const supplyUsageRatio = totalDebt.rayDiv(availableLiquidityPlusDebt.add(reserveState.unbacked));
+
+  if (borrowUsageRatio.gt(optimalUsageRatio)) {
+    const excessBorrowUsageRatio = borrowUsageRatio
+      .sub(optimalUsageRatio)
+      .rayDiv(BigNumber.prototype.ray().sub(optimalUsageRatio));
+    currentVariableBorrowRate = currentVariableBorrowRate
+      .add(variableRateSlope1)
+      .add(variableRateSlope2.rayMul(excessBorrowUsageRatio));
+  } else {
+    currentVariableBorrowRate = currentVariableBorrowRate.add(
+      variableRateSlope1.rayMul(borrowUsageRatio).rayDiv(optimalUsageRatio),
+    );
+  }
+
+  const currentLiquidityRate = currentVariableBorrowRate
+    .rayMul(supplyUsageRatio)
+    .percentMul(BigNumber.prototype.percentageFactor().sub(reserveState.reserveFactor).toString());
+
+  return { currentLiquidityRate, currentVariableBorrowRate };
+}
@@ -38,5 +38,12 @@ export interface ReserveData {
   lastUpdateTimestamp: BigNumber;
   liquidityRate: BigNumber;
   accruedToTreasuryScaled: BigNumber;
+  // the reserve deficit, which the interest rate strategy receives as unbacked
+  unbacked: BigNumber;
+  // interest rate strategy of the reserve, in ray
+  optimalUsageRatio: BigNumber;
+  baseVariableBorrowRate: BigNumber;
+  variableRateSlope1: BigNumber;
+  variableRateSlope2: BigNumber;
   [key: string]: BigNumber | string;
 }
@@ -0,0 +1,21 @@
+import { afterAll, expect } from "@jest/globals";
+import { AptosContractWrapperBaseClass } from "@aave/aave-v3-aptos-ts-sdk";
+import { gasReportEnabled, GasRecord, toGasRecord, writeGasRecords } from "./gasReporter";
+
+// Records the gas of every transaction the SDK clients commit in a spec file, helpers/gasReportTeardown.ts reports it
+if (gasReportEnabled()) {
+  const records: Array<GasRecord> = [];
+  const { sendTxAndAwaitResponse } = AptosContractWrapperBaseClass.prototype;
+  AptosContractWrapperBaseClass.prototype.sendTxAndAwaitResponse = async function (
+    ...args: Parameters<typeof sendTxAndAwaitResponse>
+  ) {
+    const tx = await sendTxAndAwaitResponse.apply(this, args);
+    const record = toGasRecord(tx);
+    if (record) {
+      records.push(record);
+    }
+    return tx;
+  };
+
+  afterAll(() => writeGasRecords(records, expect.getState().testPath));
+}
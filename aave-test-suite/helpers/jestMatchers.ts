@@ -0,0 +1,25 @@
+import { expect } from "@jest/globals";
+import { describeMoveAbortMismatch, formatMoveAbort, MoveAbortExpectation } from "./moveAbort";
+
+// await expect(coreClient.supply(...)).toAbortWith({ module: "validation_logic", code: AaveError.EINVALID_AMOUNT })
+expect.extend({
+  async toAbortWith(received: Promise<unknown>, expected: MoveAbortExpectation) {
+    let mismatch: string;
+    try {
+      await received;
+      mismatch = `transaction succeeded, expected it to abort with ${formatMoveAbort(expected)}`;
+    } catch (err) {
+      mismatch = describeMoveAbortMismatch(err, expected);
+    }
+    return {
+      pass: mismatch === undefined,
+      message: () => mismatch ?? `expected the transaction not to abort with ${formatMoveAbort(expected)}`,
+    };
+  },
+});
+
+declare module "expect" {
+  interface Matchers<R> {
+    toAbortWith(expected: MoveAbortExpectation): Promise<R>;
+  }
+}
@@ -0,0 +1,131 @@
+import fs from "fs";
+import path from "path";
+import { spawn } from "child_process";
+
+// Snapshots copy the data directory of a localnet started by startLocalnet, the node is stopped while copying.
+// They are opt-in with LOCALNET_SNAPSHOTS=true as they cannot be taken of a node started elsewhere (docker, make).
+export const localnetSnapshotsEnabled = (): boolean => process.env.LOCALNET_SNAPSHOTS === "true";
+
+export const LOCALNET_TEST_DIR = path.resolve(process.env.LOCALNET_TEST_DIR ?? path.join(__dirname, "../../.aptos/testnet"));
+export const LOCALNET_SNAPSHOTS_DIR = path.resolve(`${LOCALNET_TEST_DIR}-snapshots`);
+const LOCALNET_PID_FILE = `${LOCALNET_TEST_DIR}.pid`;
+const LOCALNET_LOG_FILE = `${LOCALNET_TEST_DIR}.log`;
+// served by run-localnet once the node, the faucet and the other services are up
+const LOCALNET_READINESS_URL = process.env.LOCALNET_READINESS_URL ?? "http://127.0.0.1:8070/";
+const LOCALNET_START_TIMEOUT_MS = 120_000;
+const LOCALNET_STOP_TIMEOUT_MS = 30_000;
+// copying the data directory back has no deadline of its own, this is what a revert is given for it
+const LOCALNET_SNAPSHOT_COPY_MS = 30_000;
+// stopping the node, copying the snapshot back and starting it again
+const LOCALNET_REVERT_TIMEOUT_MS = LOCALNET_STOP_TIMEOUT_MS + LOCALNET_SNAPSHOT_COPY_MS + LOCALNET_START_TIMEOUT_MS;
+
+// Jest timeout of a test or hook that runs initializeMakeSuite, which reverts the localnet when snapshots are enabled
+export const withRevertTimeout = (timeout: number): number =>
+  localnetSnapshotsEnabled() ? timeout + LOCALNET_REVERT_TIMEOUT_MS : timeout;
+
+// beforeAll of the specs that set up their own users and reserves after initializeMakeSuite
+export const SUITE_SETUP_TIMEOUT = withRevertTimeout(120_000);
+
+// the snapshot taken once initData has deployed the market
+export const INIT_DATA_SNAPSHOT = "initData";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const readPid = (): number | undefined =>
+  fs.existsSync(LOCALNET_PID_FILE) ? Number(fs.readFileSync(LOCALNET_PID_FILE, { encoding: "utf8" })) : undefined;
+
+const isRunning = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const snapshotPath = (name: string): string => path.join(LOCALNET_SNAPSHOTS_DIR, name);
+
+export const hasLocalnetSnapshot = (name: string = INIT_DATA_SNAPSHOT): boolean => fs.existsSync(snapshotPath(name));
+
+async function waitUntilReady() {
+  const deadline = Date.now() + LOCALNET_START_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const ready = await fetch(LOCALNET_READINESS_URL)
+      .then((response) => response.ok)
+      .catch(() => false);
+    if (ready) {
+      return;
+    }
+    await sleep(1000);
+  }
+  throw new Error(`Localnet did not become ready within ${LOCALNET_START_TIMEOUT_MS / 1000}s, see ${LOCALNET_LOG_FILE}`);
+}
+
+// Starts a detached localnet on LOCALNET_TEST_DIR, resuming from the state already in there
+export async function startLocalnet() {
+  const pid = readPid();
+  if (pid !== undefined && isRunning(pid)) {
+    return waitUntilReady();
+  }
+  const log = fs.openSync(LOCALNET_LOG_FILE, "a");
+  const node = spawn(
+    "aptos",
+    [
+      "node",
+      "run-localnet",
+      "--test-dir",
+      LOCALNET_TEST_DIR,
+      "--assume-yes",
+      "--no-txn-stream",
+      "--faucet-port",
+      "8081",
+      "--performance",
+    ],
+    { detached: true, stdio: ["ignore", log, log] },
+  );
+  node.unref();
+  fs.writeFileSync(LOCALNET_PID_FILE, String(node.pid), { encoding: "utf8" });
+  await waitUntilReady();
+}
+
+export async function stopLocalnet() {
+  const pid = readPid();
+  if (pid === undefined) {
+    return;
+  }
+  if (isRunning(pid)) {
+    // the whole process group startLocalnet created, run-localnet has children of its own
+    process.kill(-pid, "SIGINT");
+    const deadline = Date.now() + LOCALNET_STOP_TIMEOUT_MS;
+    while (isRunning(pid)) {
+      if (Date.now() > deadline) {
+        process.kill(-pid, "SIGKILL");
+        throw new Error(
+          `Localnet ${pid} did not stop within ${LOCALNET_STOP_TIMEOUT_MS / 1000}s and was killed, see ${LOCALNET_LOG_FILE}`,
+        );
+      }
+      await sleep(200);
+    }
+  }
+  fs.rmSync(LOCALNET_PID_FILE, { force: true });
+}
+
+// Checkpoints the localnet state under name, replacing an older snapshot of the same name
+export async function snapshotLocalnet(name: string = INIT_DATA_SNAPSHOT) {
+  await stopLocalnet();
+  fs.rmSync(snapshotPath(name), { recursive: true, force: true });
+  fs.mkdirSync(LOCALNET_SNAPSHOTS_DIR, { recursive: true });
+  fs.cpSync(LOCALNET_TEST_DIR, snapshotPath(name), { recursive: true });
+  await startLocalnet();
+}
+
+// Restores the localnet state checkpointed under name, everything that happened since is lost
+export async function revertLocalnet(name: string = INIT_DATA_SNAPSHOT) {
+  if (!hasLocalnetSnapshot(name)) {
+    throw new Error(`There is no localnet snapshot ${name} in ${LOCALNET_SNAPSHOTS_DIR}`);
+  }
+  await stopLocalnet();
+  fs.rmSync(LOCALNET_TEST_DIR, { recursive: true, force: true });
+  fs.cpSync(snapshotPath(name), LOCALNET_TEST_DIR, { recursive: true });
+  await startLocalnet();
+}
@@ -0,0 +1,54 @@
+import { AccountAddress, CommittedTransactionResponse, Ed25519Account, MoveFunctionId } from "@aptos-labs/ts-sdk";
+import { AAVE_PROFILES, AptosContractWrapperBaseClass, AptosProvider } from "@aave/aave-v3-aptos-ts-sdk";
+
+export const MOCK_COIN = { name: "Mock Coin", symbol: "MCOIN", decimals: 8 };
+
+// Client of mock_coin, the legacy coin listed through its paired fungible asset.
+// initialize and mint are signed by the underlyings profile, register and coinToFa by the holder.
+export class MockCoinClient extends AptosContractWrapperBaseClass {
+  private readonly mockCoinModule: string;
+
+  // fully qualified Move type of the mock coin
+  readonly coinType: string;
+
+  constructor(aptosProvider: AptosProvider, signer?: Ed25519Account) {
+    super(aptosProvider, signer);
+    const address = aptosProvider.getProfileAddressByName(AAVE_PROFILES.AAVE_MOCK_UNDERLYINGS);
+    this.mockCoinModule = `${address.toString()}::mock_coin`;
+    this.coinType = `${this.mockCoinModule}::MockCoin`;
+  }
+
+  private functionId(name: string): MoveFunctionId {
+    return `${this.mockCoinModule}::${name}` as MoveFunctionId;
+  }
+
+  async isInitialized(): Promise<boolean> {
+    const [initialized] = await this.callViewMethod<[boolean]>("0x1::coin::is_coin_initialized", [], [this.coinType]);
+    return initialized;
+  }
+
+  // also pairs the coin with its fungible asset
+  async initialize(name: string, symbol: string, decimals: number): Promise<CommittedTransactionResponse> {
+    return this.sendTxAndAwaitResponse(this.functionId("initialize"), [name, symbol, decimals]);
+  }
+
+  // Creates the coin store of the signer, coins minted before land in its primary fungible store instead
+  async register(): Promise<CommittedTransactionResponse> {
+    return this.sendTxAndAwaitResponse(this.functionId("register"), []);
+  }
+
+  async mint(to: AccountAddress, amount: bigint): Promise<CommittedTransactionResponse> {
+    return this.sendTxAndAwaitResponse(this.functionId("mint"), [to, amount]);
+  }
+
+  // Converts amount of the signer's coin store to the paired fungible asset, any coin type works
+  async coinToFa(amount: bigint, coinType: string = this.coinType): Promise<CommittedTransactionResponse> {
+    return this.sendTxAndAwaitResponse(this.functionId("coin_to_fa"), [amount], [coinType]);
+  }
+
+  // What the owner holds in the coin store and in the primary store of the paired fungible asset together
+  async coinBalance(owner: AccountAddress, coinType: string = this.coinType): Promise<bigint> {
+    const [balance] = await this.callViewMethod<[string]>("0x1::coin::balance", [owner], [coinType]);
+    return BigInt(balance);
+  }
+}
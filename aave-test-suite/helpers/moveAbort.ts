@@ -0,0 +1,88 @@
+import { AaveError, AaveErrorMessage } from "./errorCodes";
+
+// e.g. "Move abort in 0x1::fungible_asset: EINSUFFICIENT_BALANCE(0x10004): Insufficient balance."
+const MOVE_ABORT_PATTERN = /(0x[0-9a-fA-F]+)::(\w+): (?:([A-Z][A-Z0-9_]*)\()?(0x[0-9a-fA-F]+)\)?(?:: ([^"\n]*))?/;
+
+export interface MoveAbort {
+  address: string;
+  module: string;
+  code: number;
+  // std::error category, the upper bits of framework abort codes
+  category: number;
+  reason: number;
+  // from the module's error map, as the framework ships, or else from the error_config catalogue
+  name?: string;
+  message?: string;
+}
+
+export interface MoveAbortExpectation {
+  module?: string;
+  // one of AaveError for the Aave modules
+  code?: number;
+  // error constant name reported by modules with an error map, e.g. EINSUFFICIENT_BALANCE
+  name?: string;
+  category?: number;
+}
+
+// Extracts the abort location and code from an error thrown while submitting or waiting for a transaction
+export function parseMoveAbort(err: unknown): MoveAbort | undefined {
+  const match = MOVE_ABORT_PATTERN.exec(String(err));
+  if (!match) {
+    return undefined;
+  }
+  const [, address, module, name, hexCode, message] = match;
+  const code = Number.parseInt(hexCode, 16);
+  // the Aave modules ship no error map, their plain codes come from aave_config::error_config
+  const known = name === undefined && AaveError[code] !== undefined;
+  return {
+    address,
+    module,
+    code,
+    category: code >> 16,
+    reason: code & 0xffff,
+    name: known ? AaveError[code] : name,
+    message: known ? AaveErrorMessage[code] : message?.trim(),
+  };
+}
+
+export function formatMoveAbort({ module, code, name }: { module?: string; code?: number; name?: string }): string {
+  const label = name ?? (code !== undefined ? AaveError[code] : undefined);
+  const location = [module, code !== undefined ? `0x${code.toString(16)}` : undefined].filter(Boolean).join(" ");
+  return label ? `${label} (${location})` : location;
+}
+
+// Returns why err does not match the expectation, or undefined when it does
+export function describeMoveAbortMismatch(err: unknown, expected: MoveAbortExpectation): string | undefined {
+  const abort = parseMoveAbort(err);
+  if (!abort) {
+    return `expected ${formatMoveAbort(expected)}, got an error that is not a Move abort: ${String(err)}`;
+  }
+  const mismatch =
+    (expected.module !== undefined && abort.module !== expected.module) ||
+    (expected.code !== undefined && abort.code !== expected.code) ||
+    (expected.name !== undefined && abort.name !== expected.name) ||
+    (expected.category !== undefined && abort.category !== expected.category);
+  return mismatch
+    ? `expected ${formatMoveAbort(expected)}, got ${formatMoveAbort(abort)}${abort.message ? `: ${abort.message}` : ""}`
+    : undefined;
+}
+
+// What object::address_to_object aborts with when nothing was created at the address, e.g. a lookup by symbol or seed
+export const OBJECT_DOES_NOT_EXIST: MoveAbortExpectation = { module: "object", name: "EOBJECT_DOES_NOT_EXIST" };
+
+export const isMoveAbort = (err: unknown, expected: MoveAbortExpectation): boolean =>
+  describeMoveAbortMismatch(err, expected) === undefined;
+
+// Fails unless the transaction aborts as expected, a transaction that succeeds is a failure too
+export async function expectMoveAbort(promise: Promise<unknown>, expected: MoveAbortExpectation): Promise<MoveAbort> {
+  try {
+    await promise;
+  } catch (err) {
+    const mismatch = describeMoveAbortMismatch(err, expected);
+    if (mismatch) {
+      throw new Error(`Transaction aborted differently: ${mismatch}`);
+    }
+    return parseMoveAbort(err);
+  }
+  throw new Error(`Transaction succeeded, expected it to abort with ${formatMoveAbort(expected)}`);
+}
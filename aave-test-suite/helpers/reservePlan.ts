@@ -0,0 +1,94 @@
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+import { PoolClient } from "@aave/aave-v3-aptos-ts-sdk";
+import { MarketReserveStrategy } from "../configs/market";
+import { FeeManagerClient } from "./feeManager";
+
+// reserve_config bit holding the borrowable in isolation flag
+export const BORROWABLE_IN_ISOLATION_START_BIT_POSITION = 61n;
+
+// the reserve parameters set by configReserves, normalized for comparison
+export interface ReserveConfigValues {
+  ltv: string;
+  liquidationThreshold: string;
+  liquidationBonus: string;
+  reserveFactor: string;
+  borrowCap: string;
+  supplyCap: string;
+  debtCeiling: string;
+  borrowingEnabled: boolean;
+  flashLoanEnabled: boolean;
+  emode: number;
+  borrowableIsolation: boolean;
+  aptFee: string;
+  siloedBorrowing: boolean;
+}
+
+export type ReserveConfigField = keyof ReserveConfigValues;
+
+export interface ReserveFieldChange {
+  field: ReserveConfigField;
+  current: string;
+  desired: string;
+}
+
+export interface ReservePlan {
+  symbol: string;
+  asset: AccountAddress;
+  changes: Array<ReserveFieldChange>;
+}
+
+export async function fetchReserveConfigValues(
+  poolClient: PoolClient,
+  feeManagerClient: FeeManagerClient,
+  asset: AccountAddress,
+): Promise<ReserveConfigValues> {
+  const configurationData = await poolClient.getReserveConfigurationData(asset);
+  const { borrowCap, supplyCap } = await poolClient.getReserveCaps(asset);
+  const debtCeiling = await poolClient.getDebtCeiling(asset);
+  const emode = await poolClient.getReserveEmodeCategory(asset);
+  const flashLoanEnabled = await poolClient.getFlashloanEnabled(asset);
+  // the sdk has no getter for this flag, read it from the configuration bitmap
+  const configuration = await poolClient.getReserveConfiguration(asset);
+  const borrowableIsolation = ((BigInt(configuration.data.toString()) >> BORROWABLE_IN_ISOLATION_START_BIT_POSITION) & 1n) === 1n;
+
+  return {
+    ltv: configurationData.ltv.toString(),
+    liquidationThreshold: configurationData.liquidationThreshold.toString(),
+    liquidationBonus: configurationData.liquidationBonus.toString(),
+    reserveFactor: configurationData.reserveFactor.toString(),
+    borrowCap: borrowCap.toString(),
+    supplyCap: supplyCap.toString(),
+    debtCeiling: debtCeiling.toString(),
+    borrowingEnabled: configurationData.borrowingEnabled,
+    flashLoanEnabled,
+    emode: Number(emode),
+    borrowableIsolation,
+    aptFee: (await feeManagerClient.getAptFee(asset)).toString(),
+    siloedBorrowing: await poolClient.getSiloedBorrowing(asset),
+  };
+}
+
+export const desiredReserveConfigValues = (strategy: MarketReserveStrategy): ReserveConfigValues => ({
+  ltv: BigInt(strategy.baseLTVAsCollateral).toString(),
+  liquidationThreshold: BigInt(strategy.liquidationThreshold).toString(),
+  liquidationBonus: BigInt(strategy.liquidationBonus).toString(),
+  reserveFactor: BigInt(strategy.reserveFactor).toString(),
+  borrowCap: BigInt(strategy.borrowCap).toString(),
+  supplyCap: BigInt(strategy.supplyCap).toString(),
+  debtCeiling: BigInt(strategy.debtCeiling).toString(),
+  borrowingEnabled: strategy.borrowingEnabled,
+  flashLoanEnabled: strategy.flashLoanEnabled,
+  emode: strategy.emode,
+  borrowableIsolation: strategy.borrowableIsolation,
+  aptFee: BigInt(strategy.aptFee ?? 0).toString(),
+  siloedBorrowing: strategy.siloedBorrowing ?? false,
+});
+
+export function diffReserveConfig(current: ReserveConfigValues, desired: ReserveConfigValues): Array<ReserveFieldChange> {
+  return (Object.keys(desired) as Array<ReserveConfigField>)
+    .filter((field) => String(current[field]) !== String(desired[field]))
+    .map((field) => ({ field, current: String(current[field]), desired: String(desired[field]) }));
+}
+
+export const planChanges = (plan: ReservePlan, ...fields: Array<ReserveConfigField>): boolean =>
+  plan.changes.some((change) => fields.includes(change.field));
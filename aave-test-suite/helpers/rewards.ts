@@ -0,0 +1,248 @@
+import {
+  AccountAddress,
+  CommittedTransactionResponse,
+  createObjectAddress,
+  createResourceAddress,
+  Ed25519Account,
+  EntryFunctionArgumentTypes,
+  MoveFunctionId,
+  MoveOption,
+  MoveValue,
+  SimpleEntryFunctionArgumentTypes,
+} from "@aptos-labs/ts-sdk";
+import { AAVE_PROFILES, AptosContractWrapperBaseClass, AptosProvider } from "@aave/aave-v3-aptos-ts-sdk";
+import { isMoveAbort, OBJECT_DOES_NOT_EXIST } from "./moveAbort";
+
+// Seed of the rewards controller object emission_manager::initialize creates under the pool account
+export const REWARDS_CONTROLLER_SEED = "aave_rewards_controller";
+// Seed of the pull rewards transfer strategy and of the resource account holding the rewards it pays out
+export const PULL_REWARDS_TRANSFER_STRATEGY_SEED = "aave_pull_rewards_transfer_strategy";
+
+const encodeSeed = (seed: string): Uint8Array => new TextEncoder().encode(seed);
+
+// Move Option<address> values are returned by view functions as { vec: [address] } or { vec: [] }
+const fromMoveOption = (option: { vec: Array<string> }): AccountAddress | undefined =>
+  option.vec.length > 0 ? AccountAddress.fromString(option.vec[0]) : undefined;
+
+export function getRewardsControllerAddress(pool: AccountAddress): AccountAddress {
+  return createObjectAddress(pool, REWARDS_CONTROLLER_SEED);
+}
+
+// The strategy object and its vault are derived from the emission admin that created them
+export function getPullRewardsTransferStrategyAddress(creator: AccountAddress): AccountAddress {
+  return createObjectAddress(creator, PULL_REWARDS_TRANSFER_STRATEGY_SEED);
+}
+
+export function getRewardsVaultAddress(creator: AccountAddress): AccountAddress {
+  return createResourceAddress(creator, PULL_REWARDS_TRANSFER_STRATEGY_SEED);
+}
+
+// Sets up and claims rewards. The transfer strategy constructor and the claims are not entry functions, they go through
+// mock_rewards, published next to the mock underlyings by `make publish-mock-rewards`. The emission manager and
+// incentives controller calls need the pool account as signer, the claims the user or its claimer.
+export class RewardsClient extends AptosContractWrapperBaseClass {
+  private readonly rewardsModule: string;
+
+  private readonly pool: string;
+
+  constructor(aptosProvider: AptosProvider, signer?: Ed25519Account) {
+    super(aptosProvider, signer);
+    const address = aptosProvider.getProfileAddressByName(AAVE_PROFILES.AAVE_MOCK_UNDERLYINGS);
+    this.rewardsModule = `${address.toString()}::mock_rewards`;
+    this.pool = aptosProvider.getProfileAddressByName(AAVE_PROFILES.AAVE_POOL).toString();
+  }
+
+  private functionId(name: string): MoveFunctionId {
+    return `${this.rewardsModule}::${name}` as MoveFunctionId;
+  }
+
+  private poolFunctionId(module: string, name: string): MoveFunctionId {
+    return `${this.pool}::${module}::${name}` as MoveFunctionId;
+  }
+
+  // Creates the rewards controller object, the emission manager only uses it once setRewardsController points to it
+  async initializeRewardsController(seed: string = REWARDS_CONTROLLER_SEED): Promise<CommittedTransactionResponse> {
+    return this.sendTxAndAwaitResponse(this.poolFunctionId("emission_manager", "initialize"), [encodeSeed(seed)]);
+  }
+
+  async setRewardsController(rewardsController?: AccountAddress): Promise<CommittedTransactionResponse> {
+    return this.sendTxAndAwaitResponse(this.poolFunctionId("emission_manager", "set_rewards_controller"), [
+      new MoveOption<AccountAddress>(rewardsController),
+    ]);
+  }
+
+  async getRewardsController(): Promise<AccountAddress | undefined> {
+    const [rewardsController] = await this.callViewMethod<[{ vec: Array<string> }]>(
+      this.poolFunctionId("emission_manager", "get_rewards_controller"),
+      [],
+    );
+    return fromMoveOption(rewardsController);
+  }
+
+  // The rewards controller object aborts the lookup until initializeRewardsController created it, other errors are thrown
+  async rewardsControllerExists(seed: string = REWARDS_CONTROLLER_SEED): Promise<boolean> {
+    const functionId = this.poolFunctionId("rewards_controller", "rewards_controller_object");
+    return this.callViewMethod(functionId, [encodeSeed(seed)])
+      .then(() => true)
+      .catch((err) => {
+        if (isMoveAbort(err, OBJECT_DOES_NOT_EXIST)) {
+          return false;
+        }
+        throw err;
+      });
+  }
+
+  // The signer must be an emission admin, incentivesController is the rewards controller allowed to pull the rewards
+  async createPullRewardsTransferStrategy(
+    rewardsAdmin: AccountAddress,
+    incentivesController: AccountAddress,
+    seed: string = PULL_REWARDS_TRANSFER_STRATEGY_SEED,
+  ): Promise<CommittedTransactionResponse> {
+    return this.sendTxAndAwaitResponse(this.functionId("create_pull_rewards_transfer_strategy"), [
+      encodeSeed(seed),
+      rewardsAdmin,
+      incentivesController,
+    ]);
+  }
+
+  // Undefined when no strategy exists at that address
+  async getStrategyIncentivesController(strategy: AccountAddress): Promise<AccountAddress | undefined> {
+    return this.callViewMethod<[string]>(
+      this.poolFunctionId("transfer_strategy", "pull_rewards_transfer_strategy_get_incentives_controller"),
+      [strategy],
+    )
+      .then(([incentivesController]) => AccountAddress.fromString(incentivesController))
+      .catch((): AccountAddress | undefined => undefined);
+  }
+
+  // Points the aToken and variable debt token of a reserve to a rewards controller, their holders accrue from then on
+  async setIncentivesController(
+    underlyingAsset: AccountAddress,
+    incentivesController?: AccountAddress,
+  ): Promise<CommittedTransactionResponse> {
+    return this.sendTxAndAwaitResponse(this.poolFunctionId("pool_token_logic", "set_incentives_controller"), [
+      underlyingAsset,
+      new MoveOption<AccountAddress>(incentivesController),
+    ]);
+  }
+
+  // token is the metadata address of an aToken or variable debt token
+  async getIncentivesController(token: AccountAddress): Promise<AccountAddress | undefined> {
+    const [incentivesController] = await this.callViewMethod<[{ vec: Array<string> }]>(
+      this.poolFunctionId("token_base", "get_incentives_controller"),
+      [token],
+    );
+    return fromMoveOption(incentivesController);
+  }
+
+  async claimRewards(
+    assets: Array<AccountAddress>,
+    amount: bigint,
+    to: AccountAddress,
+    reward: AccountAddress,
+    rewardsController: AccountAddress,
+  ): Promise<CommittedTransactionResponse> {
+    return this.sendTxAndAwaitResponse(this.functionId("claim_rewards"), [
+      assets,
+      amount,
+      to,
+      reward,
+      rewardsController,
+    ]);
+  }
+
+  // Aborts unless the signer is the claimer of user
+  async claimRewardsOnBehalf(
+    assets: Array<AccountAddress>,
+    amount: bigint,
+    user: AccountAddress,
+    to: AccountAddress,
+    reward: AccountAddress,
+    rewardsController: AccountAddress,
+  ): Promise<CommittedTransactionResponse> {
+    return this.sendTxAndAwaitResponse(this.functionId("claim_rewards_on_behalf"), [
+      assets,
+      amount,
+      user,
+      to,
+      reward,
+      rewardsController,
+    ]);
+  }
+
+  async claimAllRewards(
+    assets: Array<AccountAddress>,
+    to: AccountAddress,
+    rewardsController: AccountAddress,
+  ): Promise<CommittedTransactionResponse> {
+    return this.sendTxAndAwaitResponse(this.functionId("claim_all_rewards"), [assets, to, rewardsController]);
+  }
+
+  // Aborts unless the signer is the claimer of user
+  async claimAllRewardsOnBehalf(
+    assets: Array<AccountAddress>,
+    user: AccountAddress,
+    to: AccountAddress,
+    rewardsController: AccountAddress,
+  ): Promise<CommittedTransactionResponse> {
+    return this.sendTxAndAwaitResponse(this.functionId("claim_all_rewards_on_behalf"), [
+      assets,
+      user,
+      to,
+      rewardsController,
+    ]);
+  }
+
+  async getClaimer(user: AccountAddress, rewardsController: AccountAddress): Promise<AccountAddress | undefined> {
+    const [claimer] = await this.callViewMethod<[{ vec: Array<string> }]>(
+      this.poolFunctionId("rewards_controller", "get_claimer"),
+      [user, rewardsController],
+    );
+    return fromMoveOption(claimer);
+  }
+
+  // callViewMethod always reads the latest ledger version, this one can be pinned to the version a timestamp came from
+  private async viewAt<T extends Array<MoveValue>>(
+    functionId: MoveFunctionId,
+    functionArguments: Array<EntryFunctionArgumentTypes | SimpleEntryFunctionArgumentTypes>,
+    ledgerVersion?: bigint,
+  ): Promise<T> {
+    return this.aptosProvider.getAptos().view<T>({
+      payload: { function: functionId, functionArguments },
+      options: ledgerVersion === undefined ? undefined : { ledgerVersion },
+    });
+  }
+
+  // What user can claim of reward on assets, at ledgerVersion or the latest version
+  async getUserRewards(
+    assets: Array<AccountAddress>,
+    user: AccountAddress,
+    reward: AccountAddress,
+    rewardsController: AccountAddress,
+    ledgerVersion?: bigint,
+  ): Promise<bigint> {
+    const [amount] = await this.viewAt<[string]>(
+      this.poolFunctionId("rewards_controller", "get_user_rewards"),
+      [assets, user, reward, rewardsController],
+      ledgerVersion,
+    );
+    return BigInt(amount);
+  }
+
+  // Every reward enabled on the controller, with what user can claim of it on assets
+  async getAllUserRewards(
+    assets: Array<AccountAddress>,
+    user: AccountAddress,
+    rewardsController: AccountAddress,
+    ledgerVersion?: bigint,
+  ): Promise<Map<string, bigint>> {
+    const [rewards, amounts] = await this.viewAt<[Array<string>, Array<string>]>(
+      this.poolFunctionId("rewards_controller", "get_all_user_rewards"),
+      [assets, user, rewardsController],
+      ledgerVersion,
+    );
+    return new Map(
+      rewards.map((reward, index) => [AccountAddress.fromString(reward).toStringLong(), BigInt(amounts[index])]),
+    );
+  }
+}
@@ -0,0 +1,315 @@
+import fs from "fs";
+import path from "path";
+import { AccountAddress, CommittedTransactionResponse, Ed25519Account } from "@aptos-labs/ts-sdk";
+import { AptosProvider, consts, CoreClient, OracleClient, UnderlyingTokensClient } from "@aave/aave-v3-aptos-ts-sdk";
+import { BigNumber } from "@ethersproject/bignumber";
+import { parseUnits } from "ethers";
+import { advanceTime } from "../configs/config";
+import { AaveError } from "./errorCodes";
+import { ReserveData, UserReserveData } from "./interfaces";
+import { describeMoveAbortMismatch, formatMoveAbort, MoveAbortExpectation } from "./moveAbort";
+import { getReserveSnapshot, getTxTimestamp, getUserSnapshot } from "./snapshots";
+import {
+  calcExpectedReserveDataAfterBorrow,
+  calcExpectedReserveDataAfterRepay,
+  calcExpectedReserveDataAfterSupply,
+  calcExpectedReserveDataAfterWithdraw,
+  calcExpectedUserDataAfterBorrow,
+  calcExpectedUserDataAfterRepay,
+  calcExpectedUserDataAfterSupply,
+  calcExpectedUserDataAfterTime,
+  calcExpectedUserDataAfterWithdraw,
+} from "./calculations";
+
+export type ScenarioActionName =
+  | "mint"
+  | "supply"
+  | "borrow"
+  | "repay"
+  | "withdraw"
+  | "setUseAsCollateral"
+  | "liquidate"
+  | "setPrice"
+  | "advanceTime";
+
+export interface ScenarioActionArgs {
+  // index in testEnv.users of the account sending the transaction
+  user?: string;
+  // underlying symbol, the debt asset for liquidate
+  reserve?: string;
+  // in whole tokens, "-1" is the max sentinel of withdraw, repay and liquidate
+  amount?: string;
+  // index in testEnv.users, defaults to user
+  onBehalfOf?: string;
+  useAsCollateral?: boolean;
+  // liquidate only
+  collateralReserve?: string;
+  borrower?: string;
+  receiveAToken?: boolean;
+  // setPrice only, raw oracle price
+  price?: string;
+  // advanceTime only
+  seconds?: number;
+}
+
+export interface ScenarioAction {
+  name: ScenarioActionName;
+  args: ScenarioActionArgs;
+  expected: "success" | "revert";
+  // module that aborts and AaveError name of the abort code, e.g. "validation_logic" and "EINVALID_AMOUNT"
+  revertModule?: string;
+  revertError?: keyof typeof AaveError;
+}
+
+export interface ScenarioStory {
+  description: string;
+  actions: Array<ScenarioAction>;
+}
+
+export interface Scenario {
+  title: string;
+  description?: string;
+  stories: Array<ScenarioStory>;
+}
+
+export interface ScenarioContext {
+  users: Array<Ed25519Account>;
+  aptosProvider: AptosProvider;
+  coreClient: CoreClient;
+  underlyingTokensClient: UnderlyingTokensClient;
+  oracleClient: OracleClient;
+}
+
+// the state the calculations need to check an action, read right before sending it
+interface ActionStateBefore {
+  reserveData: ReserveData;
+  userData: UserReserveData;
+}
+
+export const scenariosDir = path.resolve(__dirname, "../test/scenarios");
+
+export function loadScenarios(dir: string = scenariosDir): Array<Scenario> {
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .map((file) => JSON.parse(fs.readFileSync(path.join(dir, file), { encoding: "utf8" })) as Scenario);
+}
+
+export function createScenarioContext(users: Array<Ed25519Account>): ScenarioContext {
+  const aptosProvider = AptosProvider.fromEnvs();
+  return {
+    users,
+    aptosProvider,
+    coreClient: new CoreClient(aptosProvider, aptosProvider.getPoolProfileAccount()),
+    underlyingTokensClient: new UnderlyingTokensClient(aptosProvider, aptosProvider.getUnderlyingTokensProfileAccount()),
+    oracleClient: new OracleClient(aptosProvider, aptosProvider.getOracleProfileAccount()),
+  };
+}
+
+const getUser = (context: ScenarioContext, index: string): Ed25519Account => {
+  const user = context.users[Number(index)];
+  if (!user) {
+    throw new Error(`Scenario user ${index} does not exist, there are ${context.users.length} test users`);
+  }
+  return user;
+};
+
+const requireArg = <K extends keyof ScenarioActionArgs>(action: ScenarioAction, key: K): ScenarioActionArgs[K] => {
+  if (action.args[key] === undefined) {
+    throw new Error(`Scenario action ${action.name} is missing the ${key} argument`);
+  }
+  return action.args[key];
+};
+
+async function parseAmount(context: ScenarioContext, asset: AccountAddress, amount: string): Promise<bigint> {
+  if (amount === "-1") {
+    return BigInt(consts.MAX_UINT_AMOUNT);
+  }
+  const decimals = await context.underlyingTokensClient.decimals(asset);
+  return parseUnits(amount, Number(decimals));
+}
+
+// Supply, withdraw, borrow and repay for the sender's own position are checked against helpers/calculations
+function expectStateAfterAction(
+  action: ScenarioAction,
+  amount: bigint,
+  before: ActionStateBefore,
+  txTimestamp: BigNumber,
+): ActionStateBefore {
+  const { reserveData, userData } = before;
+  switch (action.name) {
+    case "supply": {
+      const expectedReserveData = calcExpectedReserveDataAfterSupply(amount, reserveData, txTimestamp);
+      return { reserveData: expectedReserveData, userData: calcExpectedUserDataAfterSupply(amount, expectedReserveData, userData) };
+    }
+    case "withdraw": {
+      // the max sentinel withdraws the whole balance as of the transaction
+      const withdrawn =
+        amount === BigInt(consts.MAX_UINT_AMOUNT)
+          ? calcExpectedUserDataAfterTime(reserveData, userData, txTimestamp).currentATokenBalance
+          : amount;
+      const expectedReserveData = calcExpectedReserveDataAfterWithdraw(withdrawn, reserveData, txTimestamp);
+      return {
+        reserveData: expectedReserveData,
+        userData: calcExpectedUserDataAfterWithdraw(withdrawn, expectedReserveData, userData),
+      };
+    }
+    case "borrow": {
+      const expectedReserveData = calcExpectedReserveDataAfterBorrow(amount, reserveData, txTimestamp);
+      return { reserveData: expectedReserveData, userData: calcExpectedUserDataAfterBorrow(amount, expectedReserveData, userData) };
+    }
+    case "repay": {
+      const debt = calcExpectedUserDataAfterTime(reserveData, userData, txTimestamp).currentVariableDebt;
+      const repaid = BigNumber.from(amount).gt(debt) ? debt : amount;
+      const expectedReserveData = calcExpectedReserveDataAfterRepay(repaid, reserveData, txTimestamp);
+      return { reserveData: expectedReserveData, userData: calcExpectedUserDataAfterRepay(repaid, expectedReserveData, userData) };
+    }
+    default:
+      return undefined;
+  }
+}
+
+function expectStateEqual(label: string, actual: ReserveData | UserReserveData, expected: ReserveData | UserReserveData) {
+  const mismatches = Object.keys(expected)
+    .filter((key) => actual[key].toString() !== expected[key].toString())
+    .map((key) => `${key}: expected ${expected[key].toString()}, got ${actual[key].toString()}`);
+  if (mismatches.length > 0) {
+    throw new Error(`Unexpected ${label} state:\n  ${mismatches.join("\n  ")}`);
+  }
+}
+
+async function sendAction(context: ScenarioContext, action: ScenarioAction): Promise<CommittedTransactionResponse> {
+  const { coreClient, underlyingTokensClient, oracleClient } = context;
+  // only setPrice is sent by an admin profile instead of a test user
+  const user = action.name !== "setPrice" ? getUser(context, requireArg(action, "user")) : undefined;
+  const onBehalfOf = action.args.onBehalfOf !== undefined ? getUser(context, action.args.onBehalfOf) : user;
+  const asset =
+    action.args.reserve !== undefined
+      ? await underlyingTokensClient.getMetadataBySymbol(action.args.reserve)
+      : undefined;
+
+  switch (action.name) {
+    case "mint": {
+      const amount = await parseAmount(context, asset, requireArg(action, "amount"));
+      return underlyingTokensClient.mint(user.accountAddress, amount, asset);
+    }
+    case "supply": {
+      const amount = await parseAmount(context, asset, requireArg(action, "amount"));
+      return coreClient
+        .withSigner(user)
+        .supply(asset, amount, onBehalfOf.accountAddress, consts.AAVE_REFERRAL);
+    }
+    case "withdraw": {
+      const amount = await parseAmount(context, asset, requireArg(action, "amount"));
+      return coreClient.withSigner(user).withdraw(asset, amount, user.accountAddress);
+    }
+    case "borrow": {
+      const amount = await parseAmount(context, asset, requireArg(action, "amount"));
+      return coreClient
+        .withSigner(user)
+        .borrow(
+          asset,
+          amount,
+          consts.INTEREST_RATE_MODES.VARIABLE,
+          consts.AAVE_REFERRAL,
+          onBehalfOf.accountAddress,
+        );
+    }
+    case "repay": {
+      const amount = await parseAmount(context, asset, requireArg(action, "amount"));
+      return coreClient
+        .withSigner(user)
+        .repay(asset, amount, consts.INTEREST_RATE_MODES.VARIABLE, onBehalfOf.accountAddress);
+    }
+    case "setUseAsCollateral":
+      return coreClient
+        .withSigner(user)
+        .setUserUseReserveAsCollateral(asset, requireArg(action, "useAsCollateral"));
+    case "liquidate": {
+      const collateralAsset = await underlyingTokensClient.getMetadataBySymbol(requireArg(action, "collateralReserve"));
+      const borrower = getUser(context, requireArg(action, "borrower"));
+      const amount = await parseAmount(context, asset, requireArg(action, "amount"));
+      return coreClient
+        .withSigner(user)
+        .liquidationCall(collateralAsset, asset, borrower.accountAddress, amount, action.args.receiveAToken ?? false);
+    }
+    case "setPrice":
+      return oracleClient.setAssetCustomPrice(asset, BigInt(requireArg(action, "price")));
+    default:
+      throw new Error(`Unknown scenario action ${action.name}`);
+  }
+}
+
+async function readStateBefore(context: ScenarioContext, action: ScenarioAction): Promise<ActionStateBefore> {
+  const checked = ["supply", "withdraw", "borrow", "repay"].includes(action.name);
+  // the position that moves is the one on behalf of which the action is sent
+  if (!checked || action.expected !== "success" || (action.args.onBehalfOf ?? action.args.user) !== action.args.user) {
+    return undefined;
+  }
+  const asset = await context.underlyingTokensClient.getMetadataBySymbol(action.args.reserve);
+  const user = getUser(context, action.args.user);
+  return {
+    reserveData: await getReserveSnapshot(context.aptosProvider, asset),
+    userData: await getUserSnapshot(context.aptosProvider, asset, user.accountAddress),
+  };
+}
+
+// undefined when any abort will do
+function revertExpectation(action: ScenarioAction): MoveAbortExpectation | undefined {
+  if (action.revertModule === undefined && action.revertError === undefined) {
+    return undefined;
+  }
+  if (action.revertError !== undefined && AaveError[action.revertError] === undefined) {
+    throw new Error(`Action ${action.name} expects an unknown AaveError ${action.revertError}`);
+  }
+  return { module: action.revertModule, code: action.revertError && AaveError[action.revertError] };
+}
+
+export async function executeAction(context: ScenarioContext, action: ScenarioAction) {
+  if (action.name === "advanceTime") {
+    await advanceTime(requireArg(action, "seconds"));
+    return;
+  }
+
+  const before = await readStateBefore(context, action);
+
+  let tx: CommittedTransactionResponse;
+  try {
+    tx = await sendAction(context, action);
+  } catch (err) {
+    if (action.expected === "revert") {
+      const expected = revertExpectation(action);
+      const mismatch = expected && describeMoveAbortMismatch(err, expected);
+      if (mismatch) {
+        throw new Error(`Action ${action.name} reverted differently: ${mismatch}`);
+      }
+      return;
+    }
+    throw err;
+  }
+  if (action.expected === "revert") {
+    const expected = revertExpectation(action);
+    const label = expected ? formatMoveAbort(expected) : "an error";
+    throw new Error(`Action ${action.name} was expected to revert with ${label} but succeeded`);
+  }
+
+  if (before) {
+    const asset = await context.underlyingTokensClient.getMetadataBySymbol(action.args.reserve);
+    const amount = await parseAmount(context, asset, action.args.amount);
+    const expected = expectStateAfterAction(action, amount, before, getTxTimestamp(tx));
+    const user = getUser(context, action.args.user);
+    expectStateEqual(`${action.args.reserve} reserve`, await getReserveSnapshot(context.aptosProvider, asset), expected.reserveData);
+    expectStateEqual(
+      `user ${action.args.user} ${action.args.reserve}`,
+      await getUserSnapshot(context.aptosProvider, asset, user.accountAddress),
+      expected.userData,
+    );
+  }
+}
+
+export async function executeStory(context: ScenarioContext, story: ScenarioStory) {
+  for (const action of story.actions) {
+    await executeAction(context, action);
+  }
+}
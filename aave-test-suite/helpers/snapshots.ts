@@ -0,0 +1,93 @@
+import { AccountAddress, CommittedTransactionResponse, UserTransactionResponse } from "@aptos-labs/ts-sdk";
+import {
+  AptosProvider,
+  ATokensClient,
+  InterestRateClient,
+  PoolClient,
+  UnderlyingTokensClient,
+  VariableTokensClient,
+} from "@aave/aave-v3-aptos-ts-sdk";
+import { BigNumber } from "@ethersproject/bignumber";
+import "./wadraymath";
+import { ReserveData, UserReserveData } from "./interfaces";
+import { calcUsageRatio } from "./calculations";
+
+// Reads the state of a reserve as the calcExpectedReserveData* helpers expect it
+export async function getReserveSnapshot(aptosProvider: AptosProvider, asset: AccountAddress): Promise<ReserveData> {
+  const poolClient = new PoolClient(aptosProvider);
+  const underlyingTokensClient = new UnderlyingTokensClient(aptosProvider);
+  const variableTokensClient = new VariableTokensClient(aptosProvider);
+  const interestRateClient = new InterestRateClient(aptosProvider);
+
+  const reserveData = await poolClient.getReserveData(asset);
+  const { reserveFactor, decimals } = await poolClient.getReserveConfigurationData(asset);
+  const rateStrategy = await interestRateClient.getReserveInterestRateStrategy(asset);
+  const symbol = await underlyingTokensClient.symbol(asset);
+  const scaledVariableDebt = BigNumber.from(
+    await variableTokensClient.scaledTotalSupply(reserveData.variableDebtTokenAddress),
+  );
+
+  const variableBorrowIndex = BigNumber.from(reserveData.variableBorrowIndex);
+  const totalVariableDebt = scaledVariableDebt.rayMul(variableBorrowIndex);
+  // the pool tracks its liquidity in the virtual balance, not in the underlying balance of the aToken
+  const availableLiquidity = BigNumber.from(reserveData.virtualUnderlyingBalance);
+  const unbacked = BigNumber.from(reserveData.deficit);
+
+  return {
+    address: asset.toString(),
+    symbol,
+    decimals: BigNumber.from(decimals),
+    reserveFactor: BigNumber.from(reserveFactor),
+    availableLiquidity,
+    totalLiquidity: availableLiquidity.add(totalVariableDebt),
+    totalVariableDebt,
+    scaledVariableDebt,
+    variableBorrowRate: BigNumber.from(reserveData.currentVariableBorrowRate),
+    supplyUsageRatio: calcUsageRatio(totalVariableDebt, availableLiquidity.add(unbacked)),
+    borrowUsageRatio: calcUsageRatio(totalVariableDebt, availableLiquidity),
+    liquidityIndex: BigNumber.from(reserveData.liquidityIndex),
+    variableBorrowIndex,
+    aTokenAddress: reserveData.aTokenAddress.toString(),
+    lastUpdateTimestamp: BigNumber.from(reserveData.lastUpdateTimestamp),
+    liquidityRate: BigNumber.from(reserveData.currentLiquidityRate),
+    accruedToTreasuryScaled: BigNumber.from(reserveData.accruedToTreasury),
+    unbacked,
+    optimalUsageRatio: BigNumber.from(rateStrategy.optimalUsageRatio),
+    baseVariableBorrowRate: BigNumber.from(rateStrategy.baseVariableBorrowRate),
+    variableRateSlope1: BigNumber.from(rateStrategy.variableRateSlope1),
+    variableRateSlope2: BigNumber.from(rateStrategy.variableRateSlope2),
+  };
+}
+
+// Reads the position of a user in a reserve as the calcExpectedUserData* helpers expect it
+export async function getUserSnapshot(
+  aptosProvider: AptosProvider,
+  asset: AccountAddress,
+  user: AccountAddress,
+): Promise<UserReserveData> {
+  const poolClient = new PoolClient(aptosProvider);
+  const underlyingTokensClient = new UnderlyingTokensClient(aptosProvider);
+  const aTokensClient = new ATokensClient(aptosProvider);
+  const variableTokensClient = new VariableTokensClient(aptosProvider);
+
+  const reserveData = await poolClient.getReserveData(asset);
+  const { usageAsCollateralEnabled } = await poolClient.getUserReserveData(asset, user);
+
+  return {
+    scaledATokenBalance: BigNumber.from(await aTokensClient.scaledBalanceOf(user, reserveData.aTokenAddress)),
+    currentATokenBalance: BigNumber.from(await aTokensClient.balanceOf(user, reserveData.aTokenAddress)),
+    currentVariableDebt: BigNumber.from(
+      await variableTokensClient.balanceOf(user, reserveData.variableDebtTokenAddress),
+    ),
+    scaledVariableDebt: BigNumber.from(
+      await variableTokensClient.scaledBalanceOf(user, reserveData.variableDebtTokenAddress),
+    ),
+    liquidityRate: BigNumber.from(reserveData.currentLiquidityRate),
+    usageAsCollateralEnabled,
+    walletBalance: BigNumber.from(await underlyingTokensClient.balanceOf(user, asset)),
+  };
+}
+
+// Timestamp in seconds of a committed transaction, the aptos node reports it in microseconds
+export const getTxTimestamp = (tx: CommittedTransactionResponse): BigNumber =>
+  BigNumber.from((tx as UserTransactionResponse).timestamp).div(1_000_000);
@@ -0,0 +1,131 @@
+import { consts } from "@aave/aave-v3-aptos-ts-sdk";
+import { MarketConfig, MarketReserveStrategy } from "../configs/market";
+import { EModeConfig } from "../configs/pool";
+
+// limits from reserve_config.move
+export const MAX_VALID_DECIMALS = 18n;
+export const MAX_VALID_DEBT_CEILING = 1099511627775n;
+// limit from pool_fee_manager.move, 10 APT in octas
+export const MAX_APT_FEE = 1000000000n;
+
+const PERCENTAGE_FACTOR = BigInt(consts.PERCENTAGE_FACTOR);
+
+// same rounding as math_utils::percent_mul
+const percentMul = (value: bigint, percentage: bigint): bigint =>
+  (value * percentage + PERCENTAGE_FACTOR / 2n) / PERCENTAGE_FACTOR;
+
+// Checks a strategy against the rules the pool configurator enforces on-chain, without sending anything
+export function validateReserveStrategy(strategy: MarketReserveStrategy, eModes: Array<EModeConfig>): Array<string> {
+  const errors: Array<string> = [];
+  const ltv = BigInt(strategy.baseLTVAsCollateral);
+  const liquidationThreshold = BigInt(strategy.liquidationThreshold);
+  const liquidationBonus = BigInt(strategy.liquidationBonus);
+
+  if (ltv > liquidationThreshold) {
+    errors.push(`baseLTVAsCollateral ${ltv} is above liquidationThreshold ${liquidationThreshold}`);
+  }
+  if (liquidationThreshold !== 0n) {
+    if (liquidationBonus <= PERCENTAGE_FACTOR) {
+      errors.push(`liquidationBonus ${liquidationBonus} must be above ${PERCENTAGE_FACTOR}`);
+    } else if (percentMul(liquidationThreshold, liquidationBonus) > PERCENTAGE_FACTOR) {
+      errors.push(
+        `liquidationThreshold ${liquidationThreshold} x liquidationBonus ${liquidationBonus} exceeds ${PERCENTAGE_FACTOR}`,
+      );
+    }
+  } else if (liquidationBonus !== 0n) {
+    errors.push(`liquidationBonus must be 0 when liquidationThreshold is 0, got ${liquidationBonus}`);
+  }
+
+  if (BigInt(strategy.liquidationProtocolFee) > PERCENTAGE_FACTOR) {
+    errors.push(`liquidationProtocolFee ${strategy.liquidationProtocolFee} exceeds ${PERCENTAGE_FACTOR}`);
+  }
+  if (BigInt(strategy.reserveFactor) > PERCENTAGE_FACTOR) {
+    errors.push(`reserveFactor ${strategy.reserveFactor} exceeds ${PERCENTAGE_FACTOR}`);
+  }
+  if (BigInt(strategy.borrowCap) > BigInt(consts.MAX_BORROW_CAP)) {
+    errors.push(`borrowCap ${strategy.borrowCap} exceeds ${consts.MAX_BORROW_CAP}`);
+  }
+  if (BigInt(strategy.supplyCap) > BigInt(consts.MAX_SUPPLY_CAP)) {
+    errors.push(`supplyCap ${strategy.supplyCap} exceeds ${consts.MAX_SUPPLY_CAP}`);
+  }
+  if (BigInt(strategy.debtCeiling) > MAX_VALID_DEBT_CEILING) {
+    errors.push(`debtCeiling ${strategy.debtCeiling} exceeds ${MAX_VALID_DEBT_CEILING}`);
+  }
+  if (BigInt(strategy.reserveDecimals) > MAX_VALID_DECIMALS) {
+    errors.push(`reserveDecimals ${strategy.reserveDecimals} exceeds ${MAX_VALID_DECIMALS}`);
+  }
+  if (BigInt(strategy.aptFee ?? 0) > MAX_APT_FEE) {
+    errors.push(`aptFee ${strategy.aptFee} exceeds ${MAX_APT_FEE}`);
+  }
+
+  if (strategy.emode !== 0) {
+    const eMode = eModes.find((item) => item.categoryId === strategy.emode);
+    if (!eMode) {
+      errors.push(`eMode category ${strategy.emode} does not exist`);
+    } else {
+      // an eMode category has to be strictly more permissive than the reserves in it
+      if (BigInt(eMode.ltv) <= ltv) {
+        errors.push(`eMode category ${strategy.emode} ltv ${eMode.ltv} must be above baseLTVAsCollateral ${ltv}`);
+      }
+      if (BigInt(eMode.liquidationThreshold) <= liquidationThreshold) {
+        errors.push(
+          `eMode category ${strategy.emode} liquidationThreshold ${eMode.liquidationThreshold} must be above ${liquidationThreshold}`,
+        );
+      }
+    }
+  }
+
+  return errors;
+}
+
+// Checks an eMode category against the rules of pool_configurator::set_emode_category
+export function validateEModeCategory(eMode: EModeConfig): Array<string> {
+  const errors: Array<string> = [];
+  const ltv = BigInt(eMode.ltv);
+  const liquidationThreshold = BigInt(eMode.liquidationThreshold);
+  const liquidationBonus = BigInt(eMode.liquidationBonus);
+
+  if (ltv === 0n) {
+    errors.push("ltv must not be 0");
+  }
+  if (liquidationThreshold === 0n) {
+    errors.push("liquidationThreshold must not be 0");
+  }
+  if (ltv > liquidationThreshold) {
+    errors.push(`ltv ${ltv} is above liquidationThreshold ${liquidationThreshold}`);
+  }
+  if (liquidationBonus <= PERCENTAGE_FACTOR) {
+    errors.push(`liquidationBonus ${liquidationBonus} must be above ${PERCENTAGE_FACTOR}`);
+  } else if (percentMul(liquidationThreshold, liquidationBonus) > PERCENTAGE_FACTOR) {
+    errors.push(
+      `liquidationThreshold ${liquidationThreshold} x liquidationBonus ${liquidationBonus} exceeds ${PERCENTAGE_FACTOR}`,
+    );
+  }
+
+  return errors;
+}
+
+export function validateMarketStrategies(market: MarketConfig): Array<string> {
+  const errors: Array<string> = [];
+  for (const eMode of market.eModes) {
+    for (const error of validateEModeCategory(eMode)) {
+      errors.push(`eMode category ${eMode.categoryId}: ${error}`);
+    }
+  }
+  for (const reserve of market.reserves) {
+    if (reserve.decimals < 0 || BigInt(reserve.decimals) > MAX_VALID_DECIMALS) {
+      errors.push(`${reserve.symbol}: decimals ${reserve.decimals} must be between 0 and ${MAX_VALID_DECIMALS}`);
+    }
+    for (const error of validateReserveStrategy(reserve.strategy, market.eModes)) {
+      errors.push(`${reserve.symbol}: ${error}`);
+    }
+  }
+  return errors;
+}
+
+export function assertValidMarketStrategies(market: MarketConfig) {
+  const errors = validateMarketStrategies(market);
+  if (errors.length > 0) {
+    throw new Error(`Invalid reserve strategies in market ${market.name}:\n  - ${errors.join("\n  - ")}`);
+  }
+}
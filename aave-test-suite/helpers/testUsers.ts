@@ -0,0 +1,107 @@
+import { Account, AccountAddress, Ed25519Account } from "@aptos-labs/ts-sdk";
+import { AAVE_PROFILES, AptosProvider, consts, CoreClient, UnderlyingTokensClient } from "@aave/aave-v3-aptos-ts-sdk";
+import { parseUnits } from "ethers";
+
+export interface TestUserOptions {
+  // octas sent from the DEFAULT_FUNDER profile, defaults to DEFAULT_FUND_AMOUNT
+  apt?: bigint;
+  // underlying symbol to whole tokens minted to the user
+  mint?: Record<string, string>;
+  // underlying symbol to whole tokens supplied on top of what is minted
+  supply?: Record<string, string>;
+}
+
+export interface TestUserReport {
+  address: string;
+  funded: bigint;
+  // octas sent back to the funder on teardown
+  returned: bigint;
+}
+
+// gas budget kept by a user to send its APT back to the funder
+const TEARDOWN_MAX_GAS_AMOUNT = 2000;
+const TEARDOWN_GAS_UNIT_PRICE = 100;
+
+const createdUsers: Array<{ account: Ed25519Account; funded: bigint }> = [];
+
+const defaultFundAmount = (): bigint => BigInt(process.env.DEFAULT_FUND_AMOUNT ?? 100000000);
+
+async function transferApt(aptosProvider: AptosProvider, sender: Account, recipient: AccountAddress, amount: bigint) {
+  const aptos = aptosProvider.getAptos();
+  const transaction = await aptos.transferCoinTransaction({
+    sender: sender.accountAddress,
+    recipient,
+    amount,
+    options: { maxGasAmount: TEARDOWN_MAX_GAS_AMOUNT, gasUnitPrice: TEARDOWN_GAS_UNIT_PRICE },
+  });
+  const pending = await aptos.signAndSubmitTransaction({ signer: sender, transaction });
+  return aptos.waitForTransaction({ transactionHash: pending.hash });
+}
+
+// Creates a fresh account funded with APT, and optionally with minted and supplied underlyings
+export async function createTestUser(options: TestUserOptions = {}): Promise<Ed25519Account> {
+  const aptosProvider = AptosProvider.fromEnvs();
+  const underlyingTokensClient = new UnderlyingTokensClient(aptosProvider, aptosProvider.getUnderlyingTokensProfileAccount());
+  const coreClient = new CoreClient(aptosProvider, aptosProvider.getPoolProfileAccount());
+
+  const user = Account.generate();
+  const funded = options.apt ?? defaultFundAmount();
+  const funder = aptosProvider.getProfileAccountByName(AAVE_PROFILES.DEFAULT_FUNDER);
+  await transferApt(aptosProvider, funder, user.accountAddress, funded);
+  createdUsers.push({ account: user, funded });
+
+  const symbols = new Set([...Object.keys(options.mint ?? {}), ...Object.keys(options.supply ?? {})]);
+  for (const symbol of symbols) {
+    const asset = await underlyingTokensClient.getMetadataBySymbol(symbol);
+    const decimals = Number(await underlyingTokensClient.decimals(asset));
+    const minted = parseUnits(options.mint?.[symbol] ?? "0", decimals);
+    const supplied = parseUnits(options.supply?.[symbol] ?? "0", decimals);
+    await underlyingTokensClient.mint(user.accountAddress, minted + supplied, asset);
+    if (supplied > 0n) {
+      await coreClient.withSigner(user).supply(asset, supplied, user.accountAddress, consts.AAVE_REFERRAL);
+    }
+  }
+  return user;
+}
+
+export async function createTestUsers(count: number, options: TestUserOptions = {}): Promise<Array<Ed25519Account>> {
+  const users: Array<Ed25519Account> = [];
+  for (let i = 0; i < count; i++) {
+    users.push(await createTestUser(options));
+  }
+  return users;
+}
+
+// Sends the APT left by every user created so far back to the funder and reports them, their tokens stay behind.
+// A user whose transfer fails stays registered, so the next teardown retries it.
+export async function teardownTestUsers(): Promise<Array<TestUserReport>> {
+  const aptosProvider = AptosProvider.fromEnvs();
+  const funder = aptosProvider.getProfileAccountByName(AAVE_PROFILES.DEFAULT_FUNDER);
+  const reports: Array<TestUserReport> = [];
+  const failures: Array<string> = [];
+  for (const user of [...createdUsers]) {
+    const { account, funded } = user;
+    try {
+      const balance = BigInt(await aptosProvider.getAptos().getAccountAPTAmount({ accountAddress: account.accountAddress }));
+      const returned = balance - BigInt(TEARDOWN_MAX_GAS_AMOUNT * TEARDOWN_GAS_UNIT_PRICE);
+      if (returned > 0n) {
+        await transferApt(aptosProvider, account, funder.accountAddress, returned);
+      }
+      createdUsers.splice(createdUsers.indexOf(user), 1);
+      reports.push({ address: account.accountAddress.toString(), funded, returned: returned > 0n ? returned : 0n });
+    } catch (err) {
+      failures.push(`${account.accountAddress.toString()}: ${String(err)}`);
+    }
+  }
+  if (reports.length > 0) {
+    console.log(
+      `Tore down ${reports.length} test users:\n${reports
+        .map(({ address, funded, returned }) => `  ${address}: funded ${funded}, returned ${returned} octas`)
+        .join("\n")}`,
+    );
+  }
+  if (failures.length > 0) {
+    throw new Error(`Could not tear down ${failures.length} test users:\n  ${failures.join("\n  ")}`);
+  }
+  return reports;
+}
@@ -1,4 +1,5 @@
 import type { Config } from "jest";
+import { withRevertTimeout } from "./helpers/localnet";
 
 const config: Config = {
   verbose: true,
@@ -24,6 +25,10 @@ const config: Config = {
   coverageDirectory: "coverage",
   coverageReporters: ["lcov"],
   setupFiles: ["dotenv/config"],
+  // registers toAbortWith, and records gas usage with REPORT_GAS=true
+  setupFilesAfterEnv: ["<rootDir>/helpers/jestMatchers.ts", "<rootDir>/helpers/jestGasRecorder.ts"],
+  globalSetup: "<rootDir>/helpers/gasReportSetup.ts",
+  globalTeardown: "<rootDir>/helpers/gasReportTeardown.ts",
   // coverageThreshold: {
   //   global: {
   //     branches: 50, // 90,
@@ -32,7 +37,8 @@ const config: Config = {
   //     statements: 50, // 95,
   //   },
   // },
-  testTimeout: 30000, // Add global timeout here
+  // initializeMakeSuite restarting the localnet from its initData snapshot takes longer than a test
+  testTimeout: withRevertTimeout(30000), // Add global timeout here
   // To help avoid exhausting all the available fds.
   maxWorkers: 1,
 };
@@ -0,0 +1,98 @@
+import { AccountAddress, isUserTransactionResponse } from "@aptos-labs/ts-sdk";
+import { AAVE_PROFILES, AptosProvider, PoolClient } from "@aave/aave-v3-aptos-ts-sdk";
+import { getEvents } from "../helpers/events";
+import { FeeManagerClient } from "../helpers/feeManager";
+
+// the fullnode API returns at most 100 transactions per page
+const TRANSACTIONS_PAGE_SIZE = 100;
+// versions scanned when no first version is given, 100 pages
+export const DEFAULT_SCANNED_VERSIONS = 10_000n;
+
+// Amounts are strings in octas so the report survives JSON
+export interface ReserveAptFeeReport {
+  symbol: string;
+  asset: string;
+  // fee currently charged per supply, withdraw, borrow and repay
+  aptFee: string;
+  // FeeCollected events of the scanned versions
+  collectedCount: number;
+  collected: string;
+}
+
+export interface AptFeeReport {
+  network: string;
+  feeCollector: string;
+  // versions scanned for FeeCollected events, both included
+  fromVersion: string;
+  toVersion: string;
+  // get_total_fees, withdrawals do not lower it
+  totalFees: string;
+  // sum of the scanned FeeCollected events, equal to totalFees when scanning from version 0
+  scannedFees: string;
+  feeCollectorBalance: string;
+  reserves: Array<ReserveAptFeeReport>;
+}
+
+// Sums the FeeCollected events of the pool per asset, going through every transaction between the two versions
+async function scanCollectedFees(
+  aptosProvider: AptosProvider,
+  fromVersion: bigint,
+  toVersion: bigint,
+): Promise<Map<string, { count: number; amount: bigint }>> {
+  const pool = aptosProvider.getProfileAddressByName(AAVE_PROFILES.AAVE_POOL);
+  const collected = new Map<string, { count: number; amount: bigint }>();
+  for (let offset = fromVersion; offset <= toVersion; offset += BigInt(TRANSACTIONS_PAGE_SIZE)) {
+    const limit = Math.min(TRANSACTIONS_PAGE_SIZE, Number(toVersion - offset + 1n));
+    const transactions = await aptosProvider.getAptos().getTransactions({ options: { offset, limit } });
+    for (const tx of transactions.filter(isUserTransactionResponse)) {
+      for (const { type, data } of getEvents(tx, "FeeCollected")) {
+        // getEvents does not check the package, another deployment of the pool could emit the same event
+        if (!AccountAddress.from(type.split("::")[0], { maxMissingChars: 63 }).equals(pool)) {
+          continue;
+        }
+        const totals = collected.get(data.asset) ?? { count: 0, amount: 0n };
+        collected.set(data.asset, { count: totals.count + 1, amount: totals.amount + data.amount });
+      }
+    }
+  }
+  return collected;
+}
+
+// Reads the APT fee of every listed reserve and what the pool collected for it since `fromVersion`, by default over
+// the last DEFAULT_SCANNED_VERSIONS versions. Versions pruned by the fullnode are skipped.
+export async function getAptFeeReport(fromVersion?: bigint): Promise<AptFeeReport> {
+  // global aptos provider
+  const aptosProvider = AptosProvider.fromEnvs();
+  const poolClient = new PoolClient(aptosProvider);
+  const feeManagerClient = new FeeManagerClient(aptosProvider);
+
+  const { ledger_version, oldest_ledger_version } = await aptosProvider.getAptos().getLedgerInfo();
+  const toVersion = BigInt(ledger_version);
+  const requestedFromVersion = fromVersion ?? toVersion - DEFAULT_SCANNED_VERSIONS + 1n;
+  const oldestVersion = BigInt(oldest_ledger_version);
+  const scannedFromVersion = requestedFromVersion > oldestVersion ? requestedFromVersion : oldestVersion;
+  const collected = await scanCollectedFees(aptosProvider, scannedFromVersion, toVersion);
+
+  const reserves: Array<ReserveAptFeeReport> = [];
+  for (const { symbol, tokenAddress } of await poolClient.getAllReservesTokens()) {
+    const { count, amount } = collected.get(tokenAddress.toStringLong()) ?? { count: 0, amount: 0n };
+    reserves.push({
+      symbol,
+      asset: tokenAddress.toString(),
+      aptFee: (await feeManagerClient.getAptFee(tokenAddress)).toString(),
+      collectedCount: count,
+      collected: amount.toString(),
+    });
+  }
+
+  return {
+    network: aptosProvider.getNetwork().toString(),
+    feeCollector: (await feeManagerClient.getFeeCollectorAddress()).toString(),
+    fromVersion: scannedFromVersion.toString(),
+    toVersion: toVersion.toString(),
+    totalFees: (await feeManagerClient.getTotalFees()).toString(),
+    scannedFees: [...collected.values()].reduce((total, { amount }) => total + amount, 0n).toString(),
+    feeCollectorBalance: (await feeManagerClient.getFeeCollectorAptBalance()).toString(),
+    reserves,
+  };
+}
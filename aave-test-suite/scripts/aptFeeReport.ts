@@ -0,0 +1,44 @@
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import chalk from "chalk";
+import { getAptFeeReport } from "./aptFeeAccounting";
+
+(async () => {
+  const { values } = parseArgs({
+    options: {
+      // first ledger version to scan for collected fees, the last DEFAULT_SCANNED_VERSIONS versions when missing.
+      // Scanning a long lived network from 0 takes a while
+      "from-version": { type: "string" },
+      // write the JSON report to this file
+      report: { type: "string" },
+      // print only the JSON report on stdout
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  const report = await getAptFeeReport(
+    values["from-version"] === undefined ? undefined : BigInt(values["from-version"]),
+  );
+
+  if (values.report) {
+    fs.mkdirSync(path.dirname(path.resolve(values.report)), { recursive: true });
+    fs.writeFileSync(values.report, JSON.stringify(report, null, 2), { encoding: "utf8" });
+  }
+
+  if (values.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  console.log(
+    chalk.cyan(`apt fees on ${report.network}, versions ${report.fromVersion} to ${report.toVersion} (octas)...`),
+  );
+  for (const reserve of report.reserves) {
+    console.log(chalk.yellow(`  ${reserve.symbol} (fee ${reserve.aptFee})`));
+    console.log(`      collected: ${reserve.collected} in ${reserve.collectedCount} operation(s)`);
+  }
+  console.log(chalk.cyan(`fee collector ${report.feeCollector}`));
+  console.log(`      total fees: ${report.totalFees}, scanned: ${report.scannedFees}`);
+  console.log(`      balance: ${report.feeCollectorBalance}`);
+})();
@@ -0,0 +1,48 @@
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import chalk from "chalk";
+import { defaultMarketConfig, loadMarketConfig } from "../configs/market";
+import { checkMarketDrift, ReserveDriftStatus } from "./marketDrift";
+
+(async () => {
+  const { values } = parseArgs({
+    options: {
+      // path to a .yaml/.json market definition, defaults to the market in configs/
+      market: { type: "string" },
+      // write the JSON report to this file
+      report: { type: "string" },
+      // print only the JSON report on stdout
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  const market = values.market ? loadMarketConfig(values.market) : defaultMarketConfig();
+  const report = await checkMarketDrift(market);
+
+  if (values.report) {
+    fs.mkdirSync(path.dirname(path.resolve(values.report)), { recursive: true });
+    fs.writeFileSync(values.report, JSON.stringify(report, null, 2), { encoding: "utf8" });
+  }
+
+  if (values.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(chalk.cyan(`checking market ${report.market} on ${report.network}...`));
+    for (const reserve of report.reserves) {
+      if (reserve.status === ReserveDriftStatus.OK) {
+        console.log(chalk.green(`  ${reserve.symbol}: ok`));
+        continue;
+      }
+      console.log(chalk.red(`  ${reserve.symbol}: ${reserve.status}`));
+      for (const mismatch of reserve.mismatches) {
+        console.log(chalk.red(`      ${mismatch.field}: expected ${mismatch.expected}, found ${mismatch.actual}`));
+      }
+    }
+    console.log(report.inSync ? chalk.green("market matches its config") : chalk.red("market drifted from its config"));
+  }
+
+  if (!report.inSync) {
+    process.exitCode = 1;
+  }
+})();
@@ -0,0 +1,71 @@
+import { BigNumber } from "@ethersproject/bignumber";
+import { AptosProvider, ATokensClient, PoolClient } from "@aave/aave-v3-aptos-ts-sdk";
+import { calcExpectedMintToTreasury, calcProjectedMintToTreasury } from "../helpers/calculations";
+import { CollectorClient } from "../helpers/collector";
+import { getReserveSnapshot } from "../helpers/snapshots";
+
+// Amounts are strings so the report survives JSON, aToken amounts are not scaled unless the field says so
+export interface ReserveTreasuryReport {
+  symbol: string;
+  asset: string;
+  aToken: string;
+  treasury: string;
+  // reserve factor income only shows up in get_collected_fees when the reserve mints to the collector
+  treasuryIsCollector: boolean;
+  reserveFactor: string;
+  accruedToTreasuryScaled: string;
+  // what mint_to_treasury would mint right now
+  mintableToTreasury: string;
+  // what it would mint once the interest since the last reserve update has accrued
+  projectedMintToTreasury: string;
+  treasuryBalance: string;
+  // get_collected_fees, scaled
+  collectedFeesScaled: string;
+}
+
+export interface CollectorReport {
+  network: string;
+  collector: string;
+  timestamp: number;
+  reserves: Array<ReserveTreasuryReport>;
+}
+
+// Reads what every listed reserve accrued to its treasury and what the collector holds
+export async function getCollectorReport(): Promise<CollectorReport> {
+  // global aptos provider
+  const aptosProvider = AptosProvider.fromEnvs();
+  const poolClient = new PoolClient(aptosProvider);
+  const aTokensClient = new ATokensClient(aptosProvider);
+  const collectorClient = new CollectorClient(aptosProvider);
+
+  const collector = await collectorClient.collectorAddress();
+  const { ledger_timestamp } = await aptosProvider.getAptos().getLedgerInfo();
+  const timestamp = Math.floor(Number(ledger_timestamp) / 1e6);
+
+  const reserves: Array<ReserveTreasuryReport> = [];
+  for (const { symbol, tokenAddress } of await poolClient.getAllReservesTokens()) {
+    const reserveData = await getReserveSnapshot(aptosProvider, tokenAddress);
+    const { aTokenAddress } = await poolClient.getReserveData(tokenAddress);
+    const treasury = await aTokensClient.getReserveTreasuryAddress(aTokenAddress);
+    reserves.push({
+      symbol,
+      asset: tokenAddress.toString(),
+      aToken: aTokenAddress.toString(),
+      treasury: treasury.toString(),
+      treasuryIsCollector: treasury.equals(collector),
+      reserveFactor: reserveData.reserveFactor.toString(),
+      accruedToTreasuryScaled: reserveData.accruedToTreasuryScaled.toString(),
+      mintableToTreasury: calcExpectedMintToTreasury(reserveData, BigNumber.from(timestamp)).toString(),
+      projectedMintToTreasury: calcProjectedMintToTreasury(reserveData, BigNumber.from(timestamp)).toString(),
+      treasuryBalance: (await aTokensClient.balanceOf(treasury, aTokenAddress)).toString(),
+      collectedFeesScaled: (await collectorClient.getCollectedFees(aTokenAddress)).toString(),
+    });
+  }
+
+  return {
+    network: aptosProvider.getNetwork().toString(),
+    collector: collector.toString(),
+    timestamp,
+    reserves,
+  };
+}
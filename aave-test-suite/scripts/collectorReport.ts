@@ -0,0 +1,39 @@
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import chalk from "chalk";
+import { getCollectorReport } from "./collectorAccounting";
+
+(async () => {
+  const { values } = parseArgs({
+    options: {
+      // write the JSON report to this file
+      report: { type: "string" },
+      // print only the JSON report on stdout
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  const report = await getCollectorReport();
+
+  if (values.report) {
+    fs.mkdirSync(path.dirname(path.resolve(values.report)), { recursive: true });
+    fs.writeFileSync(values.report, JSON.stringify(report, null, 2), { encoding: "utf8" });
+  }
+
+  if (values.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  console.log(chalk.cyan(`collector ${report.collector} on ${report.network} at ${report.timestamp}...`));
+  for (const reserve of report.reserves) {
+    console.log(chalk.yellow(`  ${reserve.symbol} (reserve factor ${reserve.reserveFactor} bps)`));
+    console.log(`      accrued to treasury (scaled): ${reserve.accruedToTreasuryScaled}`);
+    console.log(`      mintable now: ${reserve.mintableToTreasury}, projected: ${reserve.projectedMintToTreasury}`);
+    console.log(`      treasury balance: ${reserve.treasuryBalance}, collected fees (scaled): ${reserve.collectedFeesScaled}`);
+    if (!reserve.treasuryIsCollector) {
+      console.log(chalk.gray(`      treasury ${reserve.treasury} is not the collector, its income is not collected fees`));
+    }
+  }
+})();
@@ -4,133 +4,89 @@ import {
   AptosProvider,
   PoolClient,
 } from "@aave/aave-v3-aptos-ts-sdk";
-import { strategyAAVE, strategyDAI, strategyLINK, strategyUSDC, strategyWBTC, strategyWETH } from "../configs/pool";
-import { AAVE, DAI, LINK, underlyingTokens, USDC, WBTC, WETH } from "../configs/config";
+import { underlyingTokens } from "../configs/config";
+import { defaultMarketConfig, MarketConfig } from "../configs/market";
+import { DeploymentState, DeploymentStep } from "../helpers/deploymentState";
+import { FeeManagerClient } from "../helpers/feeManager";
+import {
+  desiredReserveConfigValues,
+  diffReserveConfig,
+  fetchReserveConfigValues,
+  planChanges,
+  ReservePlan,
+} from "../helpers/reservePlan";
+import { assertValidMarketStrategies } from "../helpers/strategyValidator";
 import chalk from "chalk";
 
-async function getReserveInfo() {
-  // get assets addresses
-  const assets: Array<AccountAddress> = [];
-  const dai = underlyingTokens.find((token) => token.symbol === DAI).accountAddress;
-  const weth = underlyingTokens.find((token) => token.symbol === WETH).accountAddress;
-  const usdc = underlyingTokens.find((token) => token.symbol === USDC).accountAddress;
-  const aave = underlyingTokens.find((token) => token.symbol === AAVE).accountAddress;
-  const link = underlyingTokens.find((token) => token.symbol === LINK).accountAddress;
-  const wbtc = underlyingTokens.find((token) => token.symbol === WBTC).accountAddress;
-  assets.push(dai);
-  assets.push(weth);
-  assets.push(usdc);
-  assets.push(aave);
-  assets.push(link);
-  assets.push(wbtc);
-
-  // get assets base ltv
-  const baseLtv: Array<string> = [];
-  baseLtv.push(strategyDAI.baseLTVAsCollateral);
-  baseLtv.push(strategyWETH.baseLTVAsCollateral);
-  baseLtv.push(strategyUSDC.baseLTVAsCollateral);
-  baseLtv.push(strategyAAVE.baseLTVAsCollateral);
-  baseLtv.push(strategyLINK.baseLTVAsCollateral);
-  baseLtv.push(strategyWBTC.baseLTVAsCollateral);
-
-  // get assets liquidation threshold
-  const liquidationThreshold: Array<string> = [];
-  liquidationThreshold.push(strategyDAI.liquidationThreshold);
-  liquidationThreshold.push(strategyWETH.liquidationThreshold);
-  liquidationThreshold.push(strategyUSDC.liquidationThreshold);
-  liquidationThreshold.push(strategyAAVE.liquidationThreshold);
-  liquidationThreshold.push(strategyLINK.liquidationThreshold);
-  liquidationThreshold.push(strategyWBTC.liquidationThreshold);
-
-  // get assets liquidation bonus
-  const liquidationBonus: Array<string> = [];
-  liquidationBonus.push(strategyDAI.liquidationBonus);
-  liquidationBonus.push(strategyWETH.liquidationBonus);
-  liquidationBonus.push(strategyUSDC.liquidationBonus);
-  liquidationBonus.push(strategyAAVE.liquidationBonus);
-  liquidationBonus.push(strategyLINK.liquidationBonus);
-  liquidationBonus.push(strategyWBTC.liquidationBonus);
-
-  // reserve_factor
-  const reserveFactor: Array<string> = [];
-  reserveFactor.push(strategyDAI.reserveFactor);
-  reserveFactor.push(strategyWETH.reserveFactor);
-  reserveFactor.push(strategyUSDC.reserveFactor);
-  reserveFactor.push(strategyAAVE.reserveFactor);
-  reserveFactor.push(strategyLINK.reserveFactor);
-  reserveFactor.push(strategyWBTC.reserveFactor);
-
-  // borrow_cap
-  const borrowCap: Array<string> = [];
-  borrowCap.push(strategyDAI.borrowCap);
-  borrowCap.push(strategyWETH.borrowCap);
-  borrowCap.push(strategyUSDC.borrowCap);
-  borrowCap.push(strategyAAVE.borrowCap);
-  borrowCap.push(strategyLINK.borrowCap);
-  borrowCap.push(strategyWBTC.borrowCap);
-
-  // supply_cap
-  const supplyCap: Array<string> = [];
-  supplyCap.push(strategyDAI.supplyCap);
-  supplyCap.push(strategyWETH.supplyCap);
-  supplyCap.push(strategyUSDC.supplyCap);
-  supplyCap.push(strategyAAVE.supplyCap);
-  supplyCap.push(strategyLINK.supplyCap);
-  supplyCap.push(strategyWBTC.supplyCap);
-
-  // borrowing_enabled
-  const borrowingEnabled: Array<boolean> = [];
-  borrowingEnabled.push(strategyDAI.borrowingEnabled);
-  borrowingEnabled.push(strategyWETH.borrowingEnabled);
-  borrowingEnabled.push(strategyUSDC.borrowingEnabled);
-  borrowingEnabled.push(strategyAAVE.borrowingEnabled);
-  borrowingEnabled.push(strategyLINK.borrowingEnabled);
-  borrowingEnabled.push(strategyWBTC.borrowingEnabled);
-
-  // flash_loan_enabled
-  const flashLoanEnabled: Array<boolean> = [];
-  flashLoanEnabled.push(strategyDAI.flashLoanEnabled);
-  flashLoanEnabled.push(strategyWETH.flashLoanEnabled);
-  flashLoanEnabled.push(strategyUSDC.flashLoanEnabled);
-  flashLoanEnabled.push(strategyAAVE.flashLoanEnabled);
-  flashLoanEnabled.push(strategyLINK.flashLoanEnabled);
-  flashLoanEnabled.push(strategyWBTC.flashLoanEnabled);
-
-   // flash_loan_enabled
-   const emodes: Array<number> = [];
-   emodes.push(strategyDAI.emode);
-   emodes.push(strategyWETH.emode);
-   emodes.push(strategyUSDC.emode);
-   emodes.push(strategyAAVE.emode);
-   emodes.push(strategyLINK.emode);
-   emodes.push(strategyWBTC.emode);
-
-   // borrowable in isolation
-   const borrowableIsolation: Array<boolean> = [];
-   borrowableIsolation.push(strategyDAI.borrowableIsolation);
-   borrowableIsolation.push(strategyWETH.borrowableIsolation);
-   borrowableIsolation.push(strategyUSDC.borrowableIsolation);
-   borrowableIsolation.push(strategyAAVE.borrowableIsolation);
-   borrowableIsolation.push(strategyLINK.borrowableIsolation);
-   borrowableIsolation.push(strategyWBTC.borrowableIsolation);
+// Prints the plans the way terraform prints a plan: one block per reserve, one line per changed value
+function printReservePlans(plans: Array<ReservePlan>) {
+  for (const plan of plans) {
+    if (plan.changes.length === 0) {
+      console.log(chalk.gray(`  reserve ${plan.symbol} (${plan.asset.toString()}): no changes`));
+      continue;
+    }
+    console.log(chalk.yellow(`  ~ reserve ${plan.symbol} (${plan.asset.toString()})`));
+    for (const change of plan.changes) {
+      console.log(chalk.yellow(`      ~ ${change.field}: ${change.current} -> ${change.desired}`));
+    }
+  }
+  const changedReserves = plans.filter((plan) => plan.changes.length > 0).length;
+  const changedFields = plans.reduce((total, plan) => total + plan.changes.length, 0);
+  console.log(chalk.cyan(`Plan: ${changedReserves} reserve(s) to change, ${changedFields} value(s) to update.`));
+}
+
+async function getReserveInfo(market: MarketConfig) {
+  // get assets addresses and their strategies, in market order
+  const assets: Array<AccountAddress> = market.reserves.map(
+    (reserve) => underlyingTokens.find((token) => token.symbol === reserve.symbol).accountAddress,
+  );
+  const strategies = market.reserves.map((reserve) => reserve.strategy);
 
   return {
+    symbols: market.reserves.map((reserve) => reserve.symbol),
     assets,
-    baseLtv,
-    liquidationThreshold,
-    liquidationBonus,
-    reserveFactor,
-    borrowCap,
-    supplyCap,
-    borrowingEnabled,
-    flashLoanEnabled,
-    emodes,
-    borrowableIsolation,
+    baseLtv: strategies.map((strategy) => strategy.baseLTVAsCollateral),
+    liquidationThreshold: strategies.map((strategy) => strategy.liquidationThreshold),
+    liquidationBonus: strategies.map((strategy) => strategy.liquidationBonus),
+    reserveFactor: strategies.map((strategy) => strategy.reserveFactor),
+    borrowCap: strategies.map((strategy) => strategy.borrowCap),
+    supplyCap: strategies.map((strategy) => strategy.supplyCap),
+    debtCeiling: strategies.map((strategy) => strategy.debtCeiling),
+    borrowingEnabled: strategies.map((strategy) => strategy.borrowingEnabled),
+    flashLoanEnabled: strategies.map((strategy) => strategy.flashLoanEnabled),
+    emodes: strategies.map((strategy) => strategy.emode),
+    borrowableIsolation: strategies.map((strategy) => strategy.borrowableIsolation),
+    aptFees: strategies.map((strategy) => strategy.aptFee ?? "0"),
+    siloedBorrowing: strategies.map((strategy) => strategy.siloedBorrowing ?? false),
   };
 }
 
-export async function configReserves() {
+// Compares the on-chain configuration of every reserve with the market and returns what would change
+export async function planReserveConfig(market: MarketConfig = defaultMarketConfig()): Promise<Array<ReservePlan>> {
+  // global aptos provider
+  const aptosProvider = AptosProvider.fromEnvs();
+  const poolClient = new PoolClient(aptosProvider, aptosProvider.getPoolProfileAccount());
+  const feeManagerClient = new FeeManagerClient(aptosProvider);
+
+  const { symbols, assets } = await getReserveInfo(market);
+  const plans: Array<ReservePlan> = [];
+  for (const [index, reserve] of market.reserves.entries()) {
+    const current = await fetchReserveConfigValues(poolClient, feeManagerClient, assets[index]);
+    const desired = desiredReserveConfigValues(reserve.strategy);
+    plans.push({ symbol: symbols[index], asset: assets[index], changes: diffReserveConfig(current, desired) });
+  }
+  return plans;
+}
+
+// With `plan` set, only prints the differences and sends nothing
+export async function configReserves(
+  market: MarketConfig = defaultMarketConfig(),
+  state?: DeploymentState,
+  plan: boolean = false,
+) {
+  assertValidMarketStrategies(market);
   const {
+    symbols,
     assets,
     baseLtv,
     liquidationThreshold,
@@ -138,11 +94,14 @@ export async function configReserves() {
     reserveFactor,
     borrowCap,
     supplyCap,
+    debtCeiling,
     borrowingEnabled,
     flashLoanEnabled,
     emodes,
     borrowableIsolation,
-  } = await getReserveInfo();
+    aptFees,
+    siloedBorrowing,
+  } = await getReserveInfo(market);
 
   // global aptos provider
   const aptosProvider = AptosProvider.fromEnvs();
@@ -150,56 +109,122 @@ export async function configReserves() {
     aptosProvider,
     aptosProvider.getPoolProfileAccount(),
   );
+  const feeManagerClient = new FeeManagerClient(aptosProvider, aptosProvider.getPoolProfileAccount());
+
+  const plans = await planReserveConfig(market);
+  printReservePlans(plans);
+  if (plan) {
+    return;
+  }
 
   for (const index in assets) {
-    let txReceipt = await poolClient.configureReserveAsCollateral(
-      assets[index],
-      BigNumber.from(baseLtv[index]).toBigInt(),
-      BigNumber.from(liquidationThreshold[index]).toBigInt(),
-      BigNumber.from(liquidationBonus[index]).toBigInt(),
-    );
-    console.log(chalk.yellow(`Reserve ${assets[index]} configured with tx hash = ${txReceipt.hash}`));
-
-    txReceipt = await poolClient.setReserveBorrowing(
-      assets[index],
-      borrowingEnabled[index],
-    );
-    console.log(chalk.yellow(`Reserve ${assets[index]} enabled borrowing with tx hash = ${txReceipt.hash}`));
-
-    txReceipt = await poolClient.setReserveFlashLoaning(
-      assets[index],
-      flashLoanEnabled[index],
-    );
-    console.log(chalk.yellow(`Reserve ${assets[index]} enabled flashloaning with tx hash = ${txReceipt.hash}`));
-
-    txReceipt = await poolClient.setReserveFactor(
-      assets[index],
-      BigNumber.from(reserveFactor[index]).toBigInt(),
-    );
-    console.log(chalk.yellow(`Reserve ${assets[index]} set factor with tx hash = ${txReceipt.hash}`));
-
-    txReceipt = await poolClient.setBorrowCap(
-      assets[index],
-      BigNumber.from(borrowCap[index]).toBigInt(),
-    );
-    console.log(chalk.yellow(`Reserve ${assets[index]} set borrow cap with tx hash = ${txReceipt.hash}`));
-
-    txReceipt = await poolClient.setSupplyCap(
-      assets[index],
-      BigNumber.from(supplyCap[index]).toBigInt(),
-    );
-    console.log(chalk.yellow(`Reserve ${assets[index]} set supply cap with tx hash = ${txReceipt.hash}`));
-
-    txReceipt = await poolClient.setAssetEmodeCategory(
-      assets[index],
-      emodes[index],
-    );
-    console.log(chalk.yellow(`Reserve ${assets[index]} set emode ${emodes[index]} with tx hash = ${txReceipt.hash}`));
-
-    txReceipt = await poolClient.setBorrowableInIsolation(
-      assets[index],
-      borrowableIsolation[index],
-    );
-    console.log(chalk.yellow(`Reserve ${assets[index]} set borrowing in isolation ${borrowableIsolation[index]} with tx hash = ${txReceipt.hash}`));
+    if (state?.isItemDone(DeploymentStep.CONFIG_RESERVES, symbols[index])) {
+      console.log(chalk.gray(`Reserve ${symbols[index]} already configured in a previous run, skipping`));
+      continue;
+    }
+    const reservePlan = plans[index];
+    if (reservePlan.changes.length === 0) {
+      state?.markItemDone(DeploymentStep.CONFIG_RESERVES, symbols[index]);
+      continue;
+    }
+
+    let txReceipt;
+    if (planChanges(reservePlan, "ltv", "liquidationThreshold", "liquidationBonus")) {
+      txReceipt = await poolClient.configureReserveAsCollateral(
+        assets[index],
+        BigNumber.from(baseLtv[index]).toBigInt(),
+        BigNumber.from(liquidationThreshold[index]).toBigInt(),
+        BigNumber.from(liquidationBonus[index]).toBigInt(),
+      );
+      state?.recordTx(DeploymentStep.CONFIG_RESERVES, `configureReserveAsCollateral ${symbols[index]}`, txReceipt.hash);
+      console.log(chalk.yellow(`Reserve ${assets[index]} configured with tx hash = ${txReceipt.hash}`));
+    }
+
+    if (planChanges(reservePlan, "borrowingEnabled")) {
+      txReceipt = await poolClient.setReserveBorrowing(
+        assets[index],
+        borrowingEnabled[index],
+      );
+      state?.recordTx(DeploymentStep.CONFIG_RESERVES, `setReserveBorrowing ${symbols[index]}`, txReceipt.hash);
+      console.log(chalk.yellow(`Reserve ${assets[index]} enabled borrowing with tx hash = ${txReceipt.hash}`));
+    }
+
+    if (planChanges(reservePlan, "flashLoanEnabled")) {
+      txReceipt = await poolClient.setReserveFlashLoaning(
+        assets[index],
+        flashLoanEnabled[index],
+      );
+      state?.recordTx(DeploymentStep.CONFIG_RESERVES, `setReserveFlashLoaning ${symbols[index]}`, txReceipt.hash);
+      console.log(chalk.yellow(`Reserve ${assets[index]} enabled flashloaning with tx hash = ${txReceipt.hash}`));
+    }
+
+    if (planChanges(reservePlan, "reserveFactor")) {
+      txReceipt = await poolClient.setReserveFactor(
+        assets[index],
+        BigNumber.from(reserveFactor[index]).toBigInt(),
+      );
+      state?.recordTx(DeploymentStep.CONFIG_RESERVES, `setReserveFactor ${symbols[index]}`, txReceipt.hash);
+      console.log(chalk.yellow(`Reserve ${assets[index]} set factor with tx hash = ${txReceipt.hash}`));
+    }
+
+    if (planChanges(reservePlan, "borrowCap")) {
+      txReceipt = await poolClient.setBorrowCap(
+        assets[index],
+        BigNumber.from(borrowCap[index]).toBigInt(),
+      );
+      state?.recordTx(DeploymentStep.CONFIG_RESERVES, `setBorrowCap ${symbols[index]}`, txReceipt.hash);
+      console.log(chalk.yellow(`Reserve ${assets[index]} set borrow cap with tx hash = ${txReceipt.hash}`));
+    }
+
+    if (planChanges(reservePlan, "supplyCap")) {
+      txReceipt = await poolClient.setSupplyCap(
+        assets[index],
+        BigNumber.from(supplyCap[index]).toBigInt(),
+      );
+      state?.recordTx(DeploymentStep.CONFIG_RESERVES, `setSupplyCap ${symbols[index]}`, txReceipt.hash);
+      console.log(chalk.yellow(`Reserve ${assets[index]} set supply cap with tx hash = ${txReceipt.hash}`));
+    }
+
+    // a non-zero ceiling can only be set while the reserve has no suppliers, before the market opens
+    if (planChanges(reservePlan, "debtCeiling")) {
+      txReceipt = await poolClient.setDebtCeiling(
+        assets[index],
+        BigNumber.from(debtCeiling[index]).toBigInt(),
+      );
+      state?.recordTx(DeploymentStep.CONFIG_RESERVES, `setDebtCeiling ${symbols[index]}`, txReceipt.hash);
+      console.log(chalk.yellow(`Reserve ${assets[index]} set debt ceiling with tx hash = ${txReceipt.hash}`));
+    }
+
+    if (planChanges(reservePlan, "emode")) {
+      txReceipt = await poolClient.setAssetEmodeCategory(
+        assets[index],
+        emodes[index],
+      );
+      state?.recordTx(DeploymentStep.CONFIG_RESERVES, `setAssetEmodeCategory ${symbols[index]}`, txReceipt.hash);
+      console.log(chalk.yellow(`Reserve ${assets[index]} set emode ${emodes[index]} with tx hash = ${txReceipt.hash}`));
+    }
+
+    if (planChanges(reservePlan, "borrowableIsolation")) {
+      txReceipt = await poolClient.setBorrowableInIsolation(
+        assets[index],
+        borrowableIsolation[index],
+      );
+      state?.recordTx(DeploymentStep.CONFIG_RESERVES, `setBorrowableInIsolation ${symbols[index]}`, txReceipt.hash);
+      console.log(chalk.yellow(`Reserve ${assets[index]} set borrowing in isolation ${borrowableIsolation[index]} with tx hash = ${txReceipt.hash}`));
+    }
+
+    if (planChanges(reservePlan, "aptFee")) {
+      txReceipt = await feeManagerClient.setAptFee(assets[index], BigInt(aptFees[index]));
+      state?.recordTx(DeploymentStep.CONFIG_RESERVES, `setAptFee ${symbols[index]}`, txReceipt.hash);
+      console.log(chalk.yellow(`Reserve ${assets[index]} set apt fee ${aptFees[index]} with tx hash = ${txReceipt.hash}`));
+    }
+
+    if (planChanges(reservePlan, "siloedBorrowing")) {
+      txReceipt = await poolClient.setSiloedBorrowing(assets[index], siloedBorrowing[index]);
+      state?.recordTx(DeploymentStep.CONFIG_RESERVES, `setSiloedBorrowing ${symbols[index]}`, txReceipt.hash);
+      console.log(chalk.yellow(`Reserve ${assets[index]} set siloed borrowing ${siloedBorrowing[index]} with tx hash = ${txReceipt.hash}`));
+    }
+
+    state?.markItemDone(DeploymentStep.CONFIG_RESERVES, symbols[index]);
   }
 }
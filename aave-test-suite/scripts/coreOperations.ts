@@ -3,6 +3,7 @@ import { DAI, getTestAccounts, WETH } from "../configs/config";
 import chalk from "chalk";
 import { AptosProvider, CoreClient, PoolClient, UnderlyingTokensClient } from "@aave/aave-v3-aptos-ts-sdk";
 import { consts } from "@aave/aave-v3-aptos-ts-sdk";
+import { formatMoveAbort, parseMoveAbort } from "../helpers/moveAbort";
 
 (async () => {
   // global aptos provider
@@ -138,6 +139,10 @@ import { consts } from "@aave/aave-v3-aptos-ts-sdk";
     }
     console.log(chalk.yellow("Repaying assets for test user finished successfully!"));
   } catch (ex) {
+    const abort = parseMoveAbort(ex);
+    if (abort) {
+      console.error(chalk.red(`Aborted with ${formatMoveAbort(abort)}${abort.message ? `: ${abort.message}` : ""}`));
+    }
     console.error("Exception = ", ex);
   }
 })();
@@ -1,7 +1,8 @@
 import { AclClient, AptosProvider } from "@aave/aave-v3-aptos-ts-sdk";
 import chalk from "chalk";
+import { DeploymentState, DeploymentStep } from "../helpers/deploymentState";
 
-export async function createRoles() {
+export async function createRoles(state?: DeploymentState) {
   const aptosProvider = AptosProvider.fromEnvs();
   const aclClient = new AclClient(aptosProvider, aptosProvider.getAclProfileAccount());
 
@@ -11,7 +12,12 @@ export async function createRoles() {
     aptosProvider.getPoolProfileAccount(),
   ];
   for (const auth of assetListingAuthoritiesAddresses) {
+    if (await aclClient.isAssetListingAdmin(auth.accountAddress)) {
+      console.log(chalk.gray(`${auth.accountAddress.toString()} is already an asset listing authority, skipping`));
+      continue;
+    }
     const txReceipt = await aclClient.addAssetListingAdmin(auth.accountAddress);
+    state?.recordTx(DeploymentStep.CREATE_ROLES, `addAssetListingAdmin ${auth.accountAddress.toString()}`, txReceipt.hash);
     console.log(
       chalk.yellow(
         `Added ${auth.accountAddress.toString()} as an asset listing authority with tx hash = ${txReceipt.hash}`,
@@ -23,7 +29,12 @@ export async function createRoles() {
   const poolAdminManager = aptosProvider.getPoolProfileAccount();
 
   // create pool admin
+  if (await aclClient.isPoolAdmin(poolAdminManager.accountAddress)) {
+    console.log(chalk.gray(`${poolAdminManager.accountAddress.toString()} is already a pool admin, skipping`));
+    return;
+  }
   const txReceipt = await aclClient.addPoolAdmin(poolAdminManager.accountAddress);
+  state?.recordTx(DeploymentStep.CREATE_ROLES, `addPoolAdmin ${poolAdminManager.accountAddress.toString()}`, txReceipt.hash);
   chalk.yellow(
     `Added ${poolAdminManager.toString()} as a pool admin with tx hash = ${txReceipt.hash}`,
   );
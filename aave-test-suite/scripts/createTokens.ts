@@ -2,23 +2,43 @@ import { BigNumber } from "@ethersproject/bignumber";
 import chalk from "chalk";
 import { AptosProvider, UnderlyingTokensClient } from "@aave/aave-v3-aptos-ts-sdk";
 import { underlyingTokens } from "../configs/config";
+import { DEFAULT_MAX_SUPPLY, defaultMarketConfig, MarketConfig } from "../configs/market";
+import { DeploymentState, DeploymentStep } from "../helpers/deploymentState";
+import { isMoveAbort, OBJECT_DOES_NOT_EXIST } from "../helpers/moveAbort";
 
-export async function createTokens() {
+export async function createTokens(market: MarketConfig = defaultMarketConfig(), state?: DeploymentState) {
   // global aptos provider
   const aptosProvider = AptosProvider.fromEnvs();
   const underlyingTokensClient = new UnderlyingTokensClient(aptosProvider, aptosProvider.getUnderlyingTokensProfileAccount());
 
   // create underlying tokens
   for (const [index, underlyingToken] of underlyingTokens.entries()) {
-    const txReceipt = await underlyingTokensClient.createToken(
-      BigNumber.from("100000000000000000").toBigInt(),
-      underlyingToken.name,
-      underlyingToken.symbol,
-      underlyingToken.decimals,
-      "https://aptoscan.com/images/empty-coin.svg",
-      "https://aptoscan.com",
-    );
-    console.log(chalk.yellow(`Deployed underlying asset ${underlyingToken.symbol} with tx hash = ${txReceipt.hash}`));
+    // the metadata lookup aborts for symbols that were never created, any other error stops the deployment
+    const alreadyDeployed = await underlyingTokensClient
+      .getMetadataBySymbol(underlyingToken.symbol)
+      .then(() => true)
+      .catch((err) => {
+        if (isMoveAbort(err, OBJECT_DOES_NOT_EXIST)) {
+          return false;
+        }
+        throw err;
+      });
+
+    if (alreadyDeployed) {
+      console.log(chalk.gray(`Underlying asset ${underlyingToken.symbol} already deployed, skipping`));
+    } else {
+      const reserve = market.reserves.find((item) => item.symbol === underlyingToken.symbol);
+      const txReceipt = await underlyingTokensClient.createToken(
+        BigNumber.from(reserve.maxSupply ?? DEFAULT_MAX_SUPPLY).toBigInt(),
+        underlyingToken.name,
+        underlyingToken.symbol,
+        underlyingToken.decimals,
+        "https://aptoscan.com/images/empty-coin.svg",
+        "https://aptoscan.com",
+      );
+      state?.recordTx(DeploymentStep.CREATE_TOKENS, `createToken ${underlyingToken.symbol}`, txReceipt.hash);
+      console.log(chalk.yellow(`Deployed underlying asset ${underlyingToken.symbol} with tx hash = ${txReceipt.hash}`));
+    }
 
     const underlingMetadataAddress = await underlyingTokensClient.getMetadataBySymbol(underlyingToken.symbol);
     console.log(chalk.yellow(`${underlyingToken.symbol} underlying metadata address: `, underlingMetadataAddress));
@@ -0,0 +1,33 @@
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import chalk from "chalk";
+import { errorConfigPath, parseMoveErrorConstants, renderErrorCodes } from "../helpers/errorCatalogue";
+
+(async () => {
+  const { values } = parseArgs({
+    options: {
+      // fail instead of writing when helpers/errorCodes.ts is out of date
+      check: { type: "boolean", default: false },
+    },
+  });
+
+  const constants = parseMoveErrorConstants(fs.readFileSync(errorConfigPath, { encoding: "utf8" }));
+  const source = path.relative(path.resolve(__dirname, "../.."), errorConfigPath);
+  const rendered = renderErrorCodes(constants, source);
+  const outPath = path.resolve(__dirname, "../helpers/errorCodes.ts");
+
+  if (values.check) {
+    const current = fs.existsSync(outPath) ? fs.readFileSync(outPath, { encoding: "utf8" }) : "";
+    if (current !== rendered) {
+      console.log(chalk.red(`${path.basename(outPath)} is out of date with ${source}, run pnpm errors:generate`));
+      process.exitCode = 1;
+      return;
+    }
+    console.log(chalk.green(`${path.basename(outPath)} matches ${source}`));
+    return;
+  }
+
+  fs.writeFileSync(outPath, rendered, { encoding: "utf8" });
+  console.log(chalk.green(`wrote ${constants.length} error codes from ${source} to ${outPath}`));
+})();
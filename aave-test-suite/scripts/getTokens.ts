@@ -1,12 +1,10 @@
 import { AptosProvider, ATokensClient, UnderlyingTokensClient, VariableTokensClient } from "@aave/aave-v3-aptos-ts-sdk";
 import { aTokens, underlyingTokens, varTokens } from "../configs/config";
 
-export async function getTokens() {
+export async function getUnderlyingTokens() {
   // global aptos provider
   const aptosProvider = AptosProvider.fromEnvs();
   const underlyingTokensClient = new UnderlyingTokensClient(aptosProvider, aptosProvider.getUnderlyingTokensProfileAccount());
-  const aTokensClient = new ATokensClient(aptosProvider, aptosProvider.getPoolProfileAccount());
-  const varTokensClient = new VariableTokensClient(aptosProvider, aptosProvider.getPoolProfileAccount());
 
   // get underlying tokens
   for (const [, underlyingToken] of underlyingTokens.entries()) {
@@ -16,6 +14,13 @@ export async function getTokens() {
     const underlyingTokenAddress = await underlyingTokensClient.tokenAddress(underlyingToken.symbol);
     underlyingToken.accountAddress = underlyingTokenAddress;
   }
+}
+
+export async function getReserveTokens() {
+  // global aptos provider
+  const aptosProvider = AptosProvider.fromEnvs();
+  const aTokensClient = new ATokensClient(aptosProvider, aptosProvider.getPoolProfileAccount());
+  const varTokensClient = new VariableTokensClient(aptosProvider, aptosProvider.getPoolProfileAccount());
 
   // get atokens
   const poolManager = aptosProvider.getPoolProfileAccount();
@@ -38,3 +43,8 @@ export async function getTokens() {
     varToken.accountAddress = varTokenAddress;
   }
 }
+
+export async function getTokens() {
+  await getUnderlyingTokens();
+  await getReserveTokens();
+}
@@ -0,0 +1,63 @@
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import YAML from "yaml";
+import chalk from "chalk";
+import type { IAaveConfiguration } from "@aave/deploy-v3";
+import { importDeployV3Market, loadDeployV3Market } from "../helpers/deployV3Importer";
+
+(async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      // market name in this project, defaults to a slug of the deploy-v3 MarketId
+      name: { type: "string" },
+      // Aptos treasury address, defaults to the one in configs/config.ts
+      treasury: { type: "string" },
+      // output file, defaults to configs/markets/<name>.yaml
+      out: { type: "string" },
+    },
+  });
+
+  // a folder of @aave/deploy-v3/dist/markets, e.g. aave or test, or a .json export of one
+  const [source] = positionals;
+  if (!source) {
+    throw new Error("Usage: importMarket <deploy-v3 market, e.g. aave, or market.json> [--name <name>] [--treasury <address>] [--out <file>]");
+  }
+
+  let config: IAaveConfiguration;
+  if (source.endsWith(".json")) {
+    // a deploy-v3 market serialized with JSON.stringify
+    config = JSON.parse(fs.readFileSync(path.resolve(source), { encoding: "utf8" })) as IAaveConfiguration;
+  } else {
+    try {
+      config = loadDeployV3Market(source);
+    } catch (error) {
+      throw new Error(
+        `Could not load @aave/deploy-v3 market ${source} (or pass a JSON export of the market instead): ${(error as Error).message}`,
+      );
+    }
+  }
+
+  const { market, unsupported, errors } = importDeployV3Market(config, { name: values.name, treasury: values.treasury });
+
+  const outPath = path.resolve(values.out ?? path.join(__dirname, "../configs/markets", `${market.name}.yaml`));
+  fs.mkdirSync(path.dirname(outPath), { recursive: true });
+  fs.writeFileSync(outPath, YAML.stringify(market), { encoding: "utf8" });
+  console.log(chalk.green(`imported ${config.MarketId} with ${market.reserves.length} reserves into ${outPath}`));
+
+  if (unsupported.length > 0) {
+    console.log(chalk.yellow(`${unsupported.length} field(s) have no Aptos equivalent:`));
+    for (const issue of unsupported) {
+      console.log(chalk.yellow(`  ${issue.path} = ${issue.value}: ${issue.reason}`));
+    }
+  }
+
+  if (errors.length > 0) {
+    console.log(chalk.red("the imported market would be rejected on Aptos, edit it before deploying:"));
+    for (const error of errors) {
+      console.log(chalk.red(`  ${error}`));
+    }
+    process.exitCode = 1;
+  }
+})();
@@ -0,0 +1,65 @@
+import chalk from "chalk";
+import { AccountAddress, MoveOption } from "@aptos-labs/ts-sdk";
+import { BigNumber } from "@ethersproject/bignumber";
+import { AptosProvider, CoinMigratorClient, OracleClient, PoolClient } from "@aave/aave-v3-aptos-ts-sdk";
+import { TREASURY } from "../configs/config";
+import { rateStrategyStableTwo } from "../configs/pool";
+import { DEFAULT_ORACLE_PRICE, defaultMarketConfig, MarketConfig } from "../configs/market";
+import { MOCK_COIN, MockCoinClient } from "../helpers/mockCoin";
+import { rayToBps } from "../helpers/utils";
+import { setAssetCustomPriceIfChanged } from "./initOraclePrice";
+
+// Lists the fungible asset paired with the mock coin as a reserve, initializing the coin first. The pool, the oracle
+// and the tokens of the reserve only know the paired fungible asset, which is returned. Steps already done are skipped.
+export async function initCoinReserve(market: MarketConfig = defaultMarketConfig()): Promise<AccountAddress> {
+  // global aptos provider
+  const aptosProvider = AptosProvider.fromEnvs();
+  const mockCoinClient = new MockCoinClient(aptosProvider, aptosProvider.getUnderlyingTokensProfileAccount());
+  const coinMigratorClient = new CoinMigratorClient(aptosProvider);
+  const poolClient = new PoolClient(aptosProvider, aptosProvider.getPoolProfileAccount());
+  const oracleClient = new OracleClient(aptosProvider, aptosProvider.getOracleProfileAccount());
+
+  if (await mockCoinClient.isInitialized()) {
+    console.log(chalk.gray(`Coin ${mockCoinClient.coinType} already initialized, skipping`));
+  } else {
+    const txReceipt = await mockCoinClient.initialize(MOCK_COIN.name, MOCK_COIN.symbol, MOCK_COIN.decimals);
+    console.log(chalk.yellow(`Initialized coin ${mockCoinClient.coinType} with tx hash = ${txReceipt.hash}`));
+  }
+  const asset = await coinMigratorClient.getFaAddress(mockCoinClient.coinType);
+  console.log(chalk.yellow(`${MOCK_COIN.symbol} paired fungible asset address: `, asset.toString()));
+
+  const listedReserves = (await poolClient.getAllReservesTokens()).map((token) => token.tokenAddress);
+  if (listedReserves.some((listed) => listed.equals(asset))) {
+    console.log(chalk.gray(`Coin reserve ${MOCK_COIN.symbol} already initialized, skipping`));
+  } else {
+    // any rate strategy of the market works, the coin reserve is only supplied to
+    const rateStrategy = market.rateStrategies[rateStrategyStableTwo.name];
+    const txReceipt = await poolClient.initReserves(
+      [asset],
+      [TREASURY],
+      [`A${MOCK_COIN.symbol}`],
+      [`A${MOCK_COIN.symbol}`],
+      [`V${MOCK_COIN.symbol}`],
+      [`V${MOCK_COIN.symbol}`],
+      [new MoveOption<AccountAddress>()],
+      [rayToBps(BigNumber.from(rateStrategy.optimalUsageRatio)).toBigInt()],
+      [rayToBps(BigNumber.from(rateStrategy.baseVariableBorrowRate)).toBigInt()],
+      [rayToBps(BigNumber.from(rateStrategy.variableRateSlope1)).toBigInt()],
+      [rayToBps(BigNumber.from(rateStrategy.variableRateSlope2)).toBigInt()],
+    );
+    console.log(chalk.yellow(`Coin reserve ${MOCK_COIN.symbol} set with tx hash = ${txReceipt.hash}`));
+  }
+
+  const { isActive } = await poolClient.getReserveConfigurationData(asset);
+  if (!isActive) {
+    const txReceipt = await poolClient.setReserveActive(asset, true);
+    console.log(chalk.yellow(`Activated coin reserve ${MOCK_COIN.symbol} with tx hash = ${txReceipt.hash}`));
+  }
+
+  const txReceipt = await setAssetCustomPriceIfChanged(oracleClient, asset, BigInt(DEFAULT_ORACLE_PRICE));
+  if (txReceipt) {
+    console.log(chalk.yellow(`Oracle set for coin reserve ${MOCK_COIN.symbol} with tx hash = ${txReceipt.hash}`));
+  }
+
+  return asset;
+}
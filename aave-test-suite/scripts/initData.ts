@@ -1,3 +1,4 @@
+import { parseArgs } from "util";
 import { initReserveOraclePrice } from "./initOraclePrice";
 import { configReserves } from "./configReserves";
 import { initReserves } from "./initReserves";
@@ -5,48 +6,112 @@ import { createTokens } from "./createTokens";
 import { createRoles } from "./createRoles";
 import { initDefaultInterestRates } from "./initInterestRate";
 import { initEModes } from "./initEModes";
+import { initRewards, initRewardsController } from "./initRewards";
+import { getReserveTokens, getUnderlyingTokens } from "./getTokens";
+import { applyMarketConfig, defaultMarketConfig, loadMarketConfig } from "../configs/market";
+import { assertValidMarketStrategies } from "../helpers/strategyValidator";
+import { defaultDeploymentStatePath, DeploymentState, DeploymentStep } from "../helpers/deploymentState";
+import { INIT_DATA_SNAPSHOT, localnetSnapshotsEnabled, snapshotLocalnet } from "../helpers/localnet";
+import { AptosProvider } from "@aave/aave-v3-aptos-ts-sdk";
 import chalk from "chalk";
 
+// Runs a deployment step unless a resumed state already marks it as done
+async function runStep(
+  state: DeploymentState,
+  step: DeploymentStep,
+  description: string,
+  run: () => Promise<void>,
+  onSkip?: () => Promise<void>,
+) {
+  console.log(chalk.yellow("---------------------------------------------"));
+  if (state.isStepDone(step)) {
+    console.log(chalk.gray(`${description} already done, skipping`));
+    if (onSkip) {
+      await onSkip();
+    }
+    return;
+  }
+  console.log(chalk.cyan(`${description}...`));
+  await run();
+  state.markStepDone(step);
+  console.log(chalk.green(`${description} done successfully!`));
+}
+
 (async () => {
-  // step1. create roles
+  const { values } = parseArgs({
+    options: {
+      // path to a .yaml/.json market definition, defaults to the market in configs/
+      market: { type: "string" },
+      // continue a previous run from its state file instead of starting over
+      resume: { type: "boolean", default: false },
+      // state file location, defaults to deployments/<market>.<network>.json
+      state: { type: "string" },
+      // print the reserve configuration diff against the deployed market and send nothing
+      plan: { type: "boolean", default: false },
+    },
+  });
+
+  // step0. load market
+  const market = values.market ? loadMarketConfig(values.market) : defaultMarketConfig();
+  // catch what the pool configurator would reject before any transaction is sent
+  assertValidMarketStrategies(market);
+  applyMarketConfig(market);
   console.log(chalk.yellow("---------------------------------------------"));
-  console.log(chalk.cyan("creating roles..."));
-  await createRoles();
-  console.log(chalk.green("created roles successfully!"));
+  console.log(chalk.cyan(`deploying market ${market.name} with ${market.reserves.length} reserves...`));
+
+  if (values.plan) {
+    console.log(chalk.yellow("---------------------------------------------"));
+    console.log(chalk.cyan("planning reserve configuration changes..."));
+    await getUnderlyingTokens();
+    await configReserves(market, undefined, true);
+    return;
+  }
+
+  const network = AptosProvider.fromEnvs().getNetwork().toString();
+  const statePath = values.state ?? defaultDeploymentStatePath(market.name, network);
+  const state = values.resume
+    ? DeploymentState.loadOrCreate(statePath, market.name, network)
+    : DeploymentState.create(statePath, market.name, network);
+  console.log(chalk.cyan(`${values.resume ? "resuming" : "recording"} deployment state in ${statePath}`));
+
+  // step1. create roles
+  await runStep(state, DeploymentStep.CREATE_ROLES, "creating roles", () => createRoles(state));
 
   // step2. create tokens
-  console.log(chalk.yellow("---------------------------------------------"));
-  console.log(chalk.cyan("creating tokens..."));
-  await createTokens();
-  console.log(chalk.green("created tokens successfully!"));
+  await runStep(state, DeploymentStep.CREATE_TOKENS, "creating tokens", () => createTokens(market, state), getUnderlyingTokens);
 
   // step3. init emodes
-  console.log(chalk.yellow("---------------------------------------------"));
-  console.log(chalk.cyan("initializing emodes..."));
-  await initEModes();
-  console.log(chalk.green("initialized emodes successfully!"));
+  await runStep(state, DeploymentStep.INIT_EMODES, "initializing emodes", () => initEModes(market, state));
 
-  // step4. init reserves and interest rate strategies
-  console.log(chalk.yellow("---------------------------------------------"));
-  console.log(chalk.cyan("initializing reserves..."));
-  await initReserves();
-  console.log(chalk.green("initialized reserves successfully!"));
+  // step4. init rewards controller, the incentivized reserves are listed pointing to it
+  await runStep(state, DeploymentStep.INIT_REWARDS_CONTROLLER, "initializing rewards controller", () =>
+    initRewardsController(market, state),
+  );
 
-  // step5. config reserves
-  console.log(chalk.yellow("---------------------------------------------"));
-  console.log(chalk.cyan("configuring reserves..."));
-  await configReserves();
-  console.log(chalk.green("configured reserves successfully!"));
+  // step5. init reserves and interest rate strategies
+  await runStep(state, DeploymentStep.INIT_RESERVES, "initializing reserves", () => initReserves(market, state), getReserveTokens);
 
-  // step6. init interest rate strategies
-  console.log(chalk.yellow("---------------------------------------------"));
-  console.log(chalk.cyan("initializing default interest rate strategies..."));
-  await initDefaultInterestRates();
-  console.log(chalk.green("initialized interest rate strategies successfully!"));
+  // step6. config reserves
+  await runStep(state, DeploymentStep.CONFIG_RESERVES, "configuring reserves", () => configReserves(market, state));
 
-  // step7. config oracle price
-  console.log(chalk.yellow("---------------------------------------------"));
-  console.log(chalk.cyan("configuring oracle prices..."));
-  await initReserveOraclePrice();
-  console.log(chalk.green("configured oracle prices successfully!"));
+  // step7. init interest rate strategies
+  await runStep(state, DeploymentStep.INIT_INTEREST_RATES, "initializing default interest rate strategies", () =>
+    initDefaultInterestRates(market, state),
+  );
+
+  // step8. config oracle price
+  await runStep(state, DeploymentStep.INIT_ORACLE_PRICES, "configuring oracle prices", () =>
+    initReserveOraclePrice(market, state),
+  );
+
+  // step9. init rewards, the reward needs its oracle price
+  await runStep(state, DeploymentStep.INIT_REWARDS, "initializing rewards", () => initRewards(market, state));
+
+  // checkpoint the deployed market, initializeMakeSuite restores it before every spec file
+  if (localnetSnapshotsEnabled()) {
+    console.log(chalk.yellow("---------------------------------------------"));
+    console.log(chalk.cyan(`taking localnet snapshot ${INIT_DATA_SNAPSHOT}...`));
+    await snapshotLocalnet(INIT_DATA_SNAPSHOT);
+    console.log(chalk.green(`localnet snapshot ${INIT_DATA_SNAPSHOT} taken successfully!`));
+  }
 })();
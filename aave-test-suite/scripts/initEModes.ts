@@ -1,35 +1,30 @@
 import { AptosProvider, PoolClient } from "@aave/aave-v3-aptos-ts-sdk";
+import chalk from "chalk";
+import { defaultMarketConfig, MarketConfig } from "../configs/market";
+import { EModeConfig } from "../configs/pool";
+import { DeploymentState, DeploymentStep } from "../helpers/deploymentState";
 
-export interface EModeConfig {
-  categoryId: number;
-  ltv: number;
-  liquidationThreshold: number;
-  liquidationBonus: number;
-  label: string;
-}
-
-export const eModes: Array<EModeConfig> = [
-    {
-      categoryId: 1,
-      ltv: 9000,
-      liquidationThreshold: 9300,
-      liquidationBonus: 10200,
-      label: "ETH correlated",
-    },
-    {
-      categoryId: 2,
-      ltv: 9500,
-      liquidationThreshold: 9700,
-      liquidationBonus: 10100,
-      label: "Stablecoins",
-    },
-  ];
+  async function isEModeUpToDate(poolClient: PoolClient, eMode: EModeConfig): Promise<boolean> {
+    const label = await poolClient.getEmodeEmodeLabel(eMode.categoryId);
+    const liquidationBonus = await poolClient.getEmodeEmodeLiquidationBonus(eMode.categoryId);
+    const { ltv, liquidationThreshold } = await poolClient.getUserAccountData(eMode.categoryId);
+    return (
+      label === eMode.label &&
+      Number(liquidationBonus) === eMode.liquidationBonus &&
+      Number(ltv) === eMode.ltv &&
+      Number(liquidationThreshold) === eMode.liquidationThreshold
+    );
+  }
 
-  export async function initEModes() {
+  export async function initEModes(market: MarketConfig = defaultMarketConfig(), state?: DeploymentState) {
     // global aptos provider
     const aptosProvider = AptosProvider.fromEnvs();
     const poolClient = new PoolClient(aptosProvider, aptosProvider.getPoolProfileAccount());
-    for (const eMode of eModes) {
+    for (const eMode of market.eModes) {
+        if (await isEModeUpToDate(poolClient, eMode)) {
+            console.log(chalk.gray(`Emode ${eMode.label} with id ${eMode.categoryId} already set up, skipping`));
+            continue;
+        }
         const receipt = await poolClient.setEmodeCategory(
             eMode.categoryId,
             eMode.ltv,
@@ -37,6 +32,7 @@ export const eModes: Array<EModeConfig> = [
             eMode.liquidationBonus,
             eMode.label,
         );
+        state?.recordTx(DeploymentStep.INIT_EMODES, `setEmodeCategory ${eMode.categoryId}`, receipt.hash);
         console.log(
         `Emode ${eMode.label} with id ${eMode.categoryId} was setup, tx hash ${receipt.hash}`,
         );
@@ -1,17 +1,35 @@
 import { BigNumber } from "@ethersproject/bignumber";
-import { rateStrategyStableTwo } from "../configs/pool";
 import chalk from "chalk";
-import { AclClient, AptosProvider, PoolClient } from "@aave/aave-v3-aptos-ts-sdk";
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+import { AclClient, AptosProvider, InterestRateClient, PoolClient } from "@aave/aave-v3-aptos-ts-sdk";
 import { underlyingTokens } from "../configs/config";
 import { rayToBps } from "../helpers/utils";
+import { defaultMarketConfig, MarketConfig, RateStrategyConfig, rateStrategyOf } from "../configs/market";
+import { DeploymentState, DeploymentStep } from "../helpers/deploymentState";
 
-export async function initDefaultInterestRates() {
+// on-chain values are stored in bps and read back in ray, so compare at bps precision
+async function isInterestRateStrategyUpToDate(
+  interestRateClient: InterestRateClient,
+  asset: AccountAddress,
+  rateStrategy: RateStrategyConfig,
+): Promise<boolean> {
+  const current = await interestRateClient.getReserveInterestRateStrategy(asset);
+  return (
+    rayToBps(BigNumber.from(current.optimalUsageRatio)).eq(rayToBps(BigNumber.from(rateStrategy.optimalUsageRatio))) &&
+    rayToBps(BigNumber.from(current.baseVariableBorrowRate)).eq(rayToBps(BigNumber.from(rateStrategy.baseVariableBorrowRate))) &&
+    rayToBps(BigNumber.from(current.variableRateSlope1)).eq(rayToBps(BigNumber.from(rateStrategy.variableRateSlope1))) &&
+    rayToBps(BigNumber.from(current.variableRateSlope2)).eq(rayToBps(BigNumber.from(rateStrategy.variableRateSlope2)))
+  );
+}
+
+export async function initDefaultInterestRates(market: MarketConfig = defaultMarketConfig(), state?: DeploymentState) {
   // global aptos provider
   const aptosProvider = AptosProvider.fromEnvs();
   const poolClient = new PoolClient(
     aptosProvider,
     aptosProvider.getPoolProfileAccount(),
   );
+  const interestRateClient = new InterestRateClient(aptosProvider, aptosProvider.getPoolProfileAccount());
   const aclClient = new AclClient(aptosProvider, aptosProvider.getAclProfileAccount());
   const PoolManager = aptosProvider.getPoolProfileAccount();
   const isRiskAdmin = await aclClient.isRiskAdmin(PoolManager.accountAddress);
@@ -24,16 +42,23 @@ export async function initDefaultInterestRates() {
 
   // set interest rate strategy for each reserve
   for (const [, underlyingToken] of underlyingTokens.entries()) {
+    const reserve = market.reserves.find((item) => item.symbol === underlyingToken.symbol);
+    const rateStrategy = rateStrategyOf(market, reserve);
+    if (await isInterestRateStrategyUpToDate(interestRateClient, underlyingToken.accountAddress, rateStrategy)) {
+      console.log(chalk.gray(`${underlyingToken.symbol} interest rate strategy ${reserve.rateStrategy} already set, skipping`));
+      continue;
+    }
     const txReceipt = await poolClient.updateInterestRateStrategy(
       underlyingToken.accountAddress,
-      rayToBps(BigNumber.from(rateStrategyStableTwo.optimalUsageRatio)).toBigInt(),
-      rayToBps(BigNumber.from(rateStrategyStableTwo.baseVariableBorrowRate)).toBigInt(),
-      rayToBps(BigNumber.from(rateStrategyStableTwo.variableRateSlope1)).toBigInt(),
-      rayToBps(BigNumber.from(rateStrategyStableTwo.variableRateSlope2)).toBigInt(),
+      rayToBps(BigNumber.from(rateStrategy.optimalUsageRatio)).toBigInt(),
+      rayToBps(BigNumber.from(rateStrategy.baseVariableBorrowRate)).toBigInt(),
+      rayToBps(BigNumber.from(rateStrategy.variableRateSlope1)).toBigInt(),
+      rayToBps(BigNumber.from(rateStrategy.variableRateSlope2)).toBigInt(),
     );
+    state?.recordTx(DeploymentStep.INIT_INTEREST_RATES, `updateInterestRateStrategy ${underlyingToken.symbol}`, txReceipt.hash);
     console.log(
       chalk.yellow(
-        `${underlyingToken.symbol} interest rate strategy set with tx hash`,
+        `${underlyingToken.symbol} interest rate strategy ${reserve.rateStrategy} set with tx hash`,
         txReceipt.hash,
       ),
     );
@@ -2,8 +2,28 @@ import chalk from "chalk";
 import { AccountAddress, CommittedTransactionResponse } from "@aptos-labs/ts-sdk";
 import { AclClient, AptosProvider, OracleClient, UnderlyingTokensClient } from "@aave/aave-v3-aptos-ts-sdk";
 import { aTokens, underlyingTokens, varTokens } from "../configs/config";
+import { DEFAULT_ORACLE_PRICE, defaultMarketConfig, MarketConfig } from "../configs/market";
+import { DeploymentState, DeploymentStep } from "../helpers/deploymentState";
 
-export async function initReserveOraclePrice() {
+// Sets a custom price unless the oracle already reports it. Returns undefined when nothing was sent.
+export async function setAssetCustomPriceIfChanged(
+  oracleClient: OracleClient,
+  asset: AccountAddress,
+  price: bigint,
+  state?: DeploymentState,
+): Promise<CommittedTransactionResponse | undefined> {
+  // the oracle aborts for assets without any price source
+  const currentPrice = await oracleClient.getAssetPrice(asset).catch((): bigint | undefined => undefined);
+  if (currentPrice === price) {
+    console.log(chalk.gray(`Oracle price of ${asset.toString()} is already ${price}, skipping`));
+    return undefined;
+  }
+  const txReceipt = await oracleClient.setAssetCustomPrice(asset, price);
+  state?.recordTx(DeploymentStep.INIT_ORACLE_PRICES, `setAssetCustomPrice ${asset.toString()}`, txReceipt.hash);
+  return txReceipt;
+}
+
+export async function initReserveOraclePrice(market: MarketConfig = defaultMarketConfig(), state?: DeploymentState) {
   // global aptos provider
   const aptosProvider = AptosProvider.fromEnvs();
   const oracleClient = new OracleClient(aptosProvider, aptosProvider.getOracleProfileAccount());
@@ -15,45 +35,61 @@ export async function initReserveOraclePrice() {
   if (!isAssetListingAdmin) {
     console.log(`Setting ${oracleManager.accountAddress.toString()} to be asset listing and and pool admin`);
     txReceipt = await aclClient.addAssetListingAdmin(oracleManager.accountAddress);
+    state?.recordTx(DeploymentStep.INIT_ORACLE_PRICES, `addAssetListingAdmin ${oracleManager.accountAddress.toString()}`, txReceipt.hash);
     txReceipt = await aclClient.addPoolAdmin(oracleManager.accountAddress);
+    state?.recordTx(DeploymentStep.INIT_ORACLE_PRICES, `addPoolAdmin ${oracleManager.accountAddress.toString()}`, txReceipt.hash);
   }
   console.log(`${oracleManager.accountAddress.toString()} set to be asset listing and pool admin`);
 
   // set underlying prices and feed ids
   for (const [, underlyingToken] of underlyingTokens.entries()) {
+    const reserve = market.reserves.find((item) => item.symbol === underlyingToken.symbol);
+    const price = BigInt(reserve.price ?? DEFAULT_ORACLE_PRICE);
     const underlyingToBorrow = await underlyingTokensClient.tokenAddress(underlyingToken.symbol);
-    let txReceipt = await oracleClient.setAssetCustomPrice(underlyingToBorrow, 1n);
-    console.log(
-      chalk.yellow(
-        `Oracle set for underlying asset ${underlyingToken.symbol} with address ${underlyingToBorrow.toString()} and price of 1.0. Tx hash = ${txReceipt.hash}`,
-      ),
-    );
+    const txReceipt = await setAssetCustomPriceIfChanged(oracleClient, underlyingToBorrow, price, state);
+    if (txReceipt) {
+      console.log(
+        chalk.yellow(
+          `Oracle set for underlying asset ${underlyingToken.symbol} with address ${underlyingToBorrow.toString()} and price of ${price}. Tx hash = ${txReceipt.hash}`,
+        ),
+      );
+    }
   }
 
   // set atoken price feeds
   for (const [, aToken] of aTokens.entries()) {
-    const txReceipt = await oracleClient.setAssetCustomPrice(aToken.accountAddress, 1n);
-    console.log(
-      chalk.yellow(
-        `Oracle set for atoken ${aToken.symbol} with address ${aToken.accountAddress.toString()}. Tx hash = ${txReceipt.hash}`,
-      ),
-    );
+    const reserve = market.reserves.find((item) => item.symbol === aToken.underlyingSymbol);
+    const price = BigInt(reserve.price ?? DEFAULT_ORACLE_PRICE);
+    const txReceipt = await setAssetCustomPriceIfChanged(oracleClient, aToken.accountAddress, price, state);
+    if (txReceipt) {
+      console.log(
+        chalk.yellow(
+          `Oracle set for atoken ${aToken.symbol} with address ${aToken.accountAddress.toString()}. Tx hash = ${txReceipt.hash}`,
+        ),
+      );
+    }
   }
 
   // set var token price feeds
   for (const [, varToken] of varTokens.entries()) {
-    const txReceipt = await oracleClient.setAssetCustomPrice(varToken.accountAddress, 1n);
-    console.log(
-      chalk.yellow(
-        `Oracle set for vartoken ${varToken.symbol} with address ${varToken.accountAddress.toString()}. Tx hash = ${txReceipt.hash}`,
-      ),
-    );
+    const reserve = market.reserves.find((item) => item.symbol === varToken.underlyingSymbol);
+    const price = BigInt(reserve.price ?? DEFAULT_ORACLE_PRICE);
+    const txReceipt = await setAssetCustomPriceIfChanged(oracleClient, varToken.accountAddress, price, state);
+    if (txReceipt) {
+      console.log(
+        chalk.yellow(
+          `Oracle set for vartoken ${varToken.symbol} with address ${varToken.accountAddress.toString()}. Tx hash = ${txReceipt.hash}`,
+        ),
+      );
+    }
   }
 
   // set the mapped aptos token price feed
   const mappedAptCoin = AccountAddress.fromString("0xa");
-  txReceipt = await oracleClient.setAssetCustomPrice(mappedAptCoin, 1n);
-  chalk.yellow(
-    `Oracle set by oracle for mapped coin APT with address ${mappedAptCoin.toString()}. Tx hash = ${txReceipt.hash}`,
-  );
+  txReceipt = await setAssetCustomPriceIfChanged(oracleClient, mappedAptCoin, 1n, state);
+  if (txReceipt) {
+    chalk.yellow(
+      `Oracle set by oracle for mapped coin APT with address ${mappedAptCoin.toString()}. Tx hash = ${txReceipt.hash}`,
+    );
+  }
 }
@@ -1,12 +1,14 @@
-import { AptosProvider, ATokensClient, PoolClient, UnderlyingTokensClient, VariableTokensClient, consts } from "@aave/aave-v3-aptos-ts-sdk";
+import { AptosProvider, ATokensClient, PoolClient, UnderlyingTokensClient, VariableTokensClient } from "@aave/aave-v3-aptos-ts-sdk";
 import chalk from "chalk";
 import { aTokens, underlyingTokens, varTokens } from "../configs/config";
 import { AccountAddress, MoveOption } from "@aptos-labs/ts-sdk";
 import { rayToBps } from "../helpers/utils";
 import {BigNumber} from "@ethersproject/bignumber";
-import { rateStrategyStableTwo } from "../configs/pool";
+import { defaultMarketConfig, MarketConfig, rateStrategyOf } from "../configs/market";
+import { DeploymentState, DeploymentStep } from "../helpers/deploymentState";
+import { rewardsControllerOf } from "./initRewards";
 
-export async function initReserves() {
+export async function initReserves(market: MarketConfig = defaultMarketConfig(), state?: DeploymentState) {
   // global aptos provider
   const aptosProvider = AptosProvider.fromEnvs();
   const poolManager = aptosProvider.getPoolProfileAccount();
@@ -15,34 +17,62 @@ export async function initReserves() {
   const varTokensClient = new VariableTokensClient(aptosProvider, aptosProvider.getPoolProfileAccount());
   const underlyingTokensClient = new UnderlyingTokensClient(aptosProvider, aptosProvider.getUnderlyingTokensProfileAccount());
 
+  // only list the underlyings that are not reserves yet
+  const listedReserves = (await poolClient.getAllReservesTokens()).map((token) => token.tokenAddress);
+  const pendingIndexes = [...underlyingTokens.keys()].filter(
+    (index) => !listedReserves.some((listed) => listed.equals(underlyingTokens[index].accountAddress)),
+  );
+  const pendingUnderlyingTokens = pendingIndexes.map((index) => underlyingTokens[index]);
+  const pendingATokens = pendingIndexes.map((index) => aTokens[index]);
+  const pendingVarTokens = pendingIndexes.map((index) => varTokens[index]);
+
   // create reserves input data
-  const underlyingAssets = underlyingTokens.map((token) => token.accountAddress);
-  const treasuries = underlyingTokens.map((token) => token.treasury);
-  const aTokenNames = aTokens.map((token) => token.name);
-  const aTokenSymbols = aTokens.map((token) => token.symbol);
-  const varTokenNames = varTokens.map((token) => token.name);
-  const varTokenSymbols = varTokens.map((token) => token.symbol);
-  const incentiveControllers = underlyingTokens.map((_) => new MoveOption<AccountAddress>(consts.ZERO_ADDRESS));
-  const optimalUsageRatio = underlyingTokens.map(item => rayToBps(BigNumber.from(rateStrategyStableTwo.optimalUsageRatio)).toBigInt());
-  const baseVariableBorrowRate = underlyingTokens.map(item => rayToBps(BigNumber.from(rateStrategyStableTwo.baseVariableBorrowRate)).toBigInt());
-  const variableRateSlope1 = underlyingTokens.map(item => rayToBps(BigNumber.from(rateStrategyStableTwo.variableRateSlope1)).toBigInt());
-  const variableRateSlope2 = underlyingTokens.map(item => rayToBps(BigNumber.from(rateStrategyStableTwo.variableRateSlope2)).toBigInt());
+  const underlyingAssets = pendingUnderlyingTokens.map((token) => token.accountAddress);
+  const treasuries = pendingUnderlyingTokens.map((token) => token.treasury);
+  const aTokenNames = pendingATokens.map((token) => token.name);
+  const aTokenSymbols = pendingATokens.map((token) => token.symbol);
+  const varTokenNames = pendingVarTokens.map((token) => token.name);
+  const varTokenSymbols = pendingVarTokens.map((token) => token.symbol);
+  const pendingReserves = pendingUnderlyingTokens.map((token) =>
+    market.reserves.find((reserve) => reserve.symbol === token.symbol),
+  );
+  // reserves with incentives accrue from their first supply, the others are listed without an incentives controller
+  const rewardsController = rewardsControllerOf(market);
+  const incentiveControllers = pendingReserves.map((reserve) =>
+    reserve.strategy.incentives?.length
+      ? new MoveOption<AccountAddress>(rewardsController)
+      : new MoveOption<AccountAddress>(),
+  );
+  const rateStrategies = pendingReserves.map((reserve) => rateStrategyOf(market, reserve));
+  const optimalUsageRatio = rateStrategies.map(item => rayToBps(BigNumber.from(item.optimalUsageRatio)).toBigInt());
+  const baseVariableBorrowRate = rateStrategies.map(item => rayToBps(BigNumber.from(item.baseVariableBorrowRate)).toBigInt());
+  const variableRateSlope1 = rateStrategies.map(item => rayToBps(BigNumber.from(item.variableRateSlope1)).toBigInt());
+  const variableRateSlope2 = rateStrategies.map(item => rayToBps(BigNumber.from(item.variableRateSlope2)).toBigInt());
 
   // init reserves
-  const txReceipt = await poolClient.initReserves(
-    underlyingAssets,
-    treasuries,
-    aTokenNames,
-    aTokenSymbols,
-    varTokenNames,
-    varTokenSymbols,
-    incentiveControllers,
-    optimalUsageRatio,
-    baseVariableBorrowRate,
-    variableRateSlope1,
-    variableRateSlope2
-  );
-  console.log(chalk.yellow("Reserves set with tx hash", txReceipt.hash));
+  if (pendingIndexes.length === 0) {
+    console.log(chalk.gray("All reserves already initialized, skipping"));
+  } else {
+    const txReceipt = await poolClient.initReserves(
+      underlyingAssets,
+      treasuries,
+      aTokenNames,
+      aTokenSymbols,
+      varTokenNames,
+      varTokenSymbols,
+      incentiveControllers,
+      optimalUsageRatio,
+      baseVariableBorrowRate,
+      variableRateSlope1,
+      variableRateSlope2
+    );
+    state?.recordTx(
+      DeploymentStep.INIT_RESERVES,
+      `initReserves ${pendingUnderlyingTokens.map((token) => token.symbol).join(",")}`,
+      txReceipt.hash,
+    );
+    console.log(chalk.yellow("Reserves set with tx hash", txReceipt.hash));
+  }
 
   // reserve atokens
   for (const [, aToken] of aTokens.entries()) {
@@ -80,8 +110,14 @@ export async function initReserves() {
   // NOTE: all other params come from the pool reserve configurations
   for (const reserveUnderlyingToken of allReserveUnderlyingTokens) {
     const underlyingSymbol = await underlyingTokensClient.symbol(reserveUnderlyingToken.tokenAddress);
+    const { isActive } = await poolClient.getReserveConfigurationData(reserveUnderlyingToken.tokenAddress);
+    if (isActive) {
+      console.log(chalk.gray(`Pool reserve ${underlyingSymbol.toUpperCase()} already active, skipping`));
+      continue;
+    }
     // set reserve active
     let txReceipt = await poolClient.setReserveActive(reserveUnderlyingToken.tokenAddress, true);
+    state?.recordTx(DeploymentStep.INIT_RESERVES, `setReserveActive ${underlyingSymbol.toUpperCase()}`, txReceipt.hash);
     console.log(
       chalk.yellow(`Activated pool reserve ${underlyingSymbol.toUpperCase()}.
       Tx hash = ${txReceipt.hash}`),
@@ -0,0 +1,157 @@
+import chalk from "chalk";
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+import { parseUnits } from "ethers";
+import {
+  AclClient,
+  AptosProvider,
+  EmissionManagerClient,
+  RewardsControllerClient,
+  UnderlyingTokensClient,
+} from "@aave/aave-v3-aptos-ts-sdk";
+import { aTokens, getLedgerTimestamp } from "../configs/config";
+import { defaultMarketConfig, MarketConfig } from "../configs/market";
+import { DeploymentState, DeploymentStep } from "../helpers/deploymentState";
+import {
+  getPullRewardsTransferStrategyAddress,
+  getRewardsControllerAddress,
+  getRewardsVaultAddress,
+  RewardsClient,
+} from "../helpers/rewards";
+
+// The rewards controller the market points the tokens of its incentivized reserves to
+export function rewardsControllerOf(market: MarketConfig): AccountAddress {
+  if (market.rewardsController) {
+    return AccountAddress.fromString(market.rewardsController);
+  }
+  return getRewardsControllerAddress(AptosProvider.fromEnvs().getPoolProfileAccount().accountAddress);
+}
+
+// Runs before initReserves, so the incentivized reserves are listed with the rewards controller already in place
+export async function initRewardsController(market: MarketConfig = defaultMarketConfig(), state?: DeploymentState) {
+  // global aptos provider
+  const aptosProvider = AptosProvider.fromEnvs();
+  const rewardsClient = new RewardsClient(aptosProvider, aptosProvider.getPoolProfileAccount());
+
+  // create the rewards controller unless the market brings its own, then point the emission manager to it
+  const rewardsController = rewardsControllerOf(market);
+  if (market.rewardsController) {
+    console.log(chalk.gray(`Market ${market.name} uses rewards controller ${rewardsController.toString()}, skipping creation`));
+  } else if (await rewardsClient.rewardsControllerExists()) {
+    console.log(chalk.gray(`Rewards controller ${rewardsController.toString()} already created, skipping`));
+  } else {
+    const txReceipt = await rewardsClient.initializeRewardsController();
+    state?.recordTx(DeploymentStep.INIT_REWARDS_CONTROLLER, "initializeRewardsController", txReceipt.hash);
+    console.log(chalk.yellow(`Created rewards controller ${rewardsController.toString()} with tx hash = ${txReceipt.hash}`));
+  }
+  if ((await rewardsClient.getRewardsController())?.equals(rewardsController)) {
+    console.log(chalk.gray(`Emission manager already uses rewards controller ${rewardsController.toString()}, skipping`));
+  } else {
+    const txReceipt = await rewardsClient.setRewardsController(rewardsController);
+    state?.recordTx(DeploymentStep.INIT_REWARDS_CONTROLLER, "setRewardsController", txReceipt.hash);
+    console.log(chalk.yellow(`Set rewards controller ${rewardsController.toString()} with tx hash = ${txReceipt.hash}`));
+  }
+}
+
+export async function initRewards(market: MarketConfig = defaultMarketConfig(), state?: DeploymentState) {
+  // global aptos provider
+  const aptosProvider = AptosProvider.fromEnvs();
+  const poolManager = aptosProvider.getPoolProfileAccount();
+  const aclClient = new AclClient(aptosProvider, aptosProvider.getAclProfileAccount());
+  const emissionManagerClient = new EmissionManagerClient(aptosProvider, poolManager);
+  const rewardsControllerClient = new RewardsControllerClient(aptosProvider, poolManager);
+  const underlyingTokensClient = new UnderlyingTokensClient(aptosProvider, aptosProvider.getUnderlyingTokensProfileAccount());
+  const rewardsClient = new RewardsClient(aptosProvider, poolManager);
+
+  const rewardsController = rewardsControllerOf(market);
+
+  // the pool account creates the transfer strategy and configures every reward
+  if (await aclClient.isEmissionAdmin(poolManager.accountAddress)) {
+    console.log(chalk.gray(`${poolManager.accountAddress.toString()} is already an emission admin, skipping`));
+  } else {
+    const txReceipt = await aclClient.addEmissionAdmin(poolManager.accountAddress);
+    state?.recordTx(DeploymentStep.INIT_REWARDS, `addEmissionAdmin ${poolManager.accountAddress.toString()}`, txReceipt.hash);
+    console.log(
+      chalk.yellow(`Added ${poolManager.accountAddress.toString()} as an emission admin with tx hash = ${txReceipt.hash}`),
+    );
+  }
+
+  // one strategy pays out every reward from its vault
+  const strategy = getPullRewardsTransferStrategyAddress(poolManager.accountAddress);
+  const vault = getRewardsVaultAddress(poolManager.accountAddress);
+  if (await rewardsClient.getStrategyIncentivesController(strategy)) {
+    console.log(chalk.gray(`Pull rewards transfer strategy ${strategy.toString()} already created, skipping`));
+  } else {
+    const txReceipt = await rewardsClient.createPullRewardsTransferStrategy(poolManager.accountAddress, rewardsController);
+    state?.recordTx(DeploymentStep.INIT_REWARDS, "createPullRewardsTransferStrategy", txReceipt.hash);
+    console.log(
+      chalk.yellow(
+        `Created pull rewards transfer strategy ${strategy.toString()} with tx hash = ${txReceipt.hash}, its vault is ${vault.toString()}`,
+      ),
+    );
+  }
+
+  const incentives = market.reserves.flatMap((reserve) =>
+    (reserve.strategy.incentives ?? []).map((incentive) => ({ reserve, incentive })),
+  );
+  for (const { reserve, incentive } of incentives) {
+    const reward = await underlyingTokensClient.getMetadataBySymbol(incentive.reward);
+    const rewardDecimals = Number(await underlyingTokensClient.decimals(reward));
+    const underlying = await underlyingTokensClient.getMetadataBySymbol(reserve.symbol);
+    const aToken = aTokens.find((token) => token.underlyingSymbol === reserve.symbol);
+    const asset = aToken.metadataAddress;
+    const label = `${incentive.reward} on ${aToken.symbol}`;
+
+    if ((await emissionManagerClient.getEmissionAdmin(reward)).equals(poolManager.accountAddress)) {
+      console.log(chalk.gray(`Emission admin of ${incentive.reward} already set, skipping`));
+    } else {
+      const txReceipt = await emissionManagerClient.setAdmissionAdmin(reward, poolManager.accountAddress);
+      state?.recordTx(DeploymentStep.INIT_REWARDS, `setEmissionAdmin ${incentive.reward}`, txReceipt.hash);
+      console.log(chalk.yellow(`Set the emission admin of ${incentive.reward} with tx hash = ${txReceipt.hash}`));
+    }
+
+    // the vault is topped up rather than minted into on every run, claims drain it
+    const vaultFunding = parseUnits(incentive.vaultFunding, rewardDecimals);
+    const vaultBalance = await underlyingTokensClient.balanceOf(vault, reward);
+    if (vaultBalance >= vaultFunding) {
+      console.log(chalk.gray(`Rewards vault already holds ${vaultBalance} ${incentive.reward}, skipping`));
+    } else {
+      const txReceipt = await underlyingTokensClient.mint(vault, vaultFunding - vaultBalance, reward);
+      state?.recordTx(DeploymentStep.INIT_REWARDS, `fundRewardsVault ${incentive.reward}`, txReceipt.hash);
+      console.log(chalk.yellow(`Funded the rewards vault with ${incentive.reward}, tx hash = ${txReceipt.hash}`));
+    }
+
+    // initReserves lists incentivized reserves with the rewards controller, reserves listed before need pointing to it
+    if ((await rewardsClient.getIncentivesController(asset))?.equals(rewardsController)) {
+      console.log(chalk.gray(`${aToken.symbol} already uses the rewards controller, skipping`));
+    } else {
+      const txReceipt = await rewardsClient.setIncentivesController(underlying, rewardsController);
+      state?.recordTx(DeploymentStep.INIT_REWARDS, `setIncentivesController ${reserve.symbol}`, txReceipt.hash);
+      console.log(chalk.yellow(`Set the incentives controller of ${reserve.symbol} with tx hash = ${txReceipt.hash}`));
+    }
+
+    // the controller reports a zero last update for rewards that were never configured on the asset
+    const emissionPerSecond = parseUnits(incentive.emissionPerSecond, rewardDecimals);
+    const rewardsData = await rewardsControllerClient.getRewardsData(asset, reward, rewardsController);
+    if (rewardsData.lastUpdateTimestamp === 0n) {
+      const distributionEnd = BigInt(
+        incentive.distributionEnd ?? (await getLedgerTimestamp()) + incentive.distributionDuration,
+      );
+      const txReceipt = await emissionManagerClient.configureAssets(
+        [emissionPerSecond],
+        [parseUnits(incentive.maxEmissionRate, rewardDecimals)],
+        [distributionEnd],
+        [asset],
+        [reward],
+        [strategy],
+      );
+      state?.recordTx(DeploymentStep.INIT_REWARDS, `configureAssets ${label}`, txReceipt.hash);
+      console.log(chalk.yellow(`Configured ${label} until ${distributionEnd} with tx hash = ${txReceipt.hash}`));
+    } else if (rewardsData.emissionPerSecond !== emissionPerSecond) {
+      const txReceipt = await emissionManagerClient.setEmissionPerSecond(asset, [reward], [emissionPerSecond]);
+      state?.recordTx(DeploymentStep.INIT_REWARDS, `setEmissionPerSecond ${label}`, txReceipt.hash);
+      console.log(chalk.yellow(`Set the emission per second of ${label} with tx hash = ${txReceipt.hash}`));
+    } else {
+      console.log(chalk.gray(`${label} already configured, skipping`));
+    }
+  }
+}
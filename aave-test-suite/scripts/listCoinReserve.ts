@@ -0,0 +1,14 @@
+import { parseArgs } from "util";
+import { defaultMarketConfig, loadMarketConfig } from "../configs/market";
+import { initCoinReserve } from "./initCoinReserve";
+
+(async () => {
+  const { values } = parseArgs({
+    options: {
+      // path to a .yaml/.json market definition, its rate strategies are used, defaults to the market in configs/
+      market: { type: "string" },
+    },
+  });
+
+  await initCoinReserve(values.market ? loadMarketConfig(values.market) : defaultMarketConfig());
+})();
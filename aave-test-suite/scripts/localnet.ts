@@ -0,0 +1,34 @@
+import chalk from "chalk";
+import {
+  INIT_DATA_SNAPSHOT,
+  LOCALNET_SNAPSHOTS_DIR,
+  LOCALNET_TEST_DIR,
+  revertLocalnet,
+  snapshotLocalnet,
+  startLocalnet,
+  stopLocalnet,
+} from "../helpers/localnet";
+
+(async () => {
+  const [command, name = INIT_DATA_SNAPSHOT] = process.argv.slice(2);
+  switch (command) {
+    case "start":
+      await startLocalnet();
+      console.log(chalk.green(`localnet running on ${LOCALNET_TEST_DIR}`));
+      break;
+    case "stop":
+      await stopLocalnet();
+      console.log(chalk.green("localnet stopped"));
+      break;
+    case "snapshot":
+      await snapshotLocalnet(name);
+      console.log(chalk.green(`localnet snapshot ${name} saved in ${LOCALNET_SNAPSHOTS_DIR}`));
+      break;
+    case "revert":
+      await revertLocalnet(name);
+      console.log(chalk.green(`localnet reverted to snapshot ${name}`));
+      break;
+    default:
+      throw new Error("Usage: localnet <start|stop|snapshot|revert> [snapshot name, defaults to initData]");
+  }
+})();
@@ -0,0 +1,119 @@
+import { BigNumber, BigNumberish } from "@ethersproject/bignumber";
+import { AptosProvider, InterestRateClient, PoolClient } from "@aave/aave-v3-aptos-ts-sdk";
+import { defaultMarketConfig, MarketConfig, MarketReserveConfig, rateStrategyOf } from "../configs/market";
+import { FeeManagerClient } from "../helpers/feeManager";
+import {
+  desiredReserveConfigValues,
+  diffReserveConfig,
+  fetchReserveConfigValues,
+  ReserveConfigValues,
+} from "../helpers/reservePlan";
+import { rayToBps } from "../helpers/utils";
+
+export enum ReserveDriftStatus {
+  OK = "ok",
+  DRIFT = "drift",
+  // configured in the market but not listed in the pool
+  MISSING = "missing",
+  // listed in the pool but not part of the market
+  UNEXPECTED = "unexpected",
+}
+
+export interface DriftMismatch {
+  field: string;
+  expected: string;
+  actual: string;
+}
+
+export interface ReserveDriftReport {
+  symbol: string;
+  asset: string | null;
+  status: ReserveDriftStatus;
+  mismatches: Array<DriftMismatch>;
+}
+
+export interface MarketDriftReport {
+  market: string;
+  network: string;
+  checkedAt: string;
+  inSync: boolean;
+  reserves: Array<ReserveDriftReport>;
+}
+
+const RATE_STRATEGY_FIELDS = ["optimalUsageRatio", "baseVariableBorrowRate", "variableRateSlope1", "variableRateSlope2"] as const;
+
+export type ReserveRateValues = Record<(typeof RATE_STRATEGY_FIELDS)[number], BigNumberish>;
+
+// Compares what the deployment sets on a reserve, the configReserves values and the interest rates, with the market
+export function diffReserveDrift(
+  market: MarketConfig,
+  reserve: MarketReserveConfig,
+  current: ReserveConfigValues,
+  rates: ReserveRateValues,
+): Array<DriftMismatch> {
+  const mismatches: Array<DriftMismatch> = diffReserveConfig(current, desiredReserveConfigValues(reserve.strategy)).map(
+    (change) => ({ field: change.field, expected: change.desired, actual: change.current }),
+  );
+
+  // interest rates are stored in bps on-chain, so compare at that precision
+  const rateStrategy = rateStrategyOf(market, reserve);
+  for (const field of RATE_STRATEGY_FIELDS) {
+    const expected = rayToBps(BigNumber.from(rateStrategy[field])).toString();
+    const actual = rayToBps(BigNumber.from(rates[field])).toString();
+    if (expected !== actual) {
+      mismatches.push({ field: `rateStrategy.${field}`, expected, actual });
+    }
+  }
+  return mismatches;
+}
+
+// Reads every listed reserve and compares it with the market the test suite expects
+export async function checkMarketDrift(market: MarketConfig = defaultMarketConfig()): Promise<MarketDriftReport> {
+  // global aptos provider
+  const aptosProvider = AptosProvider.fromEnvs();
+  const poolClient = new PoolClient(aptosProvider, aptosProvider.getPoolProfileAccount());
+  const interestRateClient = new InterestRateClient(aptosProvider, aptosProvider.getPoolProfileAccount());
+  const feeManagerClient = new FeeManagerClient(aptosProvider);
+
+  const listedReserves = await poolClient.getAllReservesTokens();
+  const reports: Array<ReserveDriftReport> = [];
+
+  for (const reserve of market.reserves) {
+    const listed = listedReserves.find((token) => token.symbol === reserve.symbol);
+    if (!listed) {
+      reports.push({ symbol: reserve.symbol, asset: null, status: ReserveDriftStatus.MISSING, mismatches: [] });
+      continue;
+    }
+    const asset = listed.tokenAddress;
+
+    const current = await fetchReserveConfigValues(poolClient, feeManagerClient, asset);
+    const rates = await interestRateClient.getReserveInterestRateStrategy(asset);
+    const mismatches = diffReserveDrift(market, reserve, current, rates);
+
+    reports.push({
+      symbol: reserve.symbol,
+      asset: asset.toString(),
+      status: mismatches.length === 0 ? ReserveDriftStatus.OK : ReserveDriftStatus.DRIFT,
+      mismatches,
+    });
+  }
+
+  for (const listed of listedReserves) {
+    if (!market.reserves.some((reserve) => reserve.symbol === listed.symbol)) {
+      reports.push({
+        symbol: listed.symbol,
+        asset: listed.tokenAddress.toString(),
+        status: ReserveDriftStatus.UNEXPECTED,
+        mismatches: [],
+      });
+    }
+  }
+
+  return {
+    market: market.name,
+    network: aptosProvider.getNetwork().toString(),
+    checkedAt: new Date().toISOString(),
+    inSync: reports.every((report) => report.status === ReserveDriftStatus.OK),
+    reserves: reports,
+  };
+}
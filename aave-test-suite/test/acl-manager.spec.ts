@@ -1,6 +1,8 @@
 import { Ed25519Account } from "@aptos-labs/ts-sdk";
 import { initializeMakeSuite, testEnv } from "../configs/config";
 import { AclClient, AptosProvider } from "@aave/aave-v3-aptos-ts-sdk";
+import { expectMoveAbort } from "../helpers/moveAbort";
+import { AaveError } from "../helpers/errorCodes";
 
 describe("Access Control List Manager", () => {
 
@@ -42,11 +44,10 @@ describe("Access Control List Manager", () => {
     const hasFlashBorrowerRole = await aclClient.hasRole(flashBorrowerRole, flashBorrowAdmin.accountAddress);
     expect(hasFlashBorrowerRole).toBe(true);
 
-    try {
-      await aclClient.withSigner(flashBorrowAdmin).addFlashBorrower(flashBorrower.accountAddress);
-    } catch (err) {
-      expect(err.toString().includes("0x3ea")).toBe(true);
-    }
+    await expectMoveAbort(
+      aclClient.withSigner(flashBorrowAdmin).addFlashBorrower(flashBorrower.accountAddress),
+      { module: "acl_manage", code: AaveError.EROLE_MISMATCH },
+    );
 
     const isFlashBorrowerAfter = await aclClient.isFlashBorrower(flashBorrower.accountAddress);
     expect(isFlashBorrowerAfter).toBe(false);
@@ -93,11 +94,10 @@ describe("Access Control List Manager", () => {
     const hasFlashBorrowerRole = await aclClient.hasRole(flashBorrowerRole, flashBorrowAdmin.accountAddress);
     expect(hasFlashBorrowerRole).toBe(true);
 
-    try {
-      await aclClient.withSigner(flashBorrowAdmin).removeFlashBorrower(flashBorrower.accountAddress);
-    } catch (err) {
-      expect(err.toString().includes("0x3ea")).toBe(true);
-    }
+    await expectMoveAbort(
+      aclClient.withSigner(flashBorrowAdmin).removeFlashBorrower(flashBorrower.accountAddress),
+      { module: "acl_manage", code: AaveError.EROLE_MISMATCH },
+    );
 
     const isFlashBorrowerAfter = await aclClient.isFlashBorrower(flashBorrower.accountAddress);
     expect(isFlashBorrowerAfter).toBe(true);
@@ -0,0 +1,177 @@
+import { AccountAddress, CommittedTransactionResponse, Ed25519Account, UserTransactionResponse } from "@aptos-labs/ts-sdk";
+import { AptosProvider, consts, CoreClient, PoolClient } from "@aave/aave-v3-aptos-ts-sdk";
+import { parseUnits } from "ethers";
+import { initializeMakeSuite, testEnv } from "../configs/config";
+import { strategyDAI } from "../configs/pool";
+import { AaveError } from "../helpers/errorCodes";
+import { expectEvent, expectNoEvent } from "../helpers/events";
+import { FeeManagerClient } from "../helpers/feeManager";
+import { SUITE_SETUP_TIMEOUT } from "../helpers/localnet";
+import { expectMoveAbort } from "../helpers/moveAbort";
+import { MAX_APT_FEE } from "../helpers/strategyValidator";
+import { createTestUser, teardownTestUsers } from "../helpers/testUsers";
+
+// 0.001 APT
+const DAI_APT_FEE = 100000n;
+
+const gasFee = (tx: CommittedTransactionResponse): bigint => {
+  const { gas_used, gas_unit_price } = tx as UserTransactionResponse;
+  return BigInt(gas_used) * BigInt(gas_unit_price);
+};
+
+describe("APT fees", () => {
+  let aptosProvider: AptosProvider;
+  let coreClient: CoreClient;
+  let feeManagerClient: FeeManagerClient;
+  let feeCollector: AccountAddress;
+  let daiDecimals: number;
+  let wethDecimals: number;
+  let supplier: Ed25519Account;
+  let borrower: Ed25519Account;
+
+  const aptBalanceOf = async (account: AccountAddress): Promise<bigint> =>
+    BigInt(await aptosProvider.getAptos().getAccountAPTAmount({ accountAddress: account }));
+
+  beforeAll(async () => {
+    await initializeMakeSuite();
+    aptosProvider = AptosProvider.fromEnvs();
+    coreClient = new CoreClient(aptosProvider, aptosProvider.getPoolProfileAccount());
+    feeManagerClient = new FeeManagerClient(aptosProvider, aptosProvider.getPoolProfileAccount());
+    const poolClient = new PoolClient(aptosProvider);
+
+    const { dai, weth } = testEnv;
+    feeCollector = await feeManagerClient.getFeeCollectorAddress();
+    daiDecimals = Number((await poolClient.getReserveConfigurationData(dai)).decimals);
+    wethDecimals = Number((await poolClient.getReserveConfigurationData(weth)).decimals);
+
+    supplier = await createTestUser({ supply: { DAI: "1000" }, mint: { DAI: "100" } });
+    // the minted DAI pays the interest back on teardown
+    borrower = await createTestUser({ supply: { WETH: "1000" }, mint: { DAI: "10", WETH: "10" } });
+    await coreClient.withSigner(borrower).setUserUseReserveAsCollateral(weth, true);
+  }, SUITE_SETUP_TIMEOUT);
+
+  afterAll(async () => {
+    const { dai, weth } = testEnv;
+    const maxAmount = BigInt(consts.MAX_UINT_AMOUNT);
+    await coreClient
+      .withSigner(borrower)
+      .repay(dai, maxAmount, consts.INTEREST_RATE_MODES.VARIABLE, borrower.accountAddress);
+    await coreClient.withSigner(borrower).withdraw(weth, maxAmount, borrower.accountAddress);
+    await feeManagerClient
+      .withSigner(aptosProvider.getPoolProfileAccount())
+      .setAptFee(dai, BigInt(strategyDAI.aptFee ?? 0));
+    await teardownTestUsers();
+  }, 120000);
+
+  it("Sets the APT fee of a reserve", async () => {
+    const { dai, weth } = testEnv;
+    const oldFee = await feeManagerClient.getAptFee(dai);
+    const wethFee = await feeManagerClient.getAptFee(weth);
+
+    const tx = await feeManagerClient.setAptFee(dai, DAI_APT_FEE);
+
+    expectEvent(tx, "FeeChanged", { asset: dai, oldFee, newFee: DAI_APT_FEE });
+    expect(await feeManagerClient.getAptFee(dai)).toBe(DAI_APT_FEE);
+    // the fee is per reserve
+    expect(await feeManagerClient.getAptFee(weth)).toBe(wethFee);
+  });
+
+  it("Charges the fee on supply", async () => {
+    const { dai } = testEnv;
+    const totalFeesBefore = await feeManagerClient.getTotalFees();
+    const collectorBalanceBefore = await feeManagerClient.getFeeCollectorAptBalance();
+    const supplierBalanceBefore = await aptBalanceOf(supplier.accountAddress);
+
+    const tx = await coreClient
+      .withSigner(supplier)
+      .supply(dai, parseUnits("10", daiDecimals), supplier.accountAddress, consts.AAVE_REFERRAL);
+
+    expectEvent(tx, "FeeCollected", {
+      from: supplier.accountAddress,
+      recipient: feeCollector,
+      asset: dai,
+      amount: DAI_APT_FEE,
+    });
+    expect(await aptBalanceOf(supplier.accountAddress)).toBe(supplierBalanceBefore - DAI_APT_FEE - gasFee(tx));
+    expect(await feeManagerClient.getFeeCollectorAptBalance()).toBe(collectorBalanceBefore + DAI_APT_FEE);
+    expect(await feeManagerClient.getTotalFees()).toBe(totalFeesBefore + DAI_APT_FEE);
+  });
+
+  it("Charges the fee on borrow and accumulates the totals", async () => {
+    const { dai } = testEnv;
+    const totalFeesBefore = await feeManagerClient.getTotalFees();
+    const borrowerBalanceBefore = await aptBalanceOf(borrower.accountAddress);
+
+    const borrowTx = await coreClient
+      .withSigner(borrower)
+      .borrow(
+        dai,
+        parseUnits("100", daiDecimals),
+        consts.INTEREST_RATE_MODES.VARIABLE,
+        consts.AAVE_REFERRAL,
+        borrower.accountAddress,
+      );
+    expectEvent(borrowTx, "FeeCollected", { from: borrower.accountAddress, asset: dai, amount: DAI_APT_FEE });
+    expect(await aptBalanceOf(borrower.accountAddress)).toBe(borrowerBalanceBefore - DAI_APT_FEE - gasFee(borrowTx));
+
+    const repayTx = await coreClient
+      .withSigner(borrower)
+      .repay(dai, parseUnits("10", daiDecimals), consts.INTEREST_RATE_MODES.VARIABLE, borrower.accountAddress);
+    expectEvent(repayTx, "FeeCollected", { from: borrower.accountAddress, asset: dai, amount: DAI_APT_FEE });
+
+    expect(await feeManagerClient.getTotalFees()).toBe(totalFeesBefore + 2n * DAI_APT_FEE);
+  });
+
+  it("Does not charge reserves without a fee", async () => {
+    const { weth } = testEnv;
+    expect(await feeManagerClient.getAptFee(weth)).toBe(0n);
+    const totalFeesBefore = await feeManagerClient.getTotalFees();
+
+    const tx = await coreClient
+      .withSigner(borrower)
+      .supply(weth, parseUnits("10", wethDecimals), borrower.accountAddress, consts.AAVE_REFERRAL);
+
+    expectNoEvent(tx, "FeeCollected");
+    expect(await feeManagerClient.getTotalFees()).toBe(totalFeesBefore);
+  });
+
+  it("Cannot set an APT fee above the maximum (revert expected)", async () => {
+    await expectMoveAbort(feeManagerClient.setAptFee(testEnv.dai, MAX_APT_FEE + 1n), {
+      module: "pool_fee_manager",
+      code: AaveError.EINVALID_MAX_APT_FEE,
+    });
+  });
+
+  it("Cannot set an APT fee without being a risk or pool admin (revert expected)", async () => {
+    await expectMoveAbort(new FeeManagerClient(aptosProvider, supplier).setAptFee(testEnv.dai, 0n), {
+      module: "pool_configurator",
+      code: AaveError.ECALLER_NOT_RISK_OR_POOL_ADMIN,
+    });
+  });
+
+  it("Cannot withdraw the APT fees without being a pool admin (revert expected)", async () => {
+    await expectMoveAbort(
+      new FeeManagerClient(aptosProvider, supplier).withdrawAptFee(supplier.accountAddress, DAI_APT_FEE),
+      { module: "pool_fee_manager", code: AaveError.ECALLER_NOT_POOL_ADMIN },
+    );
+  });
+
+  it("A pool admin withdraws the collected APT fees to a receiver", async () => {
+    const receiver = await createTestUser();
+    const receiverBalanceBefore = await aptBalanceOf(receiver.accountAddress);
+    const collectorBalanceBefore = await feeManagerClient.getFeeCollectorAptBalance();
+    const totalFeesBefore = await feeManagerClient.getTotalFees();
+
+    const tx = await feeManagerClient.withdrawAptFee(receiver.accountAddress, DAI_APT_FEE);
+
+    expectEvent(tx, "FeeWithdrawn", {
+      caller: aptosProvider.getPoolProfileAccount().accountAddress,
+      recipient: receiver.accountAddress,
+      amount: DAI_APT_FEE,
+    });
+    expect(await aptBalanceOf(receiver.accountAddress)).toBe(receiverBalanceBefore + DAI_APT_FEE);
+    expect(await feeManagerClient.getFeeCollectorAptBalance()).toBe(collectorBalanceBefore - DAI_APT_FEE);
+    // the total is the history of collected fees, withdrawals leave it alone
+    expect(await feeManagerClient.getTotalFees()).toBe(totalFeesBefore);
+  });
+});
@@ -8,6 +8,11 @@ import {
   PoolClient,
   UnderlyingTokensClient,
 } from "@aave/aave-v3-aptos-ts-sdk";
+import { getReserveSnapshot, getTxTimestamp, getUserSnapshot } from "../helpers/snapshots";
+import { calcExpectedReserveDataAfterBorrow, calcExpectedUserDataAfterBorrow } from "../helpers/calculations";
+import { expectMoveAbort } from "../helpers/moveAbort";
+import { AaveError } from "../helpers/errorCodes";
+import { expectEvent } from "../helpers/events";
 
 describe("Borrow Test", () => {
   let aptosProvider: AptosProvider;
@@ -40,8 +45,8 @@ describe("Borrow Test", () => {
   it("validateBorrow() when amount == 0 (revert expected)", async () => {
     const { users, dai } = testEnv;
     const user = users[0];
-    try {
-      await coreClient
+    await expectMoveAbort(
+      coreClient
         .withSigner(user)
         .borrow(
           dai,
@@ -49,10 +54,9 @@ describe("Borrow Test", () => {
           consts.INTEREST_RATE_MODES.VARIABLE,
           consts.AAVE_REFERRAL,
           user.accountAddress,
-        );
-    } catch (err) {
-      expect(err.toString().includes("validation_logic: 0x1a")).toBe(true);
-    }
+        ),
+      { module: "validation_logic", code: AaveError.EINVALID_AMOUNT },
+    );
   });
 
   it("validateBorrow() when reserve is not active (revert expected)", async () => {
@@ -102,8 +106,8 @@ describe("Borrow Test", () => {
     );
 
     // try to borrow
-    try {
-      await coreClient
+    await expectMoveAbort(
+      coreClient
         .withSigner(user)
         .borrow(
           aave,
@@ -111,11 +115,9 @@ describe("Borrow Test", () => {
           consts.INTEREST_RATE_MODES.VARIABLE,
           consts.AAVE_REFERRAL,
           user.accountAddress,
-        );
-    } catch (err) {
-      // console.log("err:", err.toString());
-      expect(err.toString().includes("validation_logic: 0x1b")).toBe(true);
-    }
+        ),
+      { module: "validation_logic", code: AaveError.ERESERVE_INACTIVE },
+    );
 
     // set active again
     await poolClient.setReserveActive(aave, true);
@@ -170,8 +172,8 @@ describe("Borrow Test", () => {
     expect(isFrozenAfter).toBe(true);
 
     // try to borrow
-    try {
-      await coreClient
+    await expectMoveAbort(
+      coreClient
         .withSigner(user)
         .borrow(
           dai,
@@ -179,10 +181,9 @@ describe("Borrow Test", () => {
           consts.INTEREST_RATE_MODES.VARIABLE,
           consts.AAVE_REFERRAL,
           user.accountAddress,
-        );
-    } catch (err) {
-      expect(err.toString().includes("validation_logic: 0x1c")).toBe(true);
-    }
+        ),
+      { module: "validation_logic", code: AaveError.ERESERVE_FROZEN },
+    );
 
     // set to unfrozen again
     await poolClient.setReserveFreeze(dai, false);
@@ -241,8 +242,8 @@ describe("Borrow Test", () => {
     expect(borrowingEnabledAfter).toBe(false);
 
     // now try to borrow
-    try {
-      await coreClient
+    await expectMoveAbort(
+      coreClient
         .withSigner(user)
         .borrow(
           dai,
@@ -250,10 +251,9 @@ describe("Borrow Test", () => {
           consts.INTEREST_RATE_MODES.VARIABLE,
           consts.AAVE_REFERRAL,
           user.accountAddress,
-        );
-    } catch (err) {
-      expect(err.toString().includes("validation_logic: 0x1e")).toBe(true);
-    }
+        ),
+      { module: "validation_logic", code: AaveError.EBORROWING_NOT_ENABLED },
+    );
 
     // Enable borrowing again
     await poolClient.setReserveBorrowing(dai, true);
@@ -333,8 +333,8 @@ describe("Borrow Test", () => {
     const userBorrowDaiAmount = 200 * 10 ** daiDecimals;
 
     // Try to borrow more dai, expecting it to fail
-    try {
-      await coreClient
+    await expectMoveAbort(
+      coreClient
         .withSigner(user)
         .borrow(
           dai,
@@ -342,10 +342,9 @@ describe("Borrow Test", () => {
           consts.INTEREST_RATE_MODES.VARIABLE,
           consts.AAVE_REFERRAL,
           user.accountAddress,
-        );
-    } catch (err) {
-      expect(err.toString().includes("pool_validation: 0x24")).toBe(true);
-    }
+        ),
+      { module: "validation_logic", code: AaveError.ECOLLATERAL_CANNOT_COVER_NEW_BORROW },
+    );
   });
 
   it("validateBorrow() with eMode > 0, borrowing asset not in category (revert expected)", async () => {
@@ -406,12 +405,12 @@ describe("Borrow Test", () => {
 
     const userBorrowDaiAmount = 100 * 10 ** daiDecimals;
 
-    try {
-      // Set user EMode
-      await poolClient.withSigner(user).setUserEmode(101);
+    // Set user EMode
+    await poolClient.withSigner(user).setUserEmode(101);
 
-      // Try borrowing DAI, which is not in the EMode category
-      await coreClient
+    // Try borrowing DAI, which is not in the EMode category
+    await expectMoveAbort(
+      coreClient
         .withSigner(user)
         .borrow(
           dai,
@@ -419,10 +418,9 @@ describe("Borrow Test", () => {
           consts.INTEREST_RATE_MODES.VARIABLE,
           consts.AAVE_REFERRAL,
           user.accountAddress,
-        );
-    } catch (err) {
-      expect(err.toString().includes("validation_logic: 0x3a")).toBe(true);
-    }
+        ),
+      { module: "validation_logic", code: AaveError.EINCONSISTENT_EMODE_CATEGORY },
+    );
   });
 
   it("User 2 supplies WETH, and borrows DAI", async () => {
@@ -509,4 +507,54 @@ describe("Borrow Test", () => {
       expectedBalance,
     );
   });
+
+  it("User 2 borrows DAI again, reserve and position match the expected state", async () => {
+    const {
+      dai,
+      users: [, borrower],
+    } = testEnv;
+
+    const daiDecimals = Number(await underlyingTokensClient.decimals(dai));
+    const daiBorrowAmount = 20 * 10 ** daiDecimals;
+
+    const reserveDataBefore = await getReserveSnapshot(aptosProvider, dai);
+    const userDataBefore = await getUserSnapshot(aptosProvider, dai, borrower.accountAddress);
+
+    const tx = await coreClient
+      .withSigner(borrower)
+      .borrow(
+        dai,
+        BigInt(daiBorrowAmount),
+        consts.INTEREST_RATE_MODES.VARIABLE,
+        consts.AAVE_REFERRAL,
+        borrower.accountAddress,
+      );
+    expectEvent(tx, "Borrow", {
+      reserve: dai,
+      user: borrower.accountAddress,
+      onBehalfOf: borrower.accountAddress,
+      amount: daiBorrowAmount,
+      interestRateMode: consts.INTEREST_RATE_MODES.VARIABLE,
+    });
+
+    const expectedReserveData = calcExpectedReserveDataAfterBorrow(
+      daiBorrowAmount,
+      reserveDataBefore,
+      getTxTimestamp(tx),
+    );
+    const expectedUserData = calcExpectedUserDataAfterBorrow(
+      daiBorrowAmount,
+      expectedReserveData,
+      userDataBefore,
+    );
+
+    const reserveDataAfter = await getReserveSnapshot(aptosProvider, dai);
+    const userDataAfter = await getUserSnapshot(aptosProvider, dai, borrower.accountAddress);
+    for (const key of Object.keys(expectedReserveData)) {
+      expect(`${key}: ${reserveDataAfter[key].toString()}`).toBe(`${key}: ${expectedReserveData[key].toString()}`);
+    }
+    for (const key of Object.keys(expectedUserData)) {
+      expect(`${key}: ${userDataAfter[key].toString()}`).toBe(`${key}: ${expectedUserData[key].toString()}`);
+    }
+  });
 });
@@ -0,0 +1,180 @@
+import { BigNumber } from "@ethersproject/bignumber";
+import { expect, test, describe } from "@jest/globals";
+import "../helpers/wadraymath";
+import { ReserveData, UserReserveData } from "../helpers/interfaces";
+import {
+  calcCompoundedInterest,
+  calcExpectedLiquidatedCollateral,
+  calcExpectedMintToTreasury,
+  calcExpectedReserveDataAfterBorrow,
+  calcExpectedReserveDataAfterFlashLoan,
+  calcExpectedReserveDataAfterSupply,
+  calcExpectedReserveDataAfterUpdateState,
+  calcExpectedRewardsIndex,
+  calcExpectedUserDataAfterSupply,
+  calcExpectedUserDataAfterTime,
+  calcExpectedUserRewards,
+  calcProjectedMintToTreasury,
+  SECONDS_PER_YEAR,
+} from "../helpers/calculations";
+import { rateStrategyStableTwo } from "../configs/pool";
+
+const RAY = BigNumber.prototype.ray();
+const ZERO = BigNumber.from(0);
+const START = BigNumber.from(1700000000);
+
+// a freshly initialized DAI reserve
+const emptyReserve: ReserveData = {
+  address: "0x1",
+  symbol: "DAI",
+  decimals: BigNumber.from(8),
+  reserveFactor: BigNumber.from(1000),
+  availableLiquidity: ZERO,
+  totalLiquidity: ZERO,
+  totalVariableDebt: ZERO,
+  scaledVariableDebt: ZERO,
+  variableBorrowRate: ZERO,
+  supplyUsageRatio: ZERO,
+  borrowUsageRatio: ZERO,
+  liquidityIndex: RAY,
+  variableBorrowIndex: RAY,
+  aTokenAddress: "0x2",
+  lastUpdateTimestamp: START,
+  liquidityRate: ZERO,
+  accruedToTreasuryScaled: ZERO,
+  unbacked: ZERO,
+  optimalUsageRatio: BigNumber.from(rateStrategyStableTwo.optimalUsageRatio),
+  baseVariableBorrowRate: BigNumber.from(rateStrategyStableTwo.baseVariableBorrowRate),
+  variableRateSlope1: BigNumber.from(rateStrategyStableTwo.variableRateSlope1),
+  variableRateSlope2: BigNumber.from(rateStrategyStableTwo.variableRateSlope2),
+};
+
+const emptyUser: UserReserveData = {
+  scaledATokenBalance: ZERO,
+  currentATokenBalance: ZERO,
+  currentVariableDebt: ZERO,
+  scaledVariableDebt: ZERO,
+  liquidityRate: ZERO,
+  usageAsCollateralEnabled: false,
+  walletBalance: BigNumber.from(1000000),
+};
+
+describe("Expected state calculations", () => {
+  test("Compounds interest like math_utils", () => {
+    expect(calcCompoundedInterest(RAY, START, START).eq(RAY)).toBeTruthy();
+    // 10% over a year: 1 + 0.1 + 0.1^2 / 2 + 0.1^3 / 6
+    const tenPercent = RAY.div(10);
+    expect(calcCompoundedInterest(tenPercent, START, START.add(SECONDS_PER_YEAR)).toString()).toEqual(
+      "1105166666666666666666666667",
+    );
+  });
+
+  test("Supplies into an empty reserve", () => {
+    const reserveData = calcExpectedReserveDataAfterSupply(1000, emptyReserve, START.add(10));
+    expect(reserveData.availableLiquidity.toString()).toEqual("1000");
+    expect(reserveData.totalLiquidity.toString()).toEqual("1000");
+    expect(reserveData.liquidityRate.isZero()).toBeTruthy();
+    expect(reserveData.variableBorrowRate.isZero()).toBeTruthy();
+    expect(reserveData.liquidityIndex.eq(RAY)).toBeTruthy();
+    expect(reserveData.lastUpdateTimestamp.eq(START.add(10))).toBeTruthy();
+
+    const userData = calcExpectedUserDataAfterSupply(1000, reserveData, emptyUser);
+    expect(userData.scaledATokenBalance.toString()).toEqual("1000");
+    expect(userData.currentATokenBalance.toString()).toEqual("1000");
+    expect(userData.walletBalance.toString()).toEqual("999000");
+    // the user enables the collateral on their own
+    expect(userData.usageAsCollateralEnabled).toBe(false);
+  });
+
+  test("Borrows at the optimal usage ratio", () => {
+    const supplied = calcExpectedReserveDataAfterSupply(1000000, emptyReserve, START);
+    const borrowed = calcExpectedReserveDataAfterBorrow(800000, supplied, START);
+    expect(borrowed.availableLiquidity.toString()).toEqual("200000");
+    expect(borrowed.totalVariableDebt.toString()).toEqual("800000");
+    expect(borrowed.borrowUsageRatio.toString()).toEqual("800000000000000000000000000");
+    // variableRateSlope1, and 4% x 80% x 90% for the suppliers
+    expect(borrowed.variableBorrowRate.toString()).toEqual("40000000000000000000000000");
+    expect(borrowed.liquidityRate.toString()).toEqual("28800000000000000000000000");
+  });
+
+  test("Accrues interest and the treasury share over time", () => {
+    const supplied = calcExpectedReserveDataAfterSupply(1000000, emptyReserve, START);
+    const borrowed = calcExpectedReserveDataAfterBorrow(800000, supplied, START);
+    const oneYearLater = START.add(SECONDS_PER_YEAR);
+    const updated = calcExpectedReserveDataAfterUpdateState(borrowed, oneYearLater);
+
+    expect(updated.variableBorrowIndex.eq(calcCompoundedInterest(borrowed.variableBorrowRate, START, oneYearLater)))
+      .toBeTruthy();
+    // linear interest at 2.88%
+    expect(updated.liquidityIndex.toString()).toEqual("1028800000000000000000000000");
+
+    // 10% of the interest paid by the borrowers goes to the treasury
+    const interest = borrowed.scaledVariableDebt.rayMul(updated.variableBorrowIndex).sub(800000);
+    const accruedToTreasury = updated.accruedToTreasuryScaled.rayMul(updated.liquidityIndex);
+    expect(accruedToTreasury.sub(interest.percentMul(1000)).abs().lte(1)).toBeTruthy();
+
+    const supplier = calcExpectedUserDataAfterSupply(1000000, supplied, emptyUser);
+    const supplierLater = calcExpectedUserDataAfterTime(borrowed, supplier, oneYearLater);
+    expect(supplierLater.currentATokenBalance.toString()).toEqual("1028800");
+  });
+
+  test("Mints to the treasury only what accrued up to the last reserve update", () => {
+    const supplied = calcExpectedReserveDataAfterSupply(1000000, emptyReserve, START);
+    const borrowed = calcExpectedReserveDataAfterBorrow(800000, supplied, START);
+    const oneYearLater = START.add(SECONDS_PER_YEAR);
+
+    // nothing accrued when the reserve was last updated, the year of interest is minted after the next update
+    expect(calcExpectedMintToTreasury(borrowed, oneYearLater).isZero()).toBeTruthy();
+    const projected = calcProjectedMintToTreasury(borrowed, oneYearLater);
+    // 10% of the 32649 compounded at 4% on 800000
+    expect(projected.toString()).toEqual("3265");
+
+    const updated = calcExpectedReserveDataAfterUpdateState(borrowed, oneYearLater);
+    expect(calcExpectedMintToTreasury(updated, oneYearLater).eq(projected)).toBeTruthy();
+    // the minted aTokens keep earning the supply rate until mint_to_treasury is called
+    expect(calcExpectedMintToTreasury(updated, oneYearLater.add(SECONDS_PER_YEAR)).gt(projected)).toBeTruthy();
+  });
+
+  test("Splits a flash loan premium between the treasury and the suppliers", () => {
+    const supplied = calcExpectedReserveDataAfterSupply(1000000, emptyReserve, START);
+    // a 90 premium, 30% of it to the protocol
+    const repaid = calcExpectedReserveDataAfterFlashLoan(100000, 90, 3000, BigNumber.from(1000000), supplied, START);
+
+    // the suppliers get 63 on 1000000
+    expect(repaid.liquidityIndex.toString()).toEqual("1000063000000000000000000000");
+    expect(repaid.accruedToTreasuryScaled.rayMul(repaid.liquidityIndex).toString()).toEqual("27");
+    expect(repaid.availableLiquidity.toString()).toEqual("1000090");
+    expect(repaid.liquidityRate.isZero()).toBeTruthy();
+  });
+
+  test("Adds the liquidation bonus to the collateral and takes the protocol fee out of it", () => {
+    // 1000 of an 8 decimals debt asset priced twice the 6 decimals collateral, with a 5% bonus and a 10% fee on it
+    const { collateralAmount, protocolFee } = calcExpectedLiquidatedCollateral(
+      BigNumber.from(10).pow(11),
+      2,
+      8,
+      1,
+      6,
+      10500,
+      1000,
+    );
+
+    expect(protocolFee.toString()).toEqual("10000000");
+    expect(collateralAmount.toString()).toEqual("2090000000");
+  });
+
+  test("Shares the reward emissions between holders until the distribution end", () => {
+    // 100 reward units per second over 1000 seconds on 100 tokens of an 8 decimals asset
+    const end = START.add(1000);
+    const totalSupply = BigNumber.from(10).pow(10);
+    const halfway = calcExpectedRewardsIndex(0, 100, START, end, totalSupply, 8, START.add(500));
+    const ended = calcExpectedRewardsIndex(halfway, 100, START.add(500), end, totalSupply, 8, end.add(500));
+    expect(halfway.toString()).toEqual("500");
+    expect(ended.toString()).toEqual("1000");
+    expect(calcExpectedRewardsIndex(ended, 100, end, end, totalSupply, 8, end.add(500)).eq(ended)).toBeTruthy();
+
+    // a holder of 25 tokens since the start gets a quarter of the 100000 emitted, on top of what it accrued before
+    const rewards = calcExpectedUserRewards(BigNumber.from(25).mul(BigNumber.from(10).pow(8)), ended, 0, 7, 8);
+    expect(rewards.toString()).toEqual("25007");
+  });
+});
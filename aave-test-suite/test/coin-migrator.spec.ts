@@ -0,0 +1,110 @@
+import { AccountAddress, Ed25519Account } from "@aptos-labs/ts-sdk";
+import { AptosProvider, ATokensClient, CoinMigratorClient, consts, CoreClient, PoolClient } from "@aave/aave-v3-aptos-ts-sdk";
+import { parseUnits } from "ethers";
+import { initializeMakeSuite } from "../configs/config";
+import { AaveError } from "../helpers/errorCodes";
+import { expectEvent } from "../helpers/events";
+import { SUITE_SETUP_TIMEOUT } from "../helpers/localnet";
+import { MOCK_COIN, MockCoinClient } from "../helpers/mockCoin";
+import { expectMoveAbort } from "../helpers/moveAbort";
+import { createTestUser, teardownTestUsers } from "../helpers/testUsers";
+import { initCoinReserve } from "../scripts/initCoinReserve";
+
+describe("Coin migrator", () => {
+  let coreClient: CoreClient;
+  let poolClient: PoolClient;
+  let aTokensClient: ATokensClient;
+  let mockCoinClient: MockCoinClient;
+  let coinMigratorClient: CoinMigratorClient;
+  let coinReserve: AccountAddress;
+  let aCoinReserve: AccountAddress;
+  let holder: Ed25519Account;
+  const minted = parseUnits("1000", MOCK_COIN.decimals);
+
+  // the coin view counts the coin store and the paired fungible asset, the migrator view only the latter
+  const balancesOf = async (account: AccountAddress) => ({
+    coin: await mockCoinClient.coinBalance(account),
+    fa: await coinMigratorClient.getFaBalance(mockCoinClient.coinType, account),
+  });
+
+  beforeAll(async () => {
+    await initializeMakeSuite();
+    const aptosProvider = AptosProvider.fromEnvs();
+    coreClient = new CoreClient(aptosProvider);
+    poolClient = new PoolClient(aptosProvider, aptosProvider.getPoolProfileAccount());
+    aTokensClient = new ATokensClient(aptosProvider);
+    mockCoinClient = new MockCoinClient(aptosProvider, aptosProvider.getUnderlyingTokensProfileAccount());
+    coinMigratorClient = new CoinMigratorClient(aptosProvider);
+
+    coinReserve = await initCoinReserve();
+    aCoinReserve = (await poolClient.getReserveData(coinReserve)).aTokenAddress;
+    holder = await createTestUser();
+    // without a coin store the mint would land in the primary fungible store, with nothing left to migrate
+    await mockCoinClient.withSigner(holder).register();
+    await mockCoinClient.withModuleSigner().mint(holder.accountAddress, minted);
+  }, SUITE_SETUP_TIMEOUT);
+
+  afterAll(async () => {
+    await coreClient
+      .withSigner(holder)
+      .withdraw(coinReserve, BigInt(consts.MAX_UINT_AMOUNT), holder.accountAddress);
+    // nothing was borrowed, so the reserve has no supply left and the pool is back to the deployed market
+    await poolClient.dropReserve(coinReserve);
+    await teardownTestUsers();
+  }, 120000);
+
+  it("Lists the fungible asset paired with the coin as a reserve", async () => {
+    expect(await mockCoinClient.isInitialized()).toBe(true);
+    expect((await coinMigratorClient.getFaAddress(mockCoinClient.coinType)).equals(coinReserve)).toBe(true);
+
+    const listed = (await poolClient.getAllReservesTokens()).find(({ tokenAddress }) => tokenAddress.equals(coinReserve));
+    expect(listed?.symbol).toBe(MOCK_COIN.symbol);
+    const { decimals, isActive } = await poolClient.getReserveConfigurationData(coinReserve);
+    expect(Number(decimals)).toBe(MOCK_COIN.decimals);
+    expect(isActive).toBe(true);
+  });
+
+  it("Migrates the coins of a holder to the paired fungible asset", async () => {
+    const before = await balancesOf(holder.accountAddress);
+    expect(before.coin).toBe(minted);
+    const inCoinStore = before.coin - before.fa;
+    expect(inCoinStore).toBe(minted);
+
+    const tx = await mockCoinClient.withSigner(holder).coinToFa(inCoinStore);
+
+    expectEvent(tx, "CoinToFaConvertion", {
+      user: holder.accountAddress,
+      amount: inCoinStore,
+      symbol: MOCK_COIN.symbol,
+      decimals: MOCK_COIN.decimals,
+      faAddress: coinReserve,
+    });
+    // the migration moves the balance from one store to the other, both lookups see all of it
+    expect(await balancesOf(holder.accountAddress)).toEqual({ coin: minted, fa: minted });
+  });
+
+  it("Cannot migrate more coins than the coin store holds (revert expected)", async () => {
+    await expectMoveAbort(mockCoinClient.withSigner(holder).coinToFa(1n), {
+      module: "coin_migrator",
+      code: AaveError.EINSUFFICIENT_COINS_TO_WRAP,
+    });
+  });
+
+  it("Supplies the migrated coins to the pool and withdraws them back", async () => {
+    const supplied = parseUnits("100", MOCK_COIN.decimals);
+    const withdrawn = parseUnits("40", MOCK_COIN.decimals);
+
+    await coreClient.withSigner(holder).supply(coinReserve, supplied, holder.accountAddress, consts.AAVE_REFERRAL);
+    expect(await aTokensClient.balanceOf(holder.accountAddress, aCoinReserve)).toBe(supplied);
+    // the pool pulls the fungible asset, the coin lookup sees it leave as well
+    expect(await balancesOf(holder.accountAddress)).toEqual({ coin: minted - supplied, fa: minted - supplied });
+
+    await coreClient.withSigner(holder).withdraw(coinReserve, withdrawn, holder.accountAddress);
+    expect(await aTokensClient.balanceOf(holder.accountAddress, aCoinReserve)).toBe(supplied - withdrawn);
+    // withdrawals are paid in the fungible asset, which the coin lookup counts as coins
+    expect(await balancesOf(holder.accountAddress)).toEqual({
+      coin: minted - supplied + withdrawn,
+      fa: minted - supplied + withdrawn,
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { AccountAddress, Ed25519Account } from "@aptos-labs/ts-sdk";
+import { AclClient, AptosProvider, ATokensClient, consts, CoreClient, PoolClient } from "@aave/aave-v3-aptos-ts-sdk";
+import { BigNumber } from "@ethersproject/bignumber";
+import { parseUnits } from "ethers";
+import { advanceTime, COLLECTOR, initializeMakeSuite, testEnv } from "../configs/config";
+import {
+  calcExpectedLiquidityIndex,
+  calcExpectedMintToTreasury,
+  calcExpectedReserveDataAfterUpdateState,
+} from "../helpers/calculations";
+import { CollectorClient } from "../helpers/collector";
+import { AaveError } from "../helpers/errorCodes";
+import { expectEvent } from "../helpers/events";
+import { SUITE_SETUP_TIMEOUT } from "../helpers/localnet";
+import { expectMoveAbort } from "../helpers/moveAbort";
+import { getReserveSnapshot, getTxTimestamp } from "../helpers/snapshots";
+import { createTestUser, teardownTestUsers } from "../helpers/testUsers";
+import "../helpers/wadraymath";
+
+describe("Collector", () => {
+  let aptosProvider: AptosProvider;
+  let coreClient: CoreClient;
+  let poolClient: PoolClient;
+  let aclClient: AclClient;
+  let aTokensClient: ATokensClient;
+  let collectorClient: CollectorClient;
+  let collector: AccountAddress;
+  let daiDecimals: number;
+  let supplier: Ed25519Account;
+  let borrower: Ed25519Account;
+  let fundsAdmin: Ed25519Account;
+
+  beforeAll(async () => {
+    await initializeMakeSuite();
+    aptosProvider = AptosProvider.fromEnvs();
+    coreClient = new CoreClient(aptosProvider, aptosProvider.getPoolProfileAccount());
+    poolClient = new PoolClient(aptosProvider, aptosProvider.getPoolProfileAccount());
+    aclClient = new AclClient(aptosProvider, aptosProvider.getAclProfileAccount());
+    aTokensClient = new ATokensClient(aptosProvider);
+    collectorClient = new CollectorClient(aptosProvider);
+
+    const { dai, weth } = testEnv;
+    collector = await collectorClient.collectorAddress();
+    daiDecimals = Number((await poolClient.getReserveConfigurationData(dai)).decimals);
+
+    supplier = await createTestUser({ supply: { DAI: "1000" } });
+    // the minted DAI pays the interest back on teardown
+    borrower = await createTestUser({ supply: { WETH: "1000" }, mint: { DAI: "10" } });
+    await coreClient.withSigner(borrower).setUserUseReserveAsCollateral(weth, true);
+    await coreClient
+      .withSigner(borrower)
+      .borrow(
+        dai,
+        parseUnits("500", daiDecimals),
+        consts.INTEREST_RATE_MODES.VARIABLE,
+        consts.AAVE_REFERRAL,
+        borrower.accountAddress,
+      );
+
+    fundsAdmin = await createTestUser();
+    await aclClient.addFundsAdmin(fundsAdmin.accountAddress);
+  }, SUITE_SETUP_TIMEOUT);
+
+  afterAll(async () => {
+    const { dai, weth } = testEnv;
+    const maxAmount = BigInt(consts.MAX_UINT_AMOUNT);
+    await coreClient
+      .withSigner(borrower)
+      .repay(dai, maxAmount, consts.INTEREST_RATE_MODES.VARIABLE, borrower.accountAddress);
+    await coreClient.withSigner(borrower).withdraw(weth, maxAmount, borrower.accountAddress);
+    await aclClient.removeFundsAdmin(fundsAdmin.accountAddress);
+    await teardownTestUsers();
+  }, 120000);
+
+  it("Lists DAI with the collector as its treasury", async () => {
+    const { aDai } = testEnv;
+    expect(collector.equals(COLLECTOR)).toBe(true);
+    expect((await aTokensClient.getReserveTreasuryAddress(aDai)).equals(collector)).toBe(true);
+  });
+
+  it("Accrues borrow interest x reserve factor to the treasury and mints it as aTokens", async () => {
+    const { dai } = testEnv;
+    await advanceTime(3);
+    const before = await getReserveSnapshot(aptosProvider, dai);
+
+    // any operation on the reserve accrues the treasury share of the interest since its last update
+    const repayTx = await coreClient
+      .withSigner(borrower)
+      .repay(dai, parseUnits("1", daiDecimals), consts.INTEREST_RATE_MODES.VARIABLE, borrower.accountAddress);
+    const updated = await getReserveSnapshot(aptosProvider, dai);
+    const expected = calcExpectedReserveDataAfterUpdateState(before, getTxTimestamp(repayTx));
+    expect(updated.accruedToTreasuryScaled.eq(expected.accruedToTreasuryScaled)).toBe(true);
+
+    const interest = before.scaledVariableDebt
+      .rayMul(updated.variableBorrowIndex)
+      .sub(before.scaledVariableDebt.rayMul(before.variableBorrowIndex));
+    const accrued = updated.accruedToTreasuryScaled.sub(before.accruedToTreasuryScaled).rayMul(updated.liquidityIndex);
+    expect(interest.gt(0)).toBe(true);
+    expect(accrued.sub(interest.percentMul(before.reserveFactor.toString())).abs().lte(1)).toBe(true);
+  });
+
+  it("Collects what mint_to_treasury mints to the treasury of the reserve", async () => {
+    const { dai, aDai } = testEnv;
+    const reserveData = await getReserveSnapshot(aptosProvider, dai);
+    expect(reserveData.accruedToTreasuryScaled.gt(0)).toBe(true);
+    const collectedBefore = await collectorClient.getCollectedFees(aDai);
+
+    const mintTx = await poolClient.mintToTreasury([dai]);
+
+    // what accrued so far, valued at the income of the mint and scaled back down at the same index
+    const mintTimestamp = getTxTimestamp(mintTx);
+    const minted = calcExpectedMintToTreasury(reserveData, mintTimestamp);
+    expectEvent(mintTx, "MintedToTreasury", { reserve: dai, amountMinted: minted.toBigInt() });
+    const mintedScaled = minted.rayDiv(calcExpectedLiquidityIndex(reserveData, mintTimestamp)).toBigInt();
+    expect((await getReserveSnapshot(aptosProvider, dai)).accruedToTreasuryScaled.isZero()).toBe(true);
+    expect(await collectorClient.getCollectedFees(aDai)).toBe(collectedBefore + mintedScaled);
+    expect(await collectorClient.getCollectedFees(aDai)).toBe(await aTokensClient.scaledBalanceOf(collector, aDai));
+    // only aTokens are collected
+    expect(await collectorClient.getCollectedFees(dai)).toBe(0n);
+  });
+
+  it("Cannot withdraw from the collector without being a funds admin (revert expected)", async () => {
+    const { aDai } = testEnv;
+    expect(await collectorClient.isFundsAdmin(supplier.accountAddress)).toBe(false);
+
+    await expectMoveAbort(collectorClient.withSigner(supplier).withdraw(aDai, supplier.accountAddress, 1n), {
+      module: "collector",
+      code: AaveError.ENOT_ECOSYSTEM_RESERVE_FUNDS_ADMIN,
+    });
+  });
+
+  it("Cannot withdraw a token that is not an aToken (revert expected)", async () => {
+    await expectMoveAbort(collectorClient.withSigner(fundsAdmin).withdraw(testEnv.dai, fundsAdmin.accountAddress, 1n), {
+      module: "collector",
+      code: AaveError.ECALLER_NOT_ATOKEN,
+    });
+  });
+
+  it("A funds admin withdraws collected aTokens to a receiver", async () => {
+    const { aDai } = testEnv;
+    const receiver = await createTestUser();
+    // half of the income minted to the collector
+    const amount = (await aTokensClient.balanceOf(collector, aDai)) / 2n;
+    expect(amount > 0n).toBe(true);
+    const collectedBefore = await collectorClient.getCollectedFees(aDai);
+    expect(await collectorClient.isFundsAdmin(fundsAdmin.accountAddress)).toBe(true);
+
+    await collectorClient.withSigner(fundsAdmin).withdraw(aDai, receiver.accountAddress, amount);
+
+    const receivedScaled = await aTokensClient.scaledBalanceOf(receiver.accountAddress, aDai);
+    expect(await collectorClient.getCollectedFees(aDai)).toBe(collectedBefore - receivedScaled);
+    const received = await aTokensClient.balanceOf(receiver.accountAddress, aDai);
+    expect(BigNumber.from(received).sub(amount).abs().lte(1)).toBe(true);
+  });
+});
@@ -7,6 +7,8 @@ import {
   PoolClient,
 } from "@aave/aave-v3-aptos-ts-sdk";
 import { strategyAAVE } from "../configs/pool";
+import { expectMoveAbort } from "../helpers/moveAbort";
+import { AaveError } from "../helpers/errorCodes";
 
 type ReserveConfigurationValues = {
   reserveDecimals: string;
@@ -484,13 +486,12 @@ describe("PoolConfigurator", () => {
     const MAX_VALID_DEBT_CEILING = 1099511627775;
     const debtCeiling = MAX_VALID_DEBT_CEILING + 1;
     const currentCeiling = await poolClient.getDebtCeiling(aave);
-    try {
-      await poolClient
+    await expectMoveAbort(
+      poolClient
         .withModuleSigner()
-        .setDebtCeiling(aave, BigInt(debtCeiling));
-    } catch (err) {
-      expect(err.toString().includes("reserve_config: 0x49")).toBe(true);
-    }
+        .setDebtCeiling(aave, BigInt(debtCeiling)),
+      { module: "reserve_config", code: AaveError.EINVALID_DEBT_CEILING },
+    );
     const newCeiling = await poolClient.getDebtCeiling(aave);
     expect(newCeiling).toBe(BigInt(currentCeiling));
   });
@@ -0,0 +1,139 @@
+import { expect, test, describe } from "@jest/globals";
+import type { IAaveConfiguration, IInterestRateStrategyParams, IReserveParams } from "@aave/deploy-v3";
+import { importDeployV3Market, loadDeployV3Market } from "../helpers/deployV3Importer";
+
+// trimmed down copy of @aave/deploy-v3 markets/aave
+const rateStrategyStableOne: IInterestRateStrategyParams = {
+  name: "rateStrategyStableOne",
+  optimalUsageRatio: "900000000000000000000000000",
+  baseVariableBorrowRate: "0",
+  variableRateSlope1: "40000000000000000000000000",
+  variableRateSlope2: "600000000000000000000000000",
+  stableRateSlope1: "5000000000000000000000000",
+  stableRateSlope2: "600000000000000000000000000",
+  baseStableRateOffset: "10000000000000000000000000",
+  stableRateExcessOffset: "80000000000000000000000000",
+  optimalStableToTotalDebtRatio: "200000000000000000000000000",
+};
+
+const rateStrategyVolatileOne: IInterestRateStrategyParams = {
+  name: "rateStrategyVolatileOne",
+  optimalUsageRatio: "450000000000000000000000000",
+  baseVariableBorrowRate: "0",
+  // 7.005%, finer than a bps
+  variableRateSlope1: "70050000000000000000000000",
+  variableRateSlope2: "3000000000000000000000000000",
+  stableRateSlope1: "0",
+  stableRateSlope2: "0",
+  baseStableRateOffset: "0",
+  stableRateExcessOffset: "0",
+  optimalStableToTotalDebtRatio: "0",
+};
+
+const strategyUSDC = {
+  strategy: rateStrategyStableOne,
+  baseLTVAsCollateral: "8000",
+  liquidationThreshold: "8500",
+  liquidationBonus: "10500",
+  liquidationProtocolFee: "1000",
+  borrowingEnabled: true,
+  stableBorrowRateEnabled: true,
+  flashLoanEnabled: true,
+  reserveDecimals: "6",
+  aTokenImpl: "AToken",
+  reserveFactor: "1000",
+  supplyCap: "2000000000",
+  borrowCap: "0",
+  debtCeiling: "0",
+  borrowableIsolation: true,
+} as IReserveParams;
+
+const strategyWETH = {
+  ...strategyUSDC,
+  strategy: rateStrategyVolatileOne,
+  stableBorrowRateEnabled: false,
+  reserveDecimals: "18",
+  borrowableIsolation: false,
+} as IReserveParams;
+
+const aaveMarket = {
+  MarketId: "Ethereum Aave Market",
+  ReservesConfig: { USDC: strategyUSDC, WETH: strategyWETH },
+  EModes: {
+    StableEMode: {
+      id: "1",
+      ltv: "9700",
+      liquidationThreshold: "9750",
+      liquidationBonus: "10100",
+      label: "Stablecoins",
+      assets: ["USDC", "USDT", "DAI", "EURS"],
+    },
+  },
+  FlashLoanPremiums: { total: 9, protocol: 0 },
+} as unknown as IAaveConfiguration;
+
+describe("deploy-v3 market importer", () => {
+  test("Maps reserves, rate strategies and eModes", () => {
+    const { market, errors } = importDeployV3Market(aaveMarket);
+
+    expect(errors).toEqual([]);
+    expect(market.name).toEqual("ethereum-aave-market");
+    expect(market.reserves.map((reserve) => reserve.symbol)).toEqual(["USDC", "WETH"]);
+    expect(market.eModes).toEqual([
+      { categoryId: 1, ltv: 9700, liquidationThreshold: 9750, liquidationBonus: 10100, label: "Stablecoins" },
+    ]);
+
+    const [usdc, weth] = market.reserves;
+    expect(usdc.decimals).toEqual(6);
+    expect(usdc.rateStrategy).toEqual("rateStrategyStableOne");
+    expect(usdc.strategy.emode).toEqual(1);
+    expect(usdc.strategy.supplyCap).toEqual("2000000000");
+    expect(weth.strategy.emode).toEqual(0);
+    expect(market.rateStrategies.rateStrategyStableOne).toEqual({
+      optimalUsageRatio: "900000000000000000000000000",
+      baseVariableBorrowRate: "0",
+      variableRateSlope1: "40000000000000000000000000",
+      variableRateSlope2: "600000000000000000000000000",
+    });
+  });
+
+  test("Rounds rates to bps and reports the precision loss", () => {
+    const { market, unsupported } = importDeployV3Market(aaveMarket);
+
+    expect(market.rateStrategies.rateStrategyVolatileOne.variableRateSlope1).toEqual("70000000000000000000000000");
+    expect(unsupported).toContainEqual({
+      path: "RateStrategies.rateStrategyVolatileOne.variableRateSlope1",
+      value: "70050000000000000000000000",
+      reason: "rounded down to 700 bps",
+    });
+  });
+
+  test("Reports fields without an Aptos equivalent", () => {
+    const { unsupported } = importDeployV3Market(aaveMarket);
+    const paths = unsupported.map((issue) => issue.path);
+
+    expect(paths).toContain("ReservesConfig.USDC.stableBorrowRateEnabled");
+    expect(paths).not.toContain("ReservesConfig.WETH.stableBorrowRateEnabled");
+    expect(paths).toContain("RateStrategies.rateStrategyStableOne.stableRateSlope1");
+    expect(paths).not.toContain("RateStrategies.rateStrategyVolatileOne.stableRateSlope1");
+    expect(paths).toContain("FlashLoanPremiums");
+  });
+
+  test("Uses the given name and treasury", () => {
+    const treasury = "0x800010ed1fe94674af83640117490d459e20441eab132c17e7ff39b7ae07a722";
+    const { market } = importDeployV3Market(aaveMarket, { name: "aave-mainnet", treasury });
+
+    expect(market.name).toEqual("aave-mainnet");
+    expect(market.treasury).toEqual(treasury);
+  });
+
+  test("Loads and imports the aave market of @aave/deploy-v3", () => {
+    const config = loadDeployV3Market("aave");
+    const { market, errors } = importDeployV3Market(config, { name: "aave-mainnet" });
+
+    expect(config.MarketId).toEqual("Ethereum Aave Market");
+    expect(market.reserves.map((reserve) => reserve.symbol)).toEqual(Object.keys(config.ReservesConfig));
+    expect(market.reserves.length).toBeGreaterThan(0);
+    expect(errors).toEqual([]);
+  });
+});
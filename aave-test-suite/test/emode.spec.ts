@@ -0,0 +1,156 @@
+import { Ed25519Account } from "@aptos-labs/ts-sdk";
+import {
+  AptosProvider,
+  consts,
+  CoreClient,
+  OracleClient,
+  PoolClient,
+  UnderlyingTokensClient,
+  VariableTokensClient,
+} from "@aave/aave-v3-aptos-ts-sdk";
+import { parseUnits } from "ethers";
+import { initializeMakeSuite, testEnv } from "../configs/config";
+import { eModes, strategyDAI, strategyUSDC } from "../configs/pool";
+import { calcExpectedLiquidatedCollateral } from "../helpers/calculations";
+import { AaveError } from "../helpers/errorCodes";
+import { expectEvent } from "../helpers/events";
+import { SUITE_SETUP_TIMEOUT } from "../helpers/localnet";
+import { expectMoveAbort } from "../helpers/moveAbort";
+import { createTestUser, teardownTestUsers } from "../helpers/testUsers";
+
+const ethCorrelated = eModes.find(({ label }) => label === "ETH correlated");
+const stablecoins = eModes.find(({ label }) => label === "Stablecoins");
+
+// DAI and USDC at the same price, USDC then loses 10% to make the borrower liquidatable
+const PRICE = 100n;
+const DEPEGGED_USDC_PRICE = 90n;
+
+describe("eMode", () => {
+  let aptosProvider: AptosProvider;
+  let coreClient: CoreClient;
+  let poolClient: PoolClient;
+  let oracleClient: OracleClient;
+  let underlyingTokensClient: UnderlyingTokensClient;
+  let daiPriceBefore: bigint;
+  let usdcPriceBefore: bigint;
+  let daiDecimals: number;
+  let usdcDecimals: number;
+  let borrower: Ed25519Account;
+
+  beforeAll(async () => {
+    await initializeMakeSuite();
+    aptosProvider = AptosProvider.fromEnvs();
+    coreClient = new CoreClient(aptosProvider, aptosProvider.getPoolProfileAccount());
+    poolClient = new PoolClient(aptosProvider, aptosProvider.getPoolProfileAccount());
+    oracleClient = new OracleClient(aptosProvider, aptosProvider.getOracleProfileAccount());
+    underlyingTokensClient = new UnderlyingTokensClient(aptosProvider, aptosProvider.getUnderlyingTokensProfileAccount());
+
+    const { dai, usdc } = testEnv;
+    daiDecimals = Number(await underlyingTokensClient.decimals(dai));
+    usdcDecimals = Number(await underlyingTokensClient.decimals(usdc));
+    daiPriceBefore = await oracleClient.getAssetPrice(dai);
+    usdcPriceBefore = await oracleClient.getAssetPrice(usdc);
+    await oracleClient.setAssetCustomPrice(dai, PRICE);
+    await oracleClient.setAssetCustomPrice(usdc, PRICE);
+
+    // the market leaves every asset out of eMode, the stablecoins join their category for this spec
+    await poolClient.setAssetEmodeCategory(dai, stablecoins.categoryId);
+    await poolClient.setAssetEmodeCategory(usdc, stablecoins.categoryId);
+
+    await createTestUser({ supply: { DAI: "2000" } });
+    borrower = await createTestUser({ supply: { USDC: "1000" } });
+    await coreClient.withSigner(borrower).setUserUseReserveAsCollateral(usdc, true);
+  }, SUITE_SETUP_TIMEOUT);
+
+  afterAll(async () => {
+    const { dai, usdc } = testEnv;
+    await poolClient.setAssetEmodeCategory(dai, strategyDAI.emode);
+    await poolClient.setAssetEmodeCategory(usdc, strategyUSDC.emode);
+    await oracleClient.setAssetCustomPrice(dai, daiPriceBefore);
+    await oracleClient.setAssetCustomPrice(usdc, usdcPriceBefore);
+    await teardownTestUsers();
+  });
+
+  it("Entering the Stablecoins category raises the LTV and liquidation threshold", async () => {
+    const accountDataBefore = await coreClient.getUserAccountData(borrower.accountAddress);
+    expect(accountDataBefore.ltv.toString()).toBe(strategyUSDC.baseLTVAsCollateral);
+    expect(accountDataBefore.currentLiquidationThreshold.toString()).toBe(strategyUSDC.liquidationThreshold);
+
+    const tx = await poolClient.withSigner(borrower).setUserEmode(stablecoins.categoryId);
+
+    expectEvent(tx, "UserEModeSet", { user: borrower.accountAddress, categoryId: stablecoins.categoryId });
+    expect(await poolClient.getUserEmode(borrower.accountAddress)).toBe(stablecoins.categoryId);
+    const accountDataAfter = await coreClient.getUserAccountData(borrower.accountAddress);
+    expect(accountDataAfter.ltv).toBe(BigInt(stablecoins.ltv));
+    expect(accountDataAfter.currentLiquidationThreshold).toBe(BigInt(stablecoins.liquidationThreshold));
+    expect(accountDataAfter.availableBorrowsBase > accountDataBefore.availableBorrowsBase).toBe(true);
+  });
+
+  it("Borrows past the regular LTV of the collateral", async () => {
+    const { dai } = testEnv;
+    // 88% of the collateral, above the 80% LTV and the 85% liquidation threshold of USDC outside eMode
+    const tx = await coreClient
+      .withSigner(borrower)
+      .borrow(
+        dai,
+        parseUnits("880", daiDecimals),
+        consts.INTEREST_RATE_MODES.VARIABLE,
+        consts.AAVE_REFERRAL,
+        borrower.accountAddress,
+      );
+
+    expectEvent(tx, "Borrow", { reserve: dai, user: borrower.accountAddress });
+    const { healthFactor } = await coreClient.getUserAccountData(borrower.accountAddress);
+    expect(healthFactor > BigInt(consts.WAD)).toBe(true);
+  });
+
+  it("Cannot leave the category while that would drop the health factor below 1 (revert expected)", async () => {
+    await expectMoveAbort(poolClient.withSigner(borrower).setUserEmode(0), {
+      module: "validation_logic",
+      code: AaveError.EHEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD,
+    });
+    expect(await poolClient.getUserEmode(borrower.accountAddress)).toBe(stablecoins.categoryId);
+  });
+
+  it("Cannot switch to a category its debt is not in (revert expected)", async () => {
+    await expectMoveAbort(poolClient.withSigner(borrower).setUserEmode(ethCorrelated.categoryId), {
+      module: "validation_logic",
+      code: AaveError.EINCONSISTENT_EMODE_CATEGORY,
+    });
+  });
+
+  it("Is liquidated with the eMode liquidation bonus", async () => {
+    const { dai, usdc } = testEnv;
+    const variableTokensClient = new VariableTokensClient(aptosProvider);
+    const { variableDebtTokenAddress } = await poolClient.getReserveData(dai);
+    const liquidator = await createTestUser({ mint: { DAI: "1000" } });
+
+    await oracleClient.setAssetCustomPrice(usdc, DEPEGGED_USDC_PRICE);
+    const { healthFactor } = await coreClient.getUserAccountData(borrower.accountAddress);
+    expect(healthFactor < BigInt(consts.WAD)).toBe(true);
+
+    // the position is below the close factor thresholds, all of its debt can be liquidated
+    const tx = await coreClient
+      .withSigner(liquidator)
+      .liquidationCall(usdc, dai, borrower.accountAddress, BigInt(consts.MAX_UINT_AMOUNT), false);
+
+    const { debtToCover, liquidatedCollateralAmount } = expectEvent(tx, "LiquidationCall", {
+      collateralAsset: usdc,
+      debtAsset: dai,
+      user: borrower.accountAddress,
+      liquidator: liquidator.accountAddress,
+    });
+    const { collateralAmount } = calcExpectedLiquidatedCollateral(
+      debtToCover,
+      PRICE,
+      daiDecimals,
+      DEPEGGED_USDC_PRICE,
+      usdcDecimals,
+      stablecoins.liquidationBonus,
+      strategyUSDC.liquidationProtocolFee,
+    );
+    expect(liquidatedCollateralAmount.toString()).toBe(collateralAmount.toString());
+    expect(await underlyingTokensClient.balanceOf(liquidator.accountAddress, usdc)).toBe(liquidatedCollateralAmount);
+    expect(await variableTokensClient.balanceOf(borrower.accountAddress, variableDebtTokenAddress)).toBe(0n);
+  }, 60000);
+});
@@ -0,0 +1,40 @@
+import fs from "fs";
+import path from "path";
+import { expect, test, describe } from "@jest/globals";
+import { errorConfigPath, parseMoveErrorConstants, renderErrorCodes } from "../helpers/errorCatalogue";
+import { AaveError, AaveErrorMessage } from "../helpers/errorCodes";
+
+describe("Error catalogue", () => {
+  test("Parses error constants and their doc comments", () => {
+    const source = [
+      "module aave_config::error_config {",
+      "    // Error constants",
+      "    /// @notice Amount must be greater than 0",
+      "    const EINVALID_AMOUNT: u64 = 26;",
+      "",
+      "    // aave_oracle module error code range from 1201 to 1300.",
+      "    /// The snapshot ratio is zero",
+      "    const EZERO_SNAPSHOT_RATIO: u64 = 1220;",
+      "    const EUNDOCUMENTED: u64 = 9999;",
+      "}",
+    ].join("\n");
+    expect(parseMoveErrorConstants(source)).toEqual([
+      { name: "EINVALID_AMOUNT", code: 26, message: "Amount must be greater than 0" },
+      { name: "EZERO_SNAPSHOT_RATIO", code: 1220, message: "The snapshot ratio is zero" },
+      { name: "EUNDOCUMENTED", code: 9999, message: "" },
+    ]);
+  });
+
+  test("helpers/errorCodes.ts is up to date with error_config.move", () => {
+    const constants = parseMoveErrorConstants(fs.readFileSync(errorConfigPath, { encoding: "utf8" }));
+    const source = path.relative(path.resolve(__dirname, "../.."), errorConfigPath);
+    const current = fs.readFileSync(path.resolve(__dirname, "../helpers/errorCodes.ts"), { encoding: "utf8" });
+    expect(current).toEqual(renderErrorCodes(constants, source));
+  });
+
+  test("Maps codes to names and messages", () => {
+    expect(AaveError.ERESERVE_FROZEN).toEqual(0x1c);
+    expect(AaveError[0x2d]).toEqual("EHEALTH_FACTOR_NOT_BELOW_THRESHOLD");
+    expect(AaveErrorMessage[AaveError.EROLE_MISMATCH]).toEqual("Account is missing role");
+  });
+});
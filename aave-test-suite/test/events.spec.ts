@@ -0,0 +1,64 @@
+import { expect, test, describe } from "@jest/globals";
+import { AccountAddress, CommittedTransactionResponse } from "@aptos-labs/ts-sdk";
+import { expectEvent, expectNoEvent, getEvents } from "../helpers/events";
+
+const POOL = "0xaa";
+const DAI = "0x2b";
+const USER = AccountAddress.from("0x123", { maxMissingChars: 63 });
+
+// the parts of a committed supply transaction the decoder reads
+const supplyTx = {
+  hash: "0xfeed",
+  events: [
+    {
+      type: "0x1::fungible_asset::Withdraw",
+      data: { store: "0x55", amount: "1000" },
+    },
+    {
+      type: `${POOL}::pool_logic::ReserveDataUpdated`,
+      data: {
+        reserve: DAI,
+        liquidity_rate: "0",
+        variable_borrow_rate: "0",
+        liquidity_index: "1000000000000000000000000000",
+        variable_borrow_index: "1000000000000000000000000000",
+      },
+    },
+    {
+      type: `${POOL}::supply_logic::Supply`,
+      data: { reserve: DAI, user: "0x123", on_behalf_of: "0x123", amount: "1000", referral_code: 0 },
+    },
+  ],
+} as unknown as CommittedTransactionResponse;
+
+describe("Pool events", () => {
+  test("Decodes pool events in emission order", () => {
+    const events = getEvents(supplyTx);
+    expect(events.map(({ name }) => name)).toEqual(["ReserveDataUpdated", "Supply"]);
+
+    const [supply] = getEvents(supplyTx, "Supply");
+    expect(supply.type).toEqual(`${POOL}::supply_logic::Supply`);
+    expect(supply.data).toEqual({
+      reserve: AccountAddress.from(DAI, { maxMissingChars: 63 }).toStringLong(),
+      user: USER.toStringLong(),
+      onBehalfOf: USER.toStringLong(),
+      amount: 1000n,
+      referralCode: 0,
+    });
+  });
+
+  test("Matches expected fields whatever their representation", () => {
+    const supply = expectEvent(supplyTx, "Supply", { reserve: DAI, user: USER, amount: 1000 });
+    expect(supply.amount).toEqual(1000n);
+    expectEvent(supplyTx, "ReserveDataUpdated", { liquidityIndex: "1000000000000000000000000000" });
+  });
+
+  test("Fails when no event has the expected fields", () => {
+    expect(() => expectEvent(supplyTx, "Supply", { amount: 999n })).toThrow(
+      'Expected a Supply event with {"amount":"999"} in tx 0xfeed',
+    );
+    expect(() => expectEvent(supplyTx, "Borrow")).toThrow("emitted: none");
+    expect(() => expectNoEvent(supplyTx, "Supply")).toThrow("Expected no Supply event in tx 0xfeed, got 1");
+    expectNoEvent(supplyTx, "Withdraw");
+  });
+});
@@ -0,0 +1,210 @@
+import { Ed25519Account } from "@aptos-labs/ts-sdk";
+import {
+  AclClient,
+  AptosProvider,
+  ATokensClient,
+  CoreClient,
+  PoolClient,
+  UnderlyingTokensClient,
+  VariableTokensClient,
+} from "@aave/aave-v3-aptos-ts-sdk";
+import { BigNumber } from "@ethersproject/bignumber";
+import { parseUnits } from "ethers";
+import { initializeMakeSuite, testEnv } from "../configs/config";
+import "../helpers/wadraymath";
+import { calcExpectedReserveDataAfterFlashLoan } from "../helpers/calculations";
+import { AaveError } from "../helpers/errorCodes";
+import { expectEvent, expectNoEvent } from "../helpers/events";
+import { FLASH_LOAN_MODES, FlashLoanReceiverClient } from "../helpers/flashLoanReceiver";
+import { SUITE_SETUP_TIMEOUT } from "../helpers/localnet";
+import { expectMoveAbort } from "../helpers/moveAbort";
+import { getReserveSnapshot, getTxTimestamp } from "../helpers/snapshots";
+import { createTestUser, teardownTestUsers } from "../helpers/testUsers";
+
+// 0.09% of the amount, 30% of it to the protocol
+const FLASHLOAN_PREMIUM_TOTAL = 9n;
+const FLASHLOAN_PREMIUM_TO_PROTOCOL = 3000n;
+
+const premiumOf = (amount: bigint): bigint =>
+  BigInt(BigNumber.from(amount).percentMul(FLASHLOAN_PREMIUM_TOTAL.toString()).toString());
+
+describe("Flash loans", () => {
+  let aptosProvider: AptosProvider;
+  let poolClient: PoolClient;
+  let aclClient: AclClient;
+  let aTokensClient: ATokensClient;
+  let underlyingTokensClient: UnderlyingTokensClient;
+  let receiverClient: FlashLoanReceiverClient;
+  let borrower: Ed25519Account;
+  let daiAmount: bigint;
+  let usdcAmount: bigint;
+  // the premiums are pool wide, restored for the specs that run next
+  let premiumTotalBefore: bigint;
+  let premiumToProtocolBefore: bigint;
+
+  beforeAll(async () => {
+    await initializeMakeSuite();
+    aptosProvider = AptosProvider.fromEnvs();
+    poolClient = new PoolClient(aptosProvider, aptosProvider.getPoolProfileAccount());
+    aclClient = new AclClient(aptosProvider, aptosProvider.getAclProfileAccount());
+    aTokensClient = new ATokensClient(aptosProvider);
+    underlyingTokensClient = new UnderlyingTokensClient(aptosProvider, aptosProvider.getUnderlyingTokensProfileAccount());
+    receiverClient = new FlashLoanReceiverClient(aptosProvider);
+
+    const { dai, usdc } = testEnv;
+    premiumTotalBefore = await poolClient.getFlashloanPremiumTotal();
+    premiumToProtocolBefore = await poolClient.getFlashloanPremiumToProtocol();
+    await poolClient.withModuleSigner().updateFloashloanPremiumTotal(FLASHLOAN_PREMIUM_TOTAL);
+    await poolClient.withModuleSigner().updateFloashloanPremiumToProtocol(FLASHLOAN_PREMIUM_TO_PROTOCOL);
+    await poolClient.withModuleSigner().setReserveFlashLoaning(dai, true);
+    await poolClient.withModuleSigner().setReserveFlashLoaning(usdc, true);
+
+    // the liquidity to flash-borrow, the borrower only holds what it needs for the premiums
+    await createTestUser({ supply: { DAI: "1000", USDC: "1000" } });
+    borrower = await createTestUser({ mint: { DAI: "1", USDC: "1" } });
+    daiAmount = parseUnits("100", Number(await underlyingTokensClient.decimals(dai)));
+    usdcAmount = parseUnits("100", Number(await underlyingTokensClient.decimals(usdc)));
+  }, SUITE_SETUP_TIMEOUT);
+
+  afterAll(async () => {
+    await poolClient.withModuleSigner().updateFloashloanPremiumTotal(premiumTotalBefore);
+    await poolClient.withModuleSigner().updateFloashloanPremiumToProtocol(premiumToProtocolBefore);
+    await teardownTestUsers();
+  });
+
+  it("Takes a simple flash loan and pays it back with the premium", async () => {
+    const { dai } = testEnv;
+    const premium = premiumOf(daiAmount);
+    const balanceBefore = await underlyingTokensClient.balanceOf(borrower.accountAddress, dai);
+
+    const tx = await receiverClient.withSigner(borrower).flashLoanSimple(dai, daiAmount);
+
+    expectEvent(tx, "FlashLoan", {
+      target: borrower.accountAddress,
+      initiator: borrower.accountAddress,
+      asset: dai,
+      amount: daiAmount,
+      interestRateMode: FLASH_LOAN_MODES.NONE,
+      premium,
+    });
+    const balanceAfter = await underlyingTokensClient.balanceOf(borrower.accountAddress, dai);
+    expect(balanceAfter).toBe(balanceBefore - premium);
+  });
+
+  it("Splits the premium between the treasury and the suppliers", async () => {
+    const { dai, aDai } = testEnv;
+    const reserveDataBefore = await getReserveSnapshot(aptosProvider, dai);
+    const aTokenScaledTotalSupply = BigNumber.from(await aTokensClient.scaledTotalSupply(aDai));
+
+    const tx = await receiverClient.withSigner(borrower).flashLoanSimple(dai, daiAmount);
+
+    const expectedReserveData = calcExpectedReserveDataAfterFlashLoan(
+      daiAmount,
+      premiumOf(daiAmount),
+      FLASHLOAN_PREMIUM_TO_PROTOCOL,
+      aTokenScaledTotalSupply,
+      reserveDataBefore,
+      getTxTimestamp(tx),
+    );
+    const reserveDataAfter = await getReserveSnapshot(aptosProvider, dai);
+    expect(reserveDataAfter.accruedToTreasuryScaled.gt(reserveDataBefore.accruedToTreasuryScaled)).toBe(true);
+    for (const key of Object.keys(expectedReserveData)) {
+      expect(`${key}: ${reserveDataAfter[key].toString()}`).toBe(`${key}: ${expectedReserveData[key].toString()}`);
+    }
+  });
+
+  it("Takes a multi-asset flash loan and pays every asset back with its premium", async () => {
+    const { dai, usdc } = testEnv;
+    const daiBalanceBefore = await underlyingTokensClient.balanceOf(borrower.accountAddress, dai);
+    const usdcBalanceBefore = await underlyingTokensClient.balanceOf(borrower.accountAddress, usdc);
+
+    const tx = await receiverClient
+      .withSigner(borrower)
+      .flashLoan([dai, usdc], [daiAmount, usdcAmount], [FLASH_LOAN_MODES.NONE, FLASH_LOAN_MODES.NONE]);
+
+    expectEvent(tx, "FlashLoan", { asset: dai, amount: daiAmount, premium: premiumOf(daiAmount) });
+    expectEvent(tx, "FlashLoan", { asset: usdc, amount: usdcAmount, premium: premiumOf(usdcAmount) });
+    expectNoEvent(tx, "Borrow");
+    expect(await underlyingTokensClient.balanceOf(borrower.accountAddress, dai)).toBe(
+      daiBalanceBefore - premiumOf(daiAmount),
+    );
+    expect(await underlyingTokensClient.balanceOf(borrower.accountAddress, usdc)).toBe(
+      usdcBalanceBefore - premiumOf(usdcAmount),
+    );
+  });
+
+  it("Opens a variable debt for an asset the receiver keeps", async () => {
+    const { dai, weth } = testEnv;
+    const coreClient = new CoreClient(aptosProvider);
+    const variableTokensClient = new VariableTokensClient(aptosProvider);
+    const { variableDebtTokenAddress } = await poolClient.getReserveData(dai);
+    const collateralOwner = await createTestUser({ supply: { WETH: "10" } });
+    await coreClient.withSigner(collateralOwner).setUserUseReserveAsCollateral(weth, true);
+
+    const tx = await receiverClient
+      .withSigner(collateralOwner)
+      .flashLoan([dai], [daiAmount], [FLASH_LOAN_MODES.VARIABLE]);
+
+    expectEvent(tx, "FlashLoan", { asset: dai, interestRateMode: FLASH_LOAN_MODES.VARIABLE, premium: 0 });
+    expectEvent(tx, "Borrow", { reserve: dai, onBehalfOf: collateralOwner.accountAddress, amount: daiAmount });
+    expect(await underlyingTokensClient.balanceOf(collateralOwner.accountAddress, dai)).toBe(daiAmount);
+    const debt = await variableTokensClient.balanceOf(collateralOwner.accountAddress, variableDebtTokenAddress);
+    expect(debt >= daiAmount).toBe(true);
+  }, 60000);
+
+  it("Waives the multi-asset premium of authorized flash borrowers", async () => {
+    const { dai } = testEnv;
+    await aclClient.withModuleSigner().addFlashBorrower(borrower.accountAddress);
+    try {
+      expect(await aclClient.isFlashBorrower(borrower.accountAddress)).toBe(true);
+      const balanceBefore = await underlyingTokensClient.balanceOf(borrower.accountAddress, dai);
+
+      const tx = await receiverClient.withSigner(borrower).flashLoan([dai], [daiAmount], [FLASH_LOAN_MODES.NONE]);
+      expectEvent(tx, "FlashLoan", { asset: dai, amount: daiAmount, premium: 0 });
+      expect(await underlyingTokensClient.balanceOf(borrower.accountAddress, dai)).toBe(balanceBefore);
+
+      // the waiver does not extend to simple flash loans
+      const simpleTx = await receiverClient.withSigner(borrower).flashLoanSimple(dai, daiAmount);
+      expectEvent(simpleTx, "FlashLoan", { asset: dai, premium: premiumOf(daiAmount) });
+    } finally {
+      await aclClient.withModuleSigner().removeFlashBorrower(borrower.accountAddress);
+    }
+    expect(await aclClient.isFlashBorrower(borrower.accountAddress)).toBe(false);
+  });
+
+  it("Fails when the receiver cannot pay the premium back (revert expected)", async () => {
+    const { dai } = testEnv;
+    const emptyReceiver = await createTestUser();
+    await expectMoveAbort(receiverClient.withSigner(emptyReceiver).flashLoanSimple(dai, daiAmount), {
+      module: "fungible_asset",
+      name: "EINSUFFICIENT_BALANCE",
+    });
+  });
+
+  it("Fails when someone else than the receiver pays the loan back (revert expected)", async () => {
+    const { dai, users } = testEnv;
+    await expectMoveAbort(
+      receiverClient.withSigner(borrower).flashLoanSimpleToReceiver(users[3].accountAddress, dai, daiAmount),
+      { module: "flashloan_logic", code: AaveError.EFLASHLOAN_PAYER_NOT_RECEIVER },
+    );
+  });
+
+  it("Reverts on a reserve with flash loans disabled (revert expected)", async () => {
+    const { dai, usdc } = testEnv;
+    await poolClient.withModuleSigner().setReserveFlashLoaning(dai, false);
+    try {
+      await expectMoveAbort(receiverClient.withSigner(borrower).flashLoanSimple(dai, daiAmount), {
+        module: "validation_logic",
+        code: AaveError.EFLASHLOAN_DISABLED,
+      });
+      await expectMoveAbort(
+        receiverClient
+          .withSigner(borrower)
+          .flashLoan([usdc, dai], [usdcAmount, daiAmount], [FLASH_LOAN_MODES.NONE, FLASH_LOAN_MODES.NONE]),
+        { module: "validation_logic", code: AaveError.EFLASHLOAN_DISABLED },
+      );
+    } finally {
+      await poolClient.withModuleSigner().setReserveFlashLoaning(dai, true);
+    }
+  });
+});
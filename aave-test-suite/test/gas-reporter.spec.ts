@@ -0,0 +1,46 @@
+import { expect, test, describe } from "@jest/globals";
+import { CommittedTransactionResponse } from "@aptos-labs/ts-sdk";
+import { compareGasBaseline, formatGasTable, GasRecord, summarizeGas, toGasRecord } from "../helpers/gasReporter";
+
+const records: Array<GasRecord> = [
+  { function: "supply_logic::supply", gasUsed: 100, gasUnitPrice: 100 },
+  { function: "borrow_logic::borrow", gasUsed: 300, gasUnitPrice: 100 },
+  { function: "supply_logic::supply", gasUsed: 121, gasUnitPrice: 150 },
+];
+
+describe("Gas reporter", () => {
+  test("Records the entry function without its package address", () => {
+    const tx = {
+      type: "user_transaction",
+      payload: { type: "entry_function_payload", function: "0xaa::supply_logic::supply", arguments: [] },
+      gas_used: "512",
+      gas_unit_price: "100",
+    } as unknown as CommittedTransactionResponse;
+    expect(toGasRecord(tx)).toEqual({ function: "supply_logic::supply", gasUsed: 512, gasUnitPrice: 100 });
+  });
+
+  test("Summarizes min, avg and max gas per function", () => {
+    expect(summarizeGas(records)).toEqual([
+      { function: "borrow_logic::borrow", calls: 1, min: 300, avg: 300, max: 300, avgGasUnitPrice: 100 },
+      { function: "supply_logic::supply", calls: 2, min: 100, avg: 111, max: 121, avgGasUnitPrice: 125 },
+    ]);
+    expect(formatGasTable(summarizeGas(records)).split("\n")).toEqual([
+      "function              calls  min  avg  max  avg gas unit price",
+      "--------------------  -----  ---  ---  ---  ------------------",
+      "borrow_logic::borrow      1  300  300  300                 100",
+      "supply_logic::supply      2  100  111  121                 125",
+    ]);
+  });
+
+  test("Reports functions that regress beyond the threshold", () => {
+    const baseline = summarizeGas([
+      { function: "supply_logic::supply", gasUsed: 100, gasUnitPrice: 100 },
+      { function: "borrow_logic::borrow", gasUsed: 290, gasUnitPrice: 100 },
+      { function: "repay_logic::repay", gasUsed: 50, gasUnitPrice: 100 },
+    ]);
+    expect(compareGasBaseline(summarizeGas(records), baseline)).toEqual([
+      { function: "supply_logic::supply", baselineAvg: 100, avg: 111, increase: 11 },
+    ]);
+    expect(compareGasBaseline(summarizeGas(records), baseline, 20)).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+import { Ed25519Account } from "@aptos-labs/ts-sdk";
+import { AptosProvider, consts, CoreClient, UnderlyingTokensClient } from "@aave/aave-v3-aptos-ts-sdk";
+import { advanceTime, initializeMakeSuite, testEnv } from "../configs/config";
+import "../helpers/wadraymath";
+import { getReserveSnapshot, getTxTimestamp } from "../helpers/snapshots";
+import { calcCompoundedInterest, calcExpectedReserveDataAfterSupply, calcLinearInterest } from "../helpers/calculations";
+import { SUITE_SETUP_TIMEOUT } from "../helpers/localnet";
+import { createTestUser, teardownTestUsers } from "../helpers/testUsers";
+
+describe("Interest accrual over time", () => {
+  let aptosProvider: AptosProvider;
+  let coreClient: CoreClient;
+  let underlyingTokensClient: UnderlyingTokensClient;
+  let supplier: Ed25519Account;
+
+  beforeAll(async () => {
+    await initializeMakeSuite();
+    aptosProvider = AptosProvider.fromEnvs();
+    coreClient = new CoreClient(aptosProvider, aptosProvider.getPoolProfileAccount());
+    underlyingTokensClient = new UnderlyingTokensClient(aptosProvider, aptosProvider.getUnderlyingTokensProfileAccount());
+
+    const { dai, weth } = testEnv;
+    supplier = await createTestUser({ mint: { DAI: "10" }, supply: { DAI: "1000" } });
+    // every reserve has the same oracle price, so the WETH has to cover the 400 DAI at its ltv
+    const borrower = await createTestUser({ supply: { WETH: "1000" } });
+    await coreClient.withSigner(borrower).setUserUseReserveAsCollateral(weth, true);
+    const daiDecimals = Number(await underlyingTokensClient.decimals(dai));
+    await coreClient
+      .withSigner(borrower)
+      .borrow(
+        dai,
+        400n * 10n ** BigInt(daiDecimals),
+        consts.INTEREST_RATE_MODES.VARIABLE,
+        consts.AAVE_REFERRAL,
+        borrower.accountAddress,
+      );
+  }, SUITE_SETUP_TIMEOUT);
+
+  afterAll(async () => {
+    await teardownTestUsers();
+  });
+
+  it("Liquidity and variable borrow indexes grow with the reserve rates", async () => {
+    const { dai } = testEnv;
+    const reserveDataBefore = await getReserveSnapshot(aptosProvider, dai);
+    expect(reserveDataBefore.variableBorrowRate.gt(0)).toBe(true);
+
+    const advancedTo = await advanceTime(30);
+
+    // any action on the reserve brings its indexes up to date
+    const tx = await coreClient.withSigner(supplier).supply(dai, 1n, supplier.accountAddress, consts.AAVE_REFERRAL);
+    const txTimestamp = getTxTimestamp(tx);
+    // the localnet clock moves on its own, so the interest is checked over the time that was measured
+    expect(txTimestamp.gte(advancedTo)).toBe(true);
+    expect(txTimestamp.gt(reserveDataBefore.lastUpdateTimestamp)).toBe(true);
+
+    const reserveDataAfter = await getReserveSnapshot(aptosProvider, dai);
+    const expectedLiquidityIndex = calcLinearInterest(
+      reserveDataBefore.liquidityRate,
+      reserveDataBefore.lastUpdateTimestamp,
+      txTimestamp,
+    ).rayMul(reserveDataBefore.liquidityIndex);
+    const expectedVariableBorrowIndex = calcCompoundedInterest(
+      reserveDataBefore.variableBorrowRate,
+      reserveDataBefore.lastUpdateTimestamp,
+      txTimestamp,
+    ).rayMul(reserveDataBefore.variableBorrowIndex);
+
+    expect(reserveDataAfter.liquidityIndex.gt(reserveDataBefore.liquidityIndex)).toBe(true);
+    expect(reserveDataAfter.variableBorrowIndex.gt(reserveDataBefore.variableBorrowIndex)).toBe(true);
+    expect(reserveDataAfter.liquidityIndex.toString()).toBe(expectedLiquidityIndex.toString());
+    expect(reserveDataAfter.variableBorrowIndex.toString()).toBe(expectedVariableBorrowIndex.toString());
+  }, 90000); // advanceTime waits for the localnet clock
+
+  it("The whole reserve state matches the expected state after time passes", async () => {
+    const { dai } = testEnv;
+    const reserveDataBefore = await getReserveSnapshot(aptosProvider, dai);
+
+    const daiDecimals = Number(await underlyingTokensClient.decimals(dai));
+    const daiDepositAmount = 10 ** daiDecimals;
+
+    await advanceTime(10);
+
+    const tx = await coreClient
+      .withSigner(supplier)
+      .supply(dai, BigInt(daiDepositAmount), supplier.accountAddress, consts.AAVE_REFERRAL);
+
+    const expectedReserveData = calcExpectedReserveDataAfterSupply(
+      daiDepositAmount,
+      reserveDataBefore,
+      getTxTimestamp(tx),
+    );
+    const reserveDataAfter = await getReserveSnapshot(aptosProvider, dai);
+    for (const key of Object.keys(expectedReserveData)) {
+      expect(`${key}: ${reserveDataAfter[key].toString()}`).toBe(`${key}: ${expectedReserveData[key].toString()}`);
+    }
+  }, 90000);
+});
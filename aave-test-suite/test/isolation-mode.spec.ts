@@ -0,0 +1,146 @@
+import { AccountAddress, Ed25519Account } from "@aptos-labs/ts-sdk";
+import { AptosProvider, consts, CoreClient, PoolClient, UnderlyingTokensClient } from "@aave/aave-v3-aptos-ts-sdk";
+import { parseUnits } from "ethers";
+import { initializeMakeSuite, LINK, testEnv } from "../configs/config";
+import { strategyLINK } from "../configs/pool";
+import { AaveError } from "../helpers/errorCodes";
+import { expectEvent } from "../helpers/events";
+import { SUITE_SETUP_TIMEOUT } from "../helpers/localnet";
+import { expectMoveAbort } from "../helpers/moveAbort";
+import { createTestUser, teardownTestUsers } from "../helpers/testUsers";
+
+describe("Isolation mode", () => {
+  let coreClient: CoreClient;
+  let poolClient: PoolClient;
+  let link: AccountAddress;
+  let daiDecimals: number;
+  let wethDecimals: number;
+  let debtCeilingDecimals: bigint;
+  let borrower: Ed25519Account;
+
+  // the isolated debt counts borrowed amounts with the debt ceiling decimals, rounded down
+  const toIsolatedDebt = (amount: bigint): bigint => amount / 10n ** (BigInt(daiDecimals) - debtCeilingDecimals);
+  const isolationModeTotalDebt = async (): Promise<bigint> =>
+    (await poolClient.getReserveData(link)).isolationModeTotalDebt;
+  const borrow = (asset: AccountAddress, amount: bigint) =>
+    coreClient
+      .withSigner(borrower)
+      .borrow(asset, amount, consts.INTEREST_RATE_MODES.VARIABLE, consts.AAVE_REFERRAL, borrower.accountAddress);
+
+  beforeAll(async () => {
+    await initializeMakeSuite();
+    const aptosProvider = AptosProvider.fromEnvs();
+    coreClient = new CoreClient(aptosProvider, aptosProvider.getPoolProfileAccount());
+    poolClient = new PoolClient(aptosProvider, aptosProvider.getPoolProfileAccount());
+    const underlyingTokensClient = new UnderlyingTokensClient(
+      aptosProvider,
+      aptosProvider.getUnderlyingTokensProfileAccount(),
+    );
+
+    link = await underlyingTokensClient.getMetadataBySymbol(LINK);
+    daiDecimals = Number(await underlyingTokensClient.decimals(testEnv.dai));
+    wethDecimals = Number(await underlyingTokensClient.decimals(testEnv.weth));
+    debtCeilingDecimals = await poolClient.getDebtCeilingDecimals();
+
+    await createTestUser({ supply: { DAI: "1000", WETH: "100" } });
+    // the minted DAI and WETH pay the interest back on teardown
+    borrower = await createTestUser({ supply: { LINK: "1000" }, mint: { DAI: "10", WETH: "2" } });
+  }, SUITE_SETUP_TIMEOUT);
+
+  afterAll(async () => {
+    const { dai, weth } = testEnv;
+    // a non-zero ceiling can only be set back once LINK has no suppliers left
+    const maxAmount = BigInt(consts.MAX_UINT_AMOUNT);
+    const variable = consts.INTEREST_RATE_MODES.VARIABLE;
+    await coreClient.withSigner(borrower).repay(dai, maxAmount, variable, borrower.accountAddress);
+    await coreClient.withSigner(borrower).repay(weth, maxAmount, variable, borrower.accountAddress);
+    await coreClient.withSigner(borrower).withdraw(link, maxAmount, borrower.accountAddress);
+    if ((await poolClient.getDebtCeiling(link)) !== BigInt(strategyLINK.debtCeiling)) {
+      await poolClient.setDebtCeiling(link, BigInt(strategyLINK.debtCeiling));
+    }
+    await teardownTestUsers();
+  }, 120000);
+
+  it("LINK is deployed with the debt ceiling of its strategy", async () => {
+    expect(await poolClient.getDebtCeiling(link)).toBe(BigInt(strategyLINK.debtCeiling));
+    expect(BigInt(strategyLINK.debtCeiling) > 0n).toBe(true);
+  });
+
+  it("Enables the isolated asset as the sole collateral", async () => {
+    const tx = await coreClient.withSigner(borrower).setUserUseReserveAsCollateral(link, true);
+
+    expectEvent(tx, "ReserveUsedAsCollateralEnabled", { reserve: link, user: borrower.accountAddress });
+  });
+
+  it("Cannot use another asset as collateral while isolated (revert expected)", async () => {
+    const { weth } = testEnv;
+    await coreClient
+      .withSigner(borrower)
+      .supply(weth, parseUnits("1", wethDecimals), borrower.accountAddress, consts.AAVE_REFERRAL);
+
+    await expectMoveAbort(coreClient.withSigner(borrower).setUserUseReserveAsCollateral(weth, true), {
+      module: "supply_logic",
+      code: AaveError.EUSER_IN_ISOLATION_MODE_OR_LTV_ZERO,
+    });
+  });
+
+  it("Cannot borrow an asset not borrowable in isolation (revert expected)", async () => {
+    await expectMoveAbort(borrow(testEnv.weth, parseUnits("1", wethDecimals)), {
+      module: "validation_logic",
+      code: AaveError.EASSET_NOT_BORROWABLE_IN_ISOLATION,
+    });
+  });
+
+  it("Tracks the isolated debt on borrow and repay", async () => {
+    const { dai } = testEnv;
+    const borrowed = parseUnits("100", daiDecimals);
+    const repaid = parseUnits("40", daiDecimals);
+    const totalDebtBefore = await isolationModeTotalDebt();
+
+    const borrowTx = await borrow(dai, borrowed);
+    const totalDebtAfterBorrow = totalDebtBefore + toIsolatedDebt(borrowed);
+    expectEvent(borrowTx, "IsolationModeTotalDebtUpdated", { asset: link, totalDebt: totalDebtAfterBorrow });
+    expect(await isolationModeTotalDebt()).toBe(totalDebtAfterBorrow);
+
+    const repayTx = await coreClient
+      .withSigner(borrower)
+      .repay(dai, repaid, consts.INTEREST_RATE_MODES.VARIABLE, borrower.accountAddress);
+    const totalDebtAfterRepay = totalDebtAfterBorrow - toIsolatedDebt(repaid);
+    expectEvent(repayTx, "IsolationModeTotalDebtUpdated", { asset: link, totalDebt: totalDebtAfterRepay });
+    expect(await isolationModeTotalDebt()).toBe(totalDebtAfterRepay);
+  });
+
+  it("Cannot borrow past the debt ceiling (revert expected)", async () => {
+    const { dai } = testEnv;
+    const headroom = parseUnits("50", daiDecimals);
+    const debtCeiling = (await isolationModeTotalDebt()) + toIsolatedDebt(headroom);
+    // lowering a non-zero ceiling does not require the reserve to be empty
+    await poolClient.setDebtCeiling(link, debtCeiling);
+    expect(await poolClient.getDebtCeiling(link)).toBe(debtCeiling);
+
+    await expectMoveAbort(borrow(dai, headroom + parseUnits("1", daiDecimals)), {
+      module: "validation_logic",
+      code: AaveError.EDEBT_CEILING_EXCEEDED,
+    });
+
+    await borrow(dai, headroom);
+    expect(await isolationModeTotalDebt()).toBe(debtCeiling);
+  });
+
+  it("A zero debt ceiling lifts isolation mode and resets the isolated debt", async () => {
+    const { dai, weth } = testEnv;
+    const oldDebtCeiling = await poolClient.getDebtCeiling(link);
+
+    const tx = await poolClient.setDebtCeiling(link, 0n);
+
+    expectEvent(tx, "DebtCeilingChanged", { asset: link, oldDebtCeiling, newDebtCeiling: 0 });
+    expectEvent(tx, "IsolationModeTotalDebtUpdated", { asset: link, totalDebt: 0 });
+    expect(await poolClient.getDebtCeiling(link)).toBe(0n);
+    expect(await isolationModeTotalDebt()).toBe(0n);
+
+    // LINK is now a regular collateral, without borrowing restrictions or debt tracking
+    await borrow(weth, parseUnits("1", wethDecimals));
+    await borrow(dai, parseUnits("10", daiDecimals));
+    expect(await isolationModeTotalDebt()).toBe(0n);
+  });
+});
@@ -11,6 +11,8 @@ import {
   UnderlyingTokensClient,
 } from "@aave/aave-v3-aptos-ts-sdk";
 import { AccountAddress } from "@aptos-labs/ts-sdk";
+import { expectMoveAbort } from "../helpers/moveAbort";
+import { AaveError } from "../helpers/errorCodes";
 
 describe("Pool Liquidation: Liquidator receiving the underlying asset", () => {
   let aptosProvider: AptosProvider;
@@ -59,18 +61,17 @@ describe("Pool Liquidation: Liquidator receiving the underlying asset", () => {
 
     const aaveDecimals = Number(await underlyingTokensClient.decimals(aave));
     const debtToCover = 1000 * 10 ** aaveDecimals;
-    try {
-      await coreClient
+    await expectMoveAbort(
+      coreClient
         .liquidationCall(
           weth,
           aave,
           user.accountAddress,
           BigInt(debtToCover),
           false,
-        );
-    } catch (err) {
-      expect(err.toString().includes("validation_logic: 0x1b")).toBe(true);
-    }
+        ),
+      { module: "validation_logic", code: AaveError.ERESERVE_INACTIVE },
+    );
 
     await poolClient.setReserveActive(aave, true);
   });
@@ -169,8 +170,8 @@ describe("Pool Liquidation: Liquidator receiving the underlying asset", () => {
     const amountToLiquidate = 100 * 10 ** usdcDecimals;
 
     // liquidator liquidationCall
-    try {
-      await coreClient
+    await expectMoveAbort(
+      coreClient
         .withSigner(liquidator)
         .liquidationCall(
           weth,
@@ -178,10 +179,8 @@ describe("Pool Liquidation: Liquidator receiving the underlying asset", () => {
           borrower.accountAddress,
           BigInt(amountToLiquidate),
           false,
-        );
-    } catch (err) {
-      // console.log("err:", err.toString())
-      expect(err.toString().includes("validation_logic: 0x2d")).toBe(true);
-    }
+        ),
+      { module: "validation_logic", code: AaveError.EHEALTH_FACTOR_NOT_BELOW_THRESHOLD },
+    );
   });
 });
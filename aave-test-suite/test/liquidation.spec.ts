@@ -6,6 +6,8 @@ import {
 } from "@aave/aave-v3-aptos-ts-sdk";
 import { initializeMakeSuite, testEnv } from "../configs/config";
 import "../helpers/wadraymath";
+import { expectMoveAbort } from "../helpers/moveAbort";
+import { AaveError } from "../helpers/errorCodes";
 
 describe("Liquidation Test", () => {
   let aptosProvider: AptosProvider;
@@ -91,13 +93,12 @@ describe("Liquidation Test", () => {
       );
 
     // Try to liquidate the borrower
-    try {
-      await coreClient
+    await expectMoveAbort(
+      coreClient
         .withSigner(depositor)
-        .liquidationCall(usdc, dai, borrower.accountAddress, 0n, false);
-    } catch (err) {
-      expect(err.toString().includes("validation_logic: 0x2d"));
-    }
+        .liquidationCall(usdc, dai, borrower.accountAddress, 0n, false),
+      { module: "validation_logic", code: AaveError.EHEALTH_FACTOR_NOT_BELOW_THRESHOLD },
+    );
   });
 
   it("ValidationLogic `executeLiquidationCall` where user has variable and stable debt, but variable debt is insufficient to cover the full liquidation amount", async () => {
@@ -132,21 +133,18 @@ describe("Liquidation Test", () => {
       .withModuleSigner()
       .mint(borrower.accountAddress, BigInt(wethMintAmount), weth);
 
-    const wethDepositAmount = 9 * 10 ** (wethDecimals - 1);
-    try {
-      // weth supply
-      await coreClient
+    // one more than the borrower holds, the users are shared with the other specs and may hold weth already
+    const wethDepositAmount = (await underlyingTokensClient.balanceOf(borrower.accountAddress, weth)) + 1n;
+    await expectMoveAbort(
+      coreClient
         .withSigner(borrower)
         .supply(
           weth,
-          BigInt(wethDepositAmount),
+          wethDepositAmount,
           borrower.accountAddress,
           consts.AAVE_REFERRAL,
-        );
-    } catch (err) {
-      expect(err.toString().includes("EINSUFFICIENT_BALANCE(0x10004)")).toBe(
-        true,
-      );
-    }
+        ),
+      { module: "fungible_asset", name: "EINSUFFICIENT_BALANCE" },
+    );
   });
 });
@@ -0,0 +1,143 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import YAML from "yaml";
+import { expect, test, describe, beforeAll, afterAll } from "@jest/globals";
+import {
+  aTokenSymbolOf,
+  COLLECTOR_TREASURY,
+  defaultMarketConfig,
+  loadMarketConfig,
+  MARKET_CONFIG_VERSION,
+  MarketConfig,
+  treasuryOf,
+  validateMarketConfig,
+  varTokenSymbolOf,
+} from "../configs/market";
+
+const LOCAL_MARKET_FILE = path.join(__dirname, "../configs/markets/aave-local.yaml");
+
+// a copy of the default market the tests can break without touching the shared strategies
+const marketWith = (change: (market: MarketConfig) => void): MarketConfig => {
+  const market = structuredClone(defaultMarketConfig());
+  change(market);
+  return market;
+};
+
+// the file leaves out what falls back to a default, compare the values applyMarketConfig deploys
+const withDefaultsResolved = (market: MarketConfig): MarketConfig => ({
+  ...market,
+  reserves: market.reserves.map((reserve) => ({
+    ...reserve,
+    treasury: treasuryOf(market, reserve).toString(),
+    aTokenSymbol: aTokenSymbolOf(reserve),
+    aTokenName: reserve.aTokenName ?? aTokenSymbolOf(reserve),
+    varTokenSymbol: varTokenSymbolOf(reserve),
+    varTokenName: reserve.varTokenName ?? varTokenSymbolOf(reserve),
+  })),
+});
+
+describe("Market config", () => {
+  let tmpDir: string;
+
+  const writeMarketFile = (name: string, contents: string): string => {
+    const filePath = path.join(tmpDir, name);
+    fs.writeFileSync(filePath, contents, { encoding: "utf8" });
+    return filePath;
+  };
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "market-config-"));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test("Ships the default market as configs/markets/aave-local.yaml", () => {
+    const loaded = loadMarketConfig(LOCAL_MARKET_FILE);
+    expect(withDefaultsResolved(loaded)).toEqual(withDefaultsResolved(defaultMarketConfig()));
+  });
+
+  test("Accepts the default market", () => {
+    expect(validateMarketConfig(defaultMarketConfig())).toEqual([]);
+  });
+
+  test("Loads the same market from JSON and YAML", () => {
+    const market = defaultMarketConfig();
+    const fromJson = loadMarketConfig(writeMarketFile("market.json", JSON.stringify(market, null, 2)));
+    const fromYaml = loadMarketConfig(writeMarketFile("market.yaml", YAML.stringify(market)));
+
+    expect(fromJson).toEqual(market);
+    expect(fromYaml).toEqual(fromJson);
+  });
+
+  test("Reads unquoted bps values and prices as strings", () => {
+    const market = YAML.parse(fs.readFileSync(LOCAL_MARKET_FILE, { encoding: "utf8" }));
+    const [reserve] = market.reserves;
+    reserve.strategy.baseLTVAsCollateral = Number(reserve.strategy.baseLTVAsCollateral);
+    reserve.strategy.aptFee = 1000;
+    reserve.price = 2;
+
+    const loaded = loadMarketConfig(writeMarketFile("unquoted.yaml", YAML.stringify(market)));
+    expect(loaded.reserves[0].strategy.baseLTVAsCollateral).toBe(String(reserve.strategy.baseLTVAsCollateral));
+    expect(loaded.reserves[0].strategy.aptFee).toBe("1000");
+    expect(loaded.reserves[0].price).toBe("2");
+  });
+
+  test("Rejects an unsupported version", () => {
+    const market = marketWith((market) => (market.version = MARKET_CONFIG_VERSION + 1));
+    expect(validateMarketConfig(market)).toEqual([
+      `version: expected ${MARKET_CONFIG_VERSION}, got ${MARKET_CONFIG_VERSION + 1}`,
+    ]);
+  });
+
+  test("Rejects a treasury that is not an address", () => {
+    const market = marketWith((market) => {
+      market.treasury = "treasury";
+      market.reserves[1].treasury = "0xzz";
+    });
+    expect(validateMarketConfig(market)).toEqual([
+      `treasury: treasury is neither a valid account address nor ${COLLECTOR_TREASURY}`,
+      `reserves[1] (${market.reserves[1].symbol}).treasury: 0xzz is neither a valid account address nor ${COLLECTOR_TREASURY}`,
+    ]);
+  });
+
+  test("Rejects duplicate eMode categories", () => {
+    const market = marketWith((market) => market.eModes.push({ ...market.eModes[0] }));
+    const index = market.eModes.length - 1;
+    expect(validateMarketConfig(market)).toEqual([
+      `eModes[${index}].categoryId: duplicate category ${market.eModes[0].categoryId}`,
+    ]);
+  });
+
+  test("Rejects unquoted ray values", () => {
+    const market = marketWith((market) => {
+      const [rateStrategy] = Object.values(market.rateStrategies);
+      Object.assign(rateStrategy, { variableRateSlope1: Number(rateStrategy.variableRateSlope1) });
+    });
+    const [name] = Object.keys(market.rateStrategies);
+    expect(validateMarketConfig(market)).toEqual([
+      `rateStrategies.${name}.variableRateSlope1: must be a quoted unsigned integer (ray)`,
+    ]);
+  });
+
+  test("Rejects a reserve with an unknown rate strategy", () => {
+    const market = marketWith((market) => (market.reserves[0].rateStrategy = "rateStrategyUnknown"));
+    expect(validateMarketConfig(market)).toEqual([
+      `reserves[0] (${market.reserves[0].symbol}).rateStrategy: unknown rate strategy rateStrategyUnknown`,
+    ]);
+  });
+
+  test("Reports every error of the file when loading it", () => {
+    const market = marketWith((market) => {
+      market.version = 0;
+      market.reserves[0].rateStrategy = "rateStrategyUnknown";
+    });
+    const filePath = writeMarketFile("invalid.json", JSON.stringify(market));
+
+    expect(() => loadMarketConfig(filePath)).toThrow(
+      `Invalid market config ${filePath}:\n  - version: expected ${MARKET_CONFIG_VERSION}, got 0\n  - reserves[0]`,
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import { expect, test, describe } from "@jest/globals";
+import { defaultMarketConfig, rateStrategyOf } from "../configs/market";
+import { desiredReserveConfigValues, diffReserveConfig } from "../helpers/reservePlan";
+import { diffReserveDrift } from "../scripts/marketDrift";
+
+const market = defaultMarketConfig();
+const reserveOf = (symbol: string) => market.reserves.find((reserve) => reserve.symbol === symbol);
+
+// what the pool reports right after the deployment of the reserve
+const deployedReserve = (symbol: string) => {
+  const reserve = reserveOf(symbol);
+  return {
+    reserve,
+    current: desiredReserveConfigValues(reserve.strategy),
+    rates: { ...rateStrategyOf(market, reserve) },
+  };
+};
+
+describe("Market drift", () => {
+  test("Reports no drift for every reserve as deployed", () => {
+    for (const { symbol } of market.reserves) {
+      const { reserve, current, rates } = deployedReserve(symbol);
+      expect(diffReserveDrift(market, reserve, current, rates)).toEqual([]);
+    }
+  });
+
+  test("Compares the debt ceiling of a reserve once", () => {
+    const { reserve, current, rates } = deployedReserve("LINK");
+    current.debtCeiling = (BigInt(reserve.strategy.debtCeiling) + 1n).toString();
+
+    expect(diffReserveDrift(market, reserve, current, rates)).toEqual([
+      { field: "debtCeiling", expected: reserve.strategy.debtCeiling, actual: current.debtCeiling },
+    ]);
+  });
+
+  test("Reports every configReserves value that drifted", () => {
+    const { reserve, current, rates } = deployedReserve("DAI");
+    current.ltv = "0";
+    current.flashLoanEnabled = !reserve.strategy.flashLoanEnabled;
+
+    expect(diffReserveDrift(market, reserve, current, rates)).toEqual([
+      { field: "ltv", expected: reserve.strategy.baseLTVAsCollateral, actual: "0" },
+      {
+        field: "flashLoanEnabled",
+        expected: String(reserve.strategy.flashLoanEnabled),
+        actual: String(!reserve.strategy.flashLoanEnabled),
+      },
+    ]);
+  });
+
+  test("Expects reserves not to be siloed unless configured", () => {
+    const { reserve, current, rates } = deployedReserve("AAVE");
+    expect(current.siloedBorrowing).toBe(false);
+
+    expect(diffReserveDrift(market, reserve, { ...current, siloedBorrowing: true }, rates)).toEqual([
+      { field: "siloedBorrowing", expected: "false", actual: "true" },
+    ]);
+    const siloed = { ...reserve, strategy: { ...reserve.strategy, siloedBorrowing: true } };
+    expect(diffReserveDrift(market, siloed, current, rates)).toEqual([
+      { field: "siloedBorrowing", expected: "true", actual: "false" },
+    ]);
+  });
+
+  test("Compares interest rates at the bps precision stored on-chain", () => {
+    const { reserve, current, rates } = deployedReserve("WETH");
+    const { variableRateSlope1, variableRateSlope2 } = rateStrategyOf(market, reserve);
+    // below one bps, lost on-chain
+    rates.variableRateSlope1 = (BigInt(variableRateSlope1) + 10n ** 22n).toString();
+    // one bps in ray
+    rates.variableRateSlope2 = (BigInt(variableRateSlope2) + 10n ** 23n).toString();
+
+    expect(diffReserveDrift(market, reserve, current, rates)).toEqual([
+      {
+        field: "rateStrategy.variableRateSlope2",
+        expected: (BigInt(variableRateSlope2) / 10n ** 23n).toString(),
+        actual: (BigInt(variableRateSlope2) / 10n ** 23n + 1n).toString(),
+      },
+    ]);
+  });
+
+  test("Diffs only the values of the desired configuration", () => {
+    const { reserve, current } = deployedReserve("USDC");
+    const desired = desiredReserveConfigValues(reserve.strategy);
+
+    expect(diffReserveConfig(current, desired)).toEqual([]);
+    expect(diffReserveConfig({ ...current, borrowCap: "1" }, desired)).toEqual([
+      { field: "borrowCap", current: "1", desired: desired.borrowCap },
+    ]);
+  });
+});
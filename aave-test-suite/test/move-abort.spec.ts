@@ -0,0 +1,67 @@
+import { expect, test, describe } from "@jest/globals";
+import { expectMoveAbort, isMoveAbort, OBJECT_DOES_NOT_EXIST, parseMoveAbort } from "../helpers/moveAbort";
+import { AaveError } from "../helpers/errorCodes";
+
+const aaveAbort = new Error(
+  'Transaction 0xabc failed with an error: Move abort in 0x249676f3faddb83d4e71f6ef4f3f0f0b8e1c6f4b4b4b4b4b4b4b4b4b4b4b4b4b::validation_logic: 0x1a',
+);
+const frameworkAbort = new Error(
+  "Transaction 0xdef failed with an error: Move abort in 0x1::fungible_asset: EINSUFFICIENT_BALANCE(0x10004): Insufficient balance.",
+);
+
+describe("Move abort assertions", () => {
+  test("Parses Aave aborts", () => {
+    const abort = parseMoveAbort(aaveAbort);
+    expect(abort.module).toEqual("validation_logic");
+    expect(abort.code).toEqual(AaveError.EINVALID_AMOUNT);
+    expect(abort.category).toEqual(0);
+    expect(abort.name).toEqual("EINVALID_AMOUNT");
+    expect(abort.message).toEqual("Amount must be greater than 0");
+  });
+
+  test("Parses framework aborts with an error map", () => {
+    const abort = parseMoveAbort(frameworkAbort);
+    expect(abort.address).toEqual("0x1");
+    expect(abort.module).toEqual("fungible_asset");
+    expect(abort.name).toEqual("EINSUFFICIENT_BALANCE");
+    expect(abort.category).toEqual(1);
+    expect(abort.reason).toEqual(4);
+    expect(abort.message).toEqual("Insufficient balance.");
+  });
+
+  test("Ignores errors that are not Move aborts", () => {
+    expect(parseMoveAbort(new Error("SEQUENCE_NUMBER_TOO_OLD"))).toBeUndefined();
+  });
+
+  test("Recognizes the lookup of an object that was never created", () => {
+    const missingObject = new Error(
+      'Request to [Fullnode]: POST http://127.0.0.1:8080/v1/view failed with: {"message":"Move abort in 0x1::object: EOBJECT_DOES_NOT_EXIST(0x60002): An object does not exist at this address"}',
+    );
+    expect(isMoveAbort(missingObject, OBJECT_DOES_NOT_EXIST)).toBe(true);
+    expect(isMoveAbort(frameworkAbort, OBJECT_DOES_NOT_EXIST)).toBe(false);
+    expect(isMoveAbort(new Error("fetch failed"), OBJECT_DOES_NOT_EXIST)).toBe(false);
+  });
+
+  test("Fails when the transaction succeeds", async () => {
+    await expect(
+      expectMoveAbort(Promise.resolve({}), { module: "validation_logic", code: AaveError.EINVALID_AMOUNT }),
+    ).rejects.toThrow("Transaction succeeded, expected it to abort with EINVALID_AMOUNT (validation_logic 0x1a)");
+  });
+
+  test("Fails when the transaction aborts with another code", async () => {
+    await expect(
+      expectMoveAbort(Promise.reject(aaveAbort), { module: "validation_logic", code: AaveError.ERESERVE_FROZEN }),
+    ).rejects.toThrow(
+      "expected ERESERVE_FROZEN (validation_logic 0x1c), got EINVALID_AMOUNT (validation_logic 0x1a): Amount must be greater than 0",
+    );
+  });
+
+  test("Matches with toAbortWith", async () => {
+    await expect(Promise.reject(aaveAbort)).toAbortWith({
+      module: "validation_logic",
+      code: AaveError.EINVALID_AMOUNT,
+    });
+    await expect(Promise.reject(frameworkAbort)).toAbortWith({ module: "fungible_asset", name: "EINSUFFICIENT_BALANCE" });
+    await expect(Promise.resolve({})).not.toAbortWith({ module: "validation_logic" });
+  });
+});
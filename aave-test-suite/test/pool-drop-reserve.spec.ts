@@ -6,6 +6,8 @@ import {
   PoolClient,
 } from "@aave/aave-v3-aptos-ts-sdk";
 import { initializeMakeSuite, testEnv } from "../configs/config";
+import { expectMoveAbort } from "../helpers/moveAbort";
+import { AaveError } from "../helpers/errorCodes";
 
 describe("Pool: Drop Reserve", () => {
   let aptosProvider: AptosProvider;
@@ -37,18 +39,16 @@ describe("Pool: Drop Reserve", () => {
     const {
       users: [, , , , user],
     } = testEnv;
-    try {
-      await poolClient.withSigner(user).dropReserve(user.accountAddress);
-    } catch (err) {
-      expect(err.toString().includes("pool_configurator: 0x1")).toBe(true);
-    }
+    await expectMoveAbort(
+      poolClient.withSigner(user).dropReserve(user.accountAddress),
+      { module: "pool_configurator", code: AaveError.ECALLER_NOT_POOL_ADMIN },
+    );
   });
 
   it("Drop an asset that is not a listed reserve should fail", async () => {
-    try {
-      await poolClient.withModuleSigner().dropReserve(consts.ZERO_ADDRESS);
-    } catch (err) {
-      expect(err.toString().includes("pool_token_logic: 0x4d")).toBe(true);
-    }
+    await expectMoveAbort(
+      poolClient.withModuleSigner().dropReserve(consts.ZERO_ADDRESS),
+      { module: "pool_token_logic", code: AaveError.EZERO_ADDRESS_NOT_VALID },
+    );
   });
 });
@@ -8,6 +8,8 @@ import {
   PoolClient,
   UnderlyingTokensClient,
 } from "@aave/aave-v3-aptos-ts-sdk";
+import { expectMoveAbort } from "../helpers/moveAbort";
+import { AaveError } from "../helpers/errorCodes";
 
 describe("Pool: Edge cases", () => {
   const MAX_NUMBER_RESERVES = 128;
@@ -53,12 +55,11 @@ describe("Pool: Edge cases", () => {
   });
 
   it("Activates the zero address reserve for borrowing via pool admin (expect revert)", async () => {
-    try {
-      await poolClient
+    await expectMoveAbort(
+      poolClient
         .withModuleSigner()
-        .setReserveBorrowing(consts.ZERO_ADDRESS, true);
-    } catch (err) {
-      expect(err.toString().includes("pool: 0x52")).toBe(true);
-    }
+        .setReserveBorrowing(consts.ZERO_ADDRESS, true),
+      { module: "pool", code: AaveError.EASSET_NOT_LISTED },
+    );
   });
 });
@@ -13,7 +13,11 @@ import {
 import { BigNumber } from "@ethersproject/bignumber";
 import { ADAI, DAI } from "../configs/config";
 import { rateStrategyStableTwo, strategyDAI } from "../configs/pool";
+import { defaultMarketConfig } from "../configs/market";
 import { rayToBps } from "../helpers/utils";
+import { calculateInterestRates } from "../helpers/interestRates";
+import { expectMoveAbort } from "../helpers/moveAbort";
+import { AaveError } from "../helpers/errorCodes";
 
 describe("InterestRateStrategy", () => {
   let aptosProvider: AptosProvider;
@@ -53,39 +57,46 @@ describe("InterestRateStrategy", () => {
     aDaiAddress = await aTokensClient.getMetadataBySymbol(ADAI);
   });
 
-  it("Checks getters", async () => {
-    const optimalUsageRatio = await defInterestStrategyClient.getOptimalUsageRatio(daiAddress);
-    expect(optimalUsageRatio.toString()).toBe(
-      rateStrategyStableTwo.optimalUsageRatio,
-    );
+  // every reserve is checked against the rate strategy it was given in configs/pool.ts
+  it.each(defaultMarketConfig().reserves.map((reserve) => [reserve.symbol, reserve.rateStrategy]))(
+    "Checks getters of %s (%s)",
+    async (symbol, rateStrategyName) => {
+      const rateStrategy = defaultMarketConfig().rateStrategies[rateStrategyName];
+      const reserveAddress = await underlyingTokensClient.getMetadataBySymbol(symbol);
 
-    const baseVariableBorrowRate =
-      await defInterestStrategyClient.getBaseVariableBorrowRate(daiAddress);
-    expect(baseVariableBorrowRate.toString()).toBe(
-      BigNumber.from(rateStrategyStableTwo.baseVariableBorrowRate).toString(),
-    );
+      const optimalUsageRatio = await defInterestStrategyClient.getOptimalUsageRatio(reserveAddress);
+      expect(optimalUsageRatio.toString()).toBe(
+        BigNumber.from(rateStrategy.optimalUsageRatio).toString(),
+      );
 
-    const variableRateSlope1 =
-      await defInterestStrategyClient.getVariableRateSlope1(daiAddress);
-    expect(variableRateSlope1.toString()).toBe(
-      BigNumber.from(rateStrategyStableTwo.variableRateSlope1).toString(),
-    );
+      const baseVariableBorrowRate =
+        await defInterestStrategyClient.getBaseVariableBorrowRate(reserveAddress);
+      expect(baseVariableBorrowRate.toString()).toBe(
+        BigNumber.from(rateStrategy.baseVariableBorrowRate).toString(),
+      );
 
-    const variableRateSlope2 =
-      await defInterestStrategyClient.getVariableRateSlope2(daiAddress);
-    expect(variableRateSlope2.toString()).toBe(
-      BigNumber.from(rateStrategyStableTwo.variableRateSlope2).toString(),
-    );
+      const variableRateSlope1 =
+        await defInterestStrategyClient.getVariableRateSlope1(reserveAddress);
+      expect(variableRateSlope1.toString()).toBe(
+        BigNumber.from(rateStrategy.variableRateSlope1).toString(),
+      );
 
-    const maxVariableBorrowRate =
-      await defInterestStrategyClient.getMaxVariableBorrowRate(daiAddress);
-    expect(maxVariableBorrowRate.toString()).toBe(
-      BigNumber.from(rateStrategyStableTwo.baseVariableBorrowRate)
-        .add(BigNumber.from(rateStrategyStableTwo.variableRateSlope1))
-        .add(BigNumber.from(rateStrategyStableTwo.variableRateSlope2))
-        .toString(),
-    );
-  });
+      const variableRateSlope2 =
+        await defInterestStrategyClient.getVariableRateSlope2(reserveAddress);
+      expect(variableRateSlope2.toString()).toBe(
+        BigNumber.from(rateStrategy.variableRateSlope2).toString(),
+      );
+
+      const maxVariableBorrowRate =
+        await defInterestStrategyClient.getMaxVariableBorrowRate(reserveAddress);
+      expect(maxVariableBorrowRate.toString()).toBe(
+        BigNumber.from(rateStrategy.baseVariableBorrowRate)
+          .add(BigNumber.from(rateStrategy.variableRateSlope1))
+          .add(BigNumber.from(rateStrategy.variableRateSlope2))
+          .toString(),
+      );
+    },
+  );
 
   it("Checks rates at 0% usage ratio, empty reserve", async () => {
     const { currentLiquidityRate, currentVariableBorrowRate } =
@@ -102,19 +113,68 @@ describe("InterestRateStrategy", () => {
     expect(currentVariableBorrowRate.toString()).toBe("0");
   });
 
+  it("Checks rates at the optimal usage ratio", async () => {
+    // 80% usage, DAI optimal usage ratio of rateStrategyStableTwo
+    const { currentLiquidityRate, currentVariableBorrowRate } =
+      await defInterestStrategyClient.calculateInterestRates(
+        0n,
+        0n,
+        0n,
+        800n,
+        BigInt(strategyDAI.reserveFactor),
+        daiAddress,
+        200n,
+      );
+    // borrow rate is variableRateSlope1, liquidity rate is 4% x 80% x (1 - 10% reserve factor)
+    expect(currentVariableBorrowRate.toString()).toBe("40000000000000000000000000");
+    expect(currentLiquidityRate.toString()).toBe("28800000000000000000000000");
+  });
+
+  // [unbacked, liquidityAdded, liquidityTaken, totalDebt, virtualUnderlyingBalance]
+  it.each([
+    ["10% usage", 0n, 0n, 0n, 100n, 900n],
+    ["50% usage", 0n, 0n, 0n, 500n, 500n],
+    ["90% usage", 0n, 0n, 0n, 900n, 100n],
+    ["100% usage", 0n, 0n, 0n, 1000n, 0n],
+    ["liquidity added and taken", 0n, 3000n, 1000n, 7000n, 1000n],
+    ["unbacked liquidity", 2500n, 0n, 0n, 6000n, 4000n],
+    ["non round amounts", 12345n, 678n, 91n, 333333333n, 77777777n],
+  ])("Checks rates against the off-chain model with %s", async (_, unbacked, added, taken, totalDebt, virtualBalance) => {
+    const { currentLiquidityRate, currentVariableBorrowRate } =
+      await defInterestStrategyClient.calculateInterestRates(
+        unbacked,
+        added,
+        taken,
+        totalDebt,
+        BigInt(strategyDAI.reserveFactor),
+        daiAddress,
+        virtualBalance,
+      );
+    const expected = calculateInterestRates(
+      {
+        unbacked: unbacked.toString(),
+        liquidityAdded: added.toString(),
+        liquidityTaken: taken.toString(),
+        totalDebt: totalDebt.toString(),
+        reserveFactor: strategyDAI.reserveFactor,
+        virtualUnderlyingBalance: virtualBalance.toString(),
+      },
+      rateStrategyStableTwo,
+    );
+    expect(currentVariableBorrowRate.toString()).toBe(expected.currentVariableBorrowRate.toString());
+    expect(currentLiquidityRate.toString()).toBe(expected.currentLiquidityRate.toString());
+  });
+
   it("Deploy an interest rate strategy with optimalUsageRatio out of range (expect revert)", async () => {
-    try {
-      await poolClient.updateInterestRateStrategy(
+    await expectMoveAbort(
+      poolClient.updateInterestRateStrategy(
           daiAddress,
           BigNumber.from(parseUnits("1.0", 28)).toBigInt(),
           rayToBps(BigNumber.from(rateStrategyStableTwo.baseVariableBorrowRate)).toBigInt(),
           rayToBps(BigNumber.from(rateStrategyStableTwo.variableRateSlope1)).toBigInt(),
           rayToBps(BigNumber.from(rateStrategyStableTwo.variableRateSlope2)).toBigInt(),
-      );
-    } catch (err) {
-      expect(
-        err.toString().includes("default_reserve_interest_rate_strategy: 0x53"),
-      ).toBe(true);
-    }
+      ),
+      { module: "default_reserve_interest_rate_strategy", code: AaveError.EINVALID_OPTIMAL_USAGE_RATIO },
+    );
   });
 });
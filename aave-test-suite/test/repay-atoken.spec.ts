@@ -6,6 +6,8 @@ import {
 } from "@aave/aave-v3-aptos-ts-sdk";
 import { initializeMakeSuite, testEnv } from "../configs/config";
 import "../helpers/wadraymath";
+import { expectMoveAbort } from "../helpers/moveAbort";
+import { AaveError } from "../helpers/errorCodes";
 
 describe("Repay Atoken Test", () => {
   let aptosProvider: AptosProvider;
@@ -89,17 +91,16 @@ describe("Repay Atoken Test", () => {
     } = testEnv;
     const aaveDecimals = Number(await underlyingTokensClient.decimals(aave));
     const repayAmount = 25 * 10 ** aaveDecimals;
-    try {
-      await coreClient
+    await expectMoveAbort(
+      coreClient
         .withSigner(user1)
         .repayWithATokens(
           aave,
           BigInt(repayAmount),
           consts.INTEREST_RATE_MODES.VARIABLE,
-        );
-    } catch (err) {
-      expect(err.toString().includes("validation_logic: 0x27")).toBe(true);
-    }
+        ),
+      { module: "validation_logic", code: AaveError.ENO_DEBT_OF_SELECTED_TYPE },
+    );
   });
 
   it("User 1 receives 1 aDAI from user 0, repays half of the debt", async () => {
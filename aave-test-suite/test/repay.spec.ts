@@ -6,6 +6,8 @@ import {
   UnderlyingTokensClient,
 } from "@aave/aave-v3-aptos-ts-sdk";
 import { initializeMakeSuite, testEnv } from "../configs/config";
+import { expectMoveAbort } from "../helpers/moveAbort";
+import { AaveError } from "../helpers/errorCodes";
 
 describe("Repay Test", () => {
   let aptosProvider: AptosProvider;
@@ -36,18 +38,17 @@ describe("Repay Test", () => {
   it("validateRepay() when amount == 0 (revert expected)", async () => {
     const { users, dai } = testEnv;
     const user = users[0];
-    try {
-      await coreClient
+    await expectMoveAbort(
+      coreClient
         .withSigner(user)
         .repay(
           dai,
           BigInt(0),
           consts.INTEREST_RATE_MODES.VARIABLE,
           user.accountAddress,
-        );
-    } catch (err) {
-      expect(err.toString().includes("validation_logic: 0x1a")).toBe(true);
-    }
+        ),
+      { module: "validation_logic", code: AaveError.EINVALID_AMOUNT },
+    );
   });
 
   it("validateRepay() when reserve is not active (revert expected)", async () => {
@@ -91,18 +92,17 @@ describe("Repay Test", () => {
       .withModuleSigner()
       .mint(user.accountAddress, BigInt(aaveDepositAmount), aave);
 
-    try {
-      await coreClient
+    await expectMoveAbort(
+      coreClient
         .withSigner(user)
         .repay(
           aave,
           BigInt(aaveDepositAmount),
           consts.INTEREST_RATE_MODES.VARIABLE,
           user.accountAddress,
-        );
-    } catch (err) {
-      expect(err.toString().includes("validation_logic: 0x1b")).toBe(true);
-    }
+        ),
+      { module: "validation_logic", code: AaveError.ERESERVE_INACTIVE },
+    );
 
     await poolClient.withModuleSigner().setReserveActive(aave, true);
   });
@@ -167,19 +167,17 @@ describe("Repay Test", () => {
         user.accountAddress,
       );
 
-    try {
-      await coreClient
+    await expectMoveAbort(
+      coreClient
         .withSigner(user)
         .repay(
           dai,
           BigInt(userBorrowAmount),
           consts.INTEREST_RATE_MODES.VARIABLE,
           user.accountAddress,
-        );
-    } catch (err) {
-      // console.log('err:', err.toString())
-      expect(err.toString().includes("validation_logic: 0x27")).toBe(true);
-    }
+        ),
+      { module: "validation_logic", code: AaveError.ENO_DEBT_OF_SELECTED_TYPE },
+    );
   });
 
   it("User 1 tries to repay using actually holding aUsdc", async () => {
@@ -191,18 +189,16 @@ describe("Repay Test", () => {
     const usdcDecimals = Number(await underlyingTokensClient.decimals(usdc));
     const repayAmount = 2 * 10 ** usdcDecimals;
     // console.log("user1:", user1.accountAddress.toString());
-    try {
-      await coreClient
+    await expectMoveAbort(
+      coreClient
         .withSigner(user1)
         .repay(
           usdc,
           BigInt(repayAmount),
           consts.INTEREST_RATE_MODES.VARIABLE,
           user1.accountAddress,
-        );
-    } catch (err) {
-      // console.log("err:", err.toString());
-      expect(err.toString().includes("validation_logic: 0x27")).toBe(true);
-    }
+        ),
+      { module: "validation_logic", code: AaveError.ENO_DEBT_OF_SELECTED_TYPE },
+    );
   });
 });
@@ -7,6 +7,8 @@ import {
   UnderlyingTokensClient,
 } from "@aave/aave-v3-aptos-ts-sdk";
 import { Ed25519Account } from "@aptos-labs/ts-sdk";
+import { expectMoveAbort } from "../helpers/moveAbort";
+import { AaveError } from "../helpers/errorCodes";
 
 describe("Rescue tokens", () => {
   let aptosProvider: AptosProvider;
@@ -39,11 +41,10 @@ describe("Rescue tokens", () => {
     const amount = 1;
     // const aTokensClient = new ATokensClient(aptosProvider, ATokenManager);
     const aDaiTokenMetadataAddress = await aTokensClient.assetMetadata(ADAI);
-    try {
-      await aTokensClient.withSigner(rescuer).rescueTokens(aDai, rescuer.accountAddress, BigInt(amount), aDaiTokenMetadataAddress);
-    } catch (err) {
-      expect(err.toString().includes("token_base: 0x1")).toBe(true);
-    }
+    await expectMoveAbort(
+      aTokensClient.withSigner(rescuer).rescueTokens(aDai, rescuer.accountAddress, BigInt(amount), aDaiTokenMetadataAddress),
+      { module: "token_base", code: AaveError.ECALLER_NOT_POOL_ADMIN },
+    );
   });
 
   it("User tries to rescue tokens of underlying from AToken (revert expected)", async () => {
@@ -54,11 +55,10 @@ describe("Rescue tokens", () => {
     const amount = 1;
     // const aTokensClient = new ATokensClient(aptosProvider, ATokenManager);
     const aDaiTokenMetadataAddress = await aTokensClient.assetMetadata(ADAI);
-    try {
-      await aTokensClient.withSigner(rescuer).rescueTokens(dai, rescuer.accountAddress, BigInt(amount), aDaiTokenMetadataAddress);
-    } catch (err) {
-      expect(err.toString().includes("token_base: 0x1")).toBe(true);
-    }
+    await expectMoveAbort(
+      aTokensClient.withSigner(rescuer).rescueTokens(dai, rescuer.accountAddress, BigInt(amount), aDaiTokenMetadataAddress),
+      { module: "token_base", code: AaveError.ECALLER_NOT_POOL_ADMIN },
+    );
   });
 
   it("PoolAdmin tries to rescue tokens of underlying from AToken (revert expected)", async () => {
@@ -70,11 +70,10 @@ describe("Rescue tokens", () => {
     const amount = 1;
     // const aTokensClient = new ATokensClient(aptosProvider, ATokenManager);
     const aTokenDaiMetadataAddress = await aTokensClient.assetMetadata(ADAI);
-    try {
-      await aTokensClient.withSigner(rescuer).rescueTokens(dai, rescuer.accountAddress, BigInt(amount), aTokenDaiMetadataAddress);
-    } catch (err) {
-      expect(err.toString().includes("token_base: 0x1")).toBe(true);
-    }
+    await expectMoveAbort(
+      aTokensClient.withSigner(rescuer).rescueTokens(dai, rescuer.accountAddress, BigInt(amount), aTokenDaiMetadataAddress),
+      { module: "token_base", code: AaveError.ECALLER_NOT_POOL_ADMIN },
+    );
   });
 
   it("PoolAdmin rescues tokens from Pool", async () => {
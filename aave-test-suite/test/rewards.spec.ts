@@ -0,0 +1,289 @@
+import { AccountAddress, Ed25519Account } from "@aptos-labs/ts-sdk";
+import {
+  AAVE_PROFILES,
+  AptosProvider,
+  ATokensClient,
+  EmissionManagerClient,
+  RewardsControllerClient,
+  UiIncentiveDataProviderClient,
+  UnderlyingTokensClient,
+} from "@aave/aave-v3-aptos-ts-sdk";
+import { BigNumberish } from "@ethersproject/bignumber";
+import { parseUnits } from "ethers";
+import { AAVE, advanceTime, getLedgerState, getLedgerTimestamp, initializeMakeSuite, testEnv } from "../configs/config";
+import { strategyDAI } from "../configs/pool";
+import { calcExpectedRewardsIndex, calcExpectedUserRewards } from "../helpers/calculations";
+import { AaveError } from "../helpers/errorCodes";
+import { expectEvent } from "../helpers/events";
+import { SUITE_SETUP_TIMEOUT } from "../helpers/localnet";
+import { expectMoveAbort } from "../helpers/moveAbort";
+import { getRewardsVaultAddress, RewardsClient } from "../helpers/rewards";
+import { getTxTimestamp } from "../helpers/snapshots";
+import { createTestUser, teardownTestUsers } from "../helpers/testUsers";
+
+const daiRewards = strategyDAI.incentives.find(({ reward }) => reward === AAVE);
+
+describe("Rewards", () => {
+  let pool: AccountAddress;
+  let emissionManagerClient: EmissionManagerClient;
+  let rewardsControllerClient: RewardsControllerClient;
+  let rewardsClient: RewardsClient;
+  let uiIncentiveDataProviderClient: UiIncentiveDataProviderClient;
+  let aTokensClient: ATokensClient;
+  let underlyingTokensClient: UnderlyingTokensClient;
+  let rewardsController: AccountAddress;
+  let reward: AccountAddress;
+  let rewardDecimals: number;
+  let aDaiDecimals: number;
+  let supplier: Ed25519Account;
+  let largeSupplier: Ed25519Account;
+  let claimer: Ed25519Account;
+
+  // at ledgerVersion when given, so the result matches the timestamp of that version
+  const userRewards = (user: Ed25519Account, ledgerVersion?: bigint): Promise<bigint> =>
+    rewardsClient.getUserRewards([testEnv.aDai], user.accountAddress, reward, rewardsController, ledgerVersion);
+
+  // Reads the state the off-chain accrual model starts from. The returned function gives what user can claim at a later
+  // timestamp, as long as no transaction changes the aDAI supply or the reward configuration in between.
+  const accrualModel = async (user: Ed25519Account): Promise<(timestamp: BigNumberish) => bigint> => {
+    const { aDai } = testEnv;
+    const { index, emissionPerSecond, lastUpdateTimestamp, distributionEnd } =
+      await rewardsControllerClient.getRewardsData(aDai, reward, rewardsController);
+    const totalSupply = await aTokensClient.scaledTotalSupply(aDai);
+    const scaledBalance = await aTokensClient.scaledBalanceOf(user.accountAddress, aDai);
+    const userData = await rewardsControllerClient.getUserData(aDai, reward, user.accountAddress, rewardsController);
+    return (timestamp: BigNumberish) => {
+      const assetIndex = calcExpectedRewardsIndex(
+        index,
+        emissionPerSecond,
+        lastUpdateTimestamp,
+        distributionEnd,
+        totalSupply,
+        aDaiDecimals,
+        timestamp,
+      );
+      const { index: userIndex, accrued } = userData;
+      return calcExpectedUserRewards(scaledBalance, assetIndex, userIndex, accrued, aDaiDecimals).toBigInt();
+    };
+  };
+
+  beforeAll(async () => {
+    await initializeMakeSuite();
+    const aptosProvider = AptosProvider.fromEnvs();
+    pool = aptosProvider.getProfileAddressByName(AAVE_PROFILES.AAVE_POOL);
+    emissionManagerClient = new EmissionManagerClient(aptosProvider, aptosProvider.getPoolProfileAccount());
+    rewardsControllerClient = new RewardsControllerClient(aptosProvider);
+    rewardsClient = new RewardsClient(aptosProvider);
+    uiIncentiveDataProviderClient = new UiIncentiveDataProviderClient(aptosProvider);
+    aTokensClient = new ATokensClient(aptosProvider);
+    underlyingTokensClient = new UnderlyingTokensClient(aptosProvider, aptosProvider.getUnderlyingTokensProfileAccount());
+
+    // deployed by initRewards
+    rewardsController = await rewardsClient.getRewardsController();
+    reward = await underlyingTokensClient.getMetadataBySymbol(daiRewards.reward);
+    rewardDecimals = Number(await underlyingTokensClient.decimals(reward));
+    aDaiDecimals = await rewardsControllerClient.getAssetDecimals(testEnv.aDai, rewardsController);
+
+    supplier = await createTestUser({ supply: { DAI: "1000" } });
+    largeSupplier = await createTestUser({ supply: { DAI: "3000" } });
+    claimer = await createTestUser();
+  }, SUITE_SETUP_TIMEOUT);
+
+  afterAll(async () => {
+    await teardownTestUsers();
+  });
+
+  it("Deploys the reward emissions on aDAI", async () => {
+    const { aDai } = testEnv;
+    const { emissionPerSecond, distributionEnd } = await rewardsControllerClient.getRewardsData(
+      aDai,
+      reward,
+      rewardsController,
+    );
+
+    expect(emissionPerSecond).toBe(parseUnits(daiRewards.emissionPerSecond, rewardDecimals));
+    expect(distributionEnd > BigInt(await getLedgerTimestamp())).toBe(true);
+    expect((await emissionManagerClient.getEmissionAdmin(reward)).equals(pool)).toBe(true);
+    expect((await rewardsClient.getIncentivesController(aDai))?.equals(rewardsController)).toBe(true);
+    expect((await underlyingTokensClient.balanceOf(getRewardsVaultAddress(pool), reward)) > 0n).toBe(true);
+  });
+
+  it("Reports the incentives of every reserve through the ui incentive data provider", async () => {
+    const { aDai, dai, weth } = testEnv;
+    const reservesIncentives = await uiIncentiveDataProviderClient.getReservesIncentivesData();
+    const { emissionPerSecond, distributionEnd } = await rewardsControllerClient.getRewardsData(
+      aDai,
+      reward,
+      rewardsController,
+    );
+
+    const { aIncentiveData } = reservesIncentives.find(({ underlyingAsset }) => underlyingAsset.equals(dai));
+    expect(aIncentiveData.incentiveControllerAddress.equals(rewardsController)).toBe(true);
+    const rewardInfo = aIncentiveData.rewardsTokenInformation.find(({ rewardTokenAddress }) =>
+      rewardTokenAddress.equals(reward),
+    );
+    expect(rewardInfo.rewardTokenSymbol).toBe(daiRewards.reward);
+    expect(rewardInfo.emissionPerSecond).toBe(emissionPerSecond);
+    expect(rewardInfo.emissionEndTimestamp).toBe(distributionEnd);
+    expect(rewardInfo.rewardPriceFeed > 0n).toBe(true);
+
+    // WETH declares no incentives, the provider reports the zero address for its missing controller
+    const wethIncentives = reservesIncentives.find(({ underlyingAsset }) => underlyingAsset.equals(weth));
+    expect(wethIncentives.aIncentiveData.incentiveControllerAddress.equals(AccountAddress.ZERO)).toBe(true);
+    expect(wethIncentives.aIncentiveData.rewardsTokenInformation).toHaveLength(0);
+  });
+
+  it("Suppliers accrue rewards on their scaled aDAI balance", async () => {
+    await advanceTime(3);
+    const supplierModel = await accrualModel(supplier);
+    const largeSupplierModel = await accrualModel(largeSupplier);
+    const { version, timestamp } = await getLedgerState();
+
+    const expectedRewards = supplierModel(timestamp);
+    expect(expectedRewards > 0n).toBe(true);
+    expect(await userRewards(supplier, version)).toBe(expectedRewards);
+    const allRewards = await rewardsClient.getAllUserRewards(
+      [testEnv.aDai],
+      largeSupplier.accountAddress,
+      rewardsController,
+      version,
+    );
+    expect(allRewards.get(reward.toStringLong())).toBe(largeSupplierModel(timestamp));
+  });
+
+  it("Accrues at the new emission rate from the time it is changed", async () => {
+    const { aDai } = testEnv;
+    const emissionPerSecond = parseUnits(daiRewards.emissionPerSecond, rewardDecimals);
+
+    const tx = await emissionManagerClient.setEmissionPerSecond(aDai, [reward], [emissionPerSecond * 2n]);
+    try {
+      expectEvent(tx, "AssetConfigUpdated", {
+        asset: aDai,
+        reward,
+        oldEmission: emissionPerSecond,
+        newEmission: emissionPerSecond * 2n,
+      });
+      const { lastUpdateTimestamp } = await rewardsControllerClient.getRewardsData(aDai, reward, rewardsController);
+      expect(lastUpdateTimestamp).toBe(getTxTimestamp(tx).toBigInt());
+
+      const model = await accrualModel(supplier);
+      await advanceTime(3);
+      const { version, timestamp } = await getLedgerState();
+      expect(await userRewards(supplier, version)).toBe(model(timestamp));
+    } finally {
+      await emissionManagerClient.setEmissionPerSecond(aDai, [reward], [emissionPerSecond]);
+    }
+  });
+
+  it("Stops accruing at the distribution end", async () => {
+    const { aDai } = testEnv;
+    const { distributionEnd } = await rewardsControllerClient.getRewardsData(aDai, reward, rewardsController);
+    const newDistributionEnd = BigInt(await getLedgerTimestamp());
+
+    const tx = await emissionManagerClient.setDistributionEnd(aDai, reward, newDistributionEnd);
+    try {
+      expectEvent(tx, "AssetConfigUpdated", {
+        asset: aDai,
+        reward,
+        oldDistributionEnd: distributionEnd,
+        newDistributionEnd,
+      });
+      const rewardsAtEnd = await userRewards(supplier);
+      await advanceTime(2);
+      expect(await userRewards(supplier)).toBe(rewardsAtEnd);
+    } finally {
+      // the index restarts from the time the distribution is extended, the gap is not paid out
+      await emissionManagerClient.setDistributionEnd(aDai, reward, distributionEnd);
+    }
+  });
+
+  it("Claims all the rewards of the signer", async () => {
+    const { aDai } = testEnv;
+    const model = await accrualModel(supplier);
+    const balanceBefore = await underlyingTokensClient.balanceOf(supplier.accountAddress, reward);
+
+    const tx = await rewardsClient
+      .withSigner(supplier)
+      .claimAllRewards([aDai], supplier.accountAddress, rewardsController);
+
+    const claimed = model(getTxTimestamp(tx));
+    expect(claimed > 0n).toBe(true);
+    expectEvent(tx, "RewardsClaimed", {
+      user: supplier.accountAddress,
+      reward,
+      to: supplier.accountAddress,
+      claimer: supplier.accountAddress,
+      amount: claimed,
+      rewardsControllerAddress: rewardsController,
+    });
+    expect(await underlyingTokensClient.balanceOf(supplier.accountAddress, reward)).toBe(balanceBefore + claimed);
+    const { accrued } = await rewardsControllerClient.getUserData(
+      aDai,
+      reward,
+      supplier.accountAddress,
+      rewardsController,
+    );
+    expect(accrued).toBe(0n);
+  });
+
+  it("Cannot claim on behalf of a user without being its claimer (revert expected)", async () => {
+    await expectMoveAbort(
+      rewardsClient
+        .withSigner(claimer)
+        .claimAllRewardsOnBehalf(
+          [testEnv.aDai],
+          largeSupplier.accountAddress,
+          claimer.accountAddress,
+          rewardsController,
+        ),
+      { module: "rewards_distributor", code: AaveError.EUNAUTHORIZED_CLAIMER },
+    );
+  });
+
+  it("Claims on behalf of a user through its designated claimer", async () => {
+    const { aDai } = testEnv;
+    const tx = await emissionManagerClient.setClaimer(largeSupplier.accountAddress, claimer.accountAddress);
+
+    expectEvent(tx, "ClaimerSet", {
+      user: largeSupplier.accountAddress,
+      claimer: claimer.accountAddress,
+      rewardsControllerAddress: rewardsController,
+    });
+    const designatedClaimer = await rewardsClient.getClaimer(largeSupplier.accountAddress, rewardsController);
+    expect(designatedClaimer?.equals(claimer.accountAddress)).toBe(true);
+
+    // a partial claim leaves the rest to the user
+    const partialAmount = (await userRewards(largeSupplier)) / 2n;
+    expect(partialAmount > 0n).toBe(true);
+    const partialTx = await rewardsClient
+      .withSigner(claimer)
+      .claimRewardsOnBehalf(
+        [aDai],
+        partialAmount,
+        largeSupplier.accountAddress,
+        claimer.accountAddress,
+        reward,
+        rewardsController,
+      );
+    expectEvent(partialTx, "RewardsClaimed", {
+      user: largeSupplier.accountAddress,
+      to: claimer.accountAddress,
+      claimer: claimer.accountAddress,
+      amount: partialAmount,
+    });
+
+    const model = await accrualModel(largeSupplier);
+    const allTx = await rewardsClient
+      .withSigner(claimer)
+      .claimAllRewardsOnBehalf([aDai], largeSupplier.accountAddress, claimer.accountAddress, rewardsController);
+    const rest = model(getTxTimestamp(allTx));
+    expectEvent(allTx, "RewardsClaimed", {
+      user: largeSupplier.accountAddress,
+      to: claimer.accountAddress,
+      claimer: claimer.accountAddress,
+      amount: rest,
+    });
+    expect(await underlyingTokensClient.balanceOf(claimer.accountAddress, reward)).toBe(partialAmount + rest);
+    expect(await underlyingTokensClient.balanceOf(largeSupplier.accountAddress, reward)).toBe(0n);
+  });
+});
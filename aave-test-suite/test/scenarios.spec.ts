@@ -0,0 +1,16 @@
+import { initializeMakeSuite, testEnv } from "../configs/config";
+import { createScenarioContext, executeStory, loadScenarios, ScenarioContext } from "../helpers/scenarioEngine";
+
+// every test/scenarios/*.json file becomes a describe block and each of its stories a test
+describe.each(loadScenarios().map((scenario) => [scenario.title, scenario]))("Scenario: %s", (_, scenario) => {
+  let context: ScenarioContext;
+
+  beforeAll(async () => {
+    await initializeMakeSuite();
+    context = createScenarioContext(testEnv.users);
+  });
+
+  it.each(scenario.stories.map((story) => [story.description, story]))("%s", async (__, story) => {
+    await executeStory(context, story);
+  });
+});
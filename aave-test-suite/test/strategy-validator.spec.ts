@@ -0,0 +1,126 @@
+import { expect, test, describe } from "@jest/globals";
+import { consts } from "@aave/aave-v3-aptos-ts-sdk";
+import { eModes, ReserveStrategy, strategyDAI, strategyWETH } from "../configs/pool";
+import { defaultMarketConfig } from "../configs/market";
+import {
+  MAX_APT_FEE,
+  validateEModeCategory,
+  validateMarketStrategies,
+  validateReserveStrategy,
+} from "../helpers/strategyValidator";
+
+const withOverrides = (overrides: Partial<ReserveStrategy>): ReserveStrategy => ({ ...strategyDAI, ...overrides });
+
+describe("Reserve strategy validator", () => {
+  test("Accepts the strategies of the default market", () => {
+    expect(validateMarketStrategies(defaultMarketConfig())).toEqual([]);
+  });
+
+  test("Rejects ltv > liquidationThreshold", () => {
+    const errors = validateReserveStrategy(withOverrides({ baseLTVAsCollateral: "8500", liquidationThreshold: "8000" }), eModes);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain("baseLTVAsCollateral");
+  });
+
+  test("Rejects liquidationBonus <= PERCENTAGE_FACTOR", () => {
+    const errors = validateReserveStrategy(withOverrides({ liquidationBonus: consts.PERCENTAGE_FACTOR }), eModes);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain("liquidationBonus");
+  });
+
+  test("Rejects liquidationThreshold.percentMul(liquidationBonus) > PERCENTAGE_FACTOR", () => {
+    const errors = validateReserveStrategy(
+      withOverrides({ baseLTVAsCollateral: "8000", liquidationThreshold: "9600", liquidationBonus: "10500" }),
+      eModes,
+    );
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain("exceeds");
+  });
+
+  test("Rejects a liquidationBonus without liquidationThreshold", () => {
+    const errors = validateReserveStrategy(
+      withOverrides({ baseLTVAsCollateral: "0", liquidationThreshold: "0", liquidationBonus: "10500" }),
+      eModes,
+    );
+    expect(errors).toHaveLength(1);
+  });
+
+  test("Rejects reserveFactor > PERCENTAGE_FACTOR", () => {
+    const errors = validateReserveStrategy(withOverrides({ reserveFactor: "10001" }), eModes);
+    expect(errors).toEqual([`reserveFactor 10001 exceeds ${consts.PERCENTAGE_FACTOR}`]);
+  });
+
+  test("Rejects caps above MAX_BORROW_CAP / MAX_SUPPLY_CAP", () => {
+    const aboveMax = (BigInt(consts.MAX_SUPPLY_CAP) + 1n).toString();
+    const errors = validateReserveStrategy(withOverrides({ borrowCap: aboveMax, supplyCap: aboveMax }), eModes);
+    expect(errors).toHaveLength(2);
+  });
+
+  test("Rejects reserveDecimals above 18", () => {
+    const errors = validateReserveStrategy(withOverrides({ reserveDecimals: "19" }), eModes);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain("reserveDecimals");
+  });
+
+  test("Rejects an aptFee above MAX_APT_FEE", () => {
+    expect(validateReserveStrategy(withOverrides({ aptFee: MAX_APT_FEE.toString() }), eModes)).toEqual([]);
+    const errors = validateReserveStrategy(withOverrides({ aptFee: (MAX_APT_FEE + 1n).toString() }), eModes);
+    expect(errors).toEqual([`aptFee 1000000001 exceeds ${MAX_APT_FEE}`]);
+  });
+
+  test("Rejects an unknown eMode category", () => {
+    const errors = validateReserveStrategy(withOverrides({ emode: 7 }), eModes);
+    expect(errors).toEqual(["eMode category 7 does not exist"]);
+  });
+
+  test("Rejects an eMode category that is not more permissive than the reserve", () => {
+    // WETH (8000 / 8250) fits ETH correlated (9000 / 9300), a 9500 ltv does not
+    expect(validateReserveStrategy({ ...strategyWETH, emode: 1 }, eModes)).toEqual([]);
+    const errors = validateReserveStrategy(
+      { ...strategyWETH, emode: 1, baseLTVAsCollateral: "9000", liquidationThreshold: "9300", liquidationBonus: "10100" },
+      eModes,
+    );
+    expect(errors).toHaveLength(2);
+  });
+
+  test("Accepts the eMode categories of the default market", () => {
+    for (const eMode of eModes) {
+      expect(validateEModeCategory(eMode)).toEqual([]);
+    }
+  });
+
+  test("Rejects an eMode category with a zero ltv", () => {
+    expect(validateEModeCategory({ ...eModes[0], ltv: 0 })).toEqual(["ltv must not be 0"]);
+  });
+
+  test("Rejects an eMode category with an ltv above its liquidationThreshold", () => {
+    expect(validateEModeCategory({ ...eModes[0], ltv: 9400 })).toEqual(["ltv 9400 is above liquidationThreshold 9300"]);
+  });
+
+  test("Rejects an eMode category without a liquidation bonus", () => {
+    const errors = validateEModeCategory({ ...eModes[0], liquidationBonus: Number(consts.PERCENTAGE_FACTOR) });
+    expect(errors).toEqual([`liquidationBonus ${consts.PERCENTAGE_FACTOR} must be above ${consts.PERCENTAGE_FACTOR}`]);
+  });
+
+  test("Rejects an eMode category whose liquidation bonus cannot be covered", () => {
+    // 9300 x 1.08 = 10044
+    const errors = validateEModeCategory({ ...eModes[0], liquidationBonus: 10800 });
+    expect(errors).toEqual([`liquidationThreshold 9300 x liquidationBonus 10800 exceeds ${consts.PERCENTAGE_FACTOR}`]);
+  });
+
+  test("Prefixes market errors with the eMode category", () => {
+    const market = defaultMarketConfig();
+    market.eModes[1].ltv = 0;
+    expect(validateMarketStrategies(market)).toEqual(["eMode category 2: ltv must not be 0"]);
+  });
+
+  test("Prefixes market errors with the reserve symbol", () => {
+    const market = defaultMarketConfig();
+    market.reserves[0].strategy.reserveFactor = "20000";
+    market.reserves[1].decimals = 19;
+    const errors = validateMarketStrategies(market);
+    expect(errors).toHaveLength(2);
+    expect(errors[0].startsWith(`${market.reserves[0].symbol}: `)).toBeTruthy();
+    expect(errors[1].startsWith(`${market.reserves[1].symbol}: `)).toBeTruthy();
+  });
+});
@@ -8,6 +8,12 @@ import {
   UnderlyingTokensClient,
   ATokensClient,
 } from "@aave/aave-v3-aptos-ts-sdk";
+import { getReserveSnapshot, getTxTimestamp, getUserSnapshot } from "../helpers/snapshots";
+import { calcExpectedReserveDataAfterSupply, calcExpectedUserDataAfterSupply } from "../helpers/calculations";
+import { expectMoveAbort } from "../helpers/moveAbort";
+import { AaveError } from "../helpers/errorCodes";
+import { createTestUser, teardownTestUsers } from "../helpers/testUsers";
+import { expectEvent } from "../helpers/events";
 
 describe("Supply Unit Test", () => {
   let aptosProvider: AptosProvider;
@@ -40,6 +46,10 @@ describe("Supply Unit Test", () => {
     await initializeMakeSuite();
   });
 
+  afterAll(async () => {
+    await teardownTestUsers();
+  });
+
   it("validateDeposit() when amount == 0 (revert expected)", async () => {
     const { users, dai } = testEnv;
     const user = users[0];
@@ -51,13 +61,12 @@ describe("Supply Unit Test", () => {
       .withModuleSigner()
       .mint(user.accountAddress, BigInt(daiDepositAmount), dai);
 
-    try {
-      await coreClient
+    await expectMoveAbort(
+      coreClient
         .withSigner(user)
-        .supply(dai, 0n, user.accountAddress, consts.AAVE_REFERRAL);
-    } catch (err) {
-      expect(err.toString().includes("validation_logic: 0x1a")).toBe(true);
-    }
+        .supply(dai, 0n, user.accountAddress, consts.AAVE_REFERRAL),
+      { module: "validation_logic", code: AaveError.EINVALID_AMOUNT },
+    );
   });
 
   it("validateDeposit() when reserve is not active (revert expected)", async () => {
@@ -81,18 +90,17 @@ describe("Supply Unit Test", () => {
       .withModuleSigner()
       .mint(user.accountAddress, BigInt(aaveDepositAmount), aave);
 
-    try {
-      await coreClient
+    await expectMoveAbort(
+      coreClient
         .withSigner(user)
         .supply(
           aave,
           BigInt(aaveDepositAmount),
           user.accountAddress,
           consts.AAVE_REFERRAL,
-        );
-    } catch (err) {
-      expect(err.toString().includes("validation_logic: 0x1b")).toBe(true);
-    }
+        ),
+      { module: "validation_logic", code: AaveError.ERESERVE_INACTIVE },
+    );
 
     await poolClient.withModuleSigner().setReserveActive(aave, true);
   });
@@ -114,18 +122,17 @@ describe("Supply Unit Test", () => {
       .withModuleSigner()
       .mint(user.accountAddress, BigInt(daiDepositAmount), dai);
 
-    try {
-      await coreClient
+    await expectMoveAbort(
+      coreClient
         .withSigner(user)
         .supply(
           dai,
           BigInt(daiDepositAmount),
           user.accountAddress,
           consts.AAVE_REFERRAL,
-        );
-    } catch (err) {
-      expect(err.toString().includes("validation_logic: 0x1c")).toBe(true);
-    }
+        ),
+      { module: "validation_logic", code: AaveError.ERESERVE_FROZEN },
+    );
     await poolClient.withModuleSigner().setReserveFreeze(dai, false);
   });
 
@@ -143,19 +150,17 @@ describe("Supply Unit Test", () => {
     const user1 = users[1];
     await poolClient.withSigner(user1).setReservePaused(dai, true);
 
-    try {
-      await coreClient
+    await expectMoveAbort(
+      coreClient
         .withSigner(user)
         .supply(
           dai,
           BigInt(daiDepositAmount),
           user.accountAddress,
           consts.AAVE_REFERRAL,
-        );
-    } catch (err) {
-      // console.log("err:", err.toString());
-      expect(err.toString().includes("validation_logic: 0x1d")).toBe(true);
-    }
+        ),
+      { module: "validation_logic", code: AaveError.ERESERVE_PAUSED },
+    );
 
     await poolClient.withSigner(user1).setReservePaused(dai, false);
   });
@@ -174,18 +179,17 @@ describe("Supply Unit Test", () => {
     const newCap = 1000;
     await poolClient.withModuleSigner().setSupplyCap(dai, BigInt(newCap));
 
-    try {
-      await coreClient
+    await expectMoveAbort(
+      coreClient
         .withSigner(user)
         .supply(
           dai,
           BigInt(daiDepositAmount),
           user.accountAddress,
           consts.AAVE_REFERRAL,
-        );
-    } catch (err) {
-      expect(err.toString().includes("validation_logic: 0x33")).toBe(true);
-    }
+        ),
+      { module: "validation_logic", code: AaveError.ESUPPLY_CAP_EXCEEDED },
+    );
 
     await poolClient.withModuleSigner().setSupplyCap(dai, BigInt(0));
   });
@@ -210,7 +214,7 @@ describe("Supply Unit Test", () => {
       .withModuleSigner()
       .mint(user.accountAddress, BigInt(daiDepositAmount), dai);
 
-    await coreClient
+    const tx = await coreClient
       .withSigner(user)
       .supply(
         dai,
@@ -218,6 +222,15 @@ describe("Supply Unit Test", () => {
         user.accountAddress,
         consts.AAVE_REFERRAL,
       );
+    expectEvent(tx, "Supply", {
+      reserve: dai,
+      user: user.accountAddress,
+      onBehalfOf: user.accountAddress,
+      amount: daiDepositAmount,
+      referralCode: consts.AAVE_REFERRAL,
+    });
+    expectEvent(tx, "ReserveDataUpdated", { reserve: dai });
+    expectEvent(tx, "Mint", { caller: user.accountAddress, onBehalfOf: user.accountAddress, token: aDai });
 
     const aTokenAccountBalanceAfter = await underlyingTokensClient.balanceOf(
       aTokenResourceAccountAddress,
@@ -292,4 +305,60 @@ describe("Supply Unit Test", () => {
         consts.AAVE_REFERRAL,
       );
   });
+
+  it("User 3 deposits 50 DAI, reserve and position match the expected state", async () => {
+    const { users, dai } = testEnv;
+    const user = users[3];
+
+    const daiDecimals = Number(await underlyingTokensClient.decimals(dai));
+    const daiDepositAmount = 50 * 10 ** daiDecimals;
+
+    await underlyingTokensClient
+      .withModuleSigner()
+      .mint(user.accountAddress, BigInt(daiDepositAmount), dai);
+
+    const reserveDataBefore = await getReserveSnapshot(aptosProvider, dai);
+    const userDataBefore = await getUserSnapshot(aptosProvider, dai, user.accountAddress);
+
+    const tx = await coreClient
+      .withSigner(user)
+      .supply(
+        dai,
+        BigInt(daiDepositAmount),
+        user.accountAddress,
+        consts.AAVE_REFERRAL,
+      );
+
+    const expectedReserveData = calcExpectedReserveDataAfterSupply(
+      daiDepositAmount,
+      reserveDataBefore,
+      getTxTimestamp(tx),
+    );
+    const expectedUserData = calcExpectedUserDataAfterSupply(
+      daiDepositAmount,
+      expectedReserveData,
+      userDataBefore,
+    );
+
+    const reserveDataAfter = await getReserveSnapshot(aptosProvider, dai);
+    const userDataAfter = await getUserSnapshot(aptosProvider, dai, user.accountAddress);
+    for (const key of Object.keys(expectedReserveData)) {
+      expect(`${key}: ${reserveDataAfter[key].toString()}`).toBe(`${key}: ${expectedReserveData[key].toString()}`);
+    }
+    for (const key of Object.keys(expectedUserData)) {
+      expect(`${key}: ${userDataAfter[key].toString()}`).toBe(`${key}: ${expectedUserData[key].toString()}`);
+    }
+  });
+
+  it("A fresh user supplies 25 DAI and holds 25 aDAI", async () => {
+    const { dai, aDai } = testEnv;
+    const user = await createTestUser({ mint: { DAI: "10" }, supply: { DAI: "25" } });
+
+    const daiDecimals = Number(await underlyingTokensClient.decimals(dai));
+    const aDaiBalance = await aTokensClient.balanceOf(user.accountAddress, aDai);
+    const daiBalance = await underlyingTokensClient.balanceOf(user.accountAddress, dai);
+    // scaling by the liquidity index can round the balance down by one unit
+    expect(25n * 10n ** BigInt(daiDecimals) - aDaiBalance <= 1n).toBe(true);
+    expect(daiBalance.toString()).toBe((10n * 10n ** BigInt(daiDecimals)).toString());
+  });
 });
@@ -10,6 +10,8 @@ import {
   UnderlyingTokensClient,
   consts,
 } from "@aave/aave-v3-aptos-ts-sdk";
+import { expectMoveAbort } from "../helpers/moveAbort";
+import { AaveError } from "../helpers/errorCodes";
 
 describe("Withdraw Test", () => {
   let aptosProvider: AptosProvider;
@@ -50,13 +52,12 @@ describe("Withdraw Test", () => {
   it("validateWithdraw() when amount == 0 (revert expected)", async () => {
     const { users, dai } = testEnv;
     const user = users[0];
-    try {
-      await coreClient
+    await expectMoveAbort(
+      coreClient
         .withSigner(user)
-        .withdraw(dai, BigNumber.from(0).toBigInt(), user.accountAddress);
-    } catch (err) {
-      expect(err.toString().includes("validation_logic: 0x1a")).toBe(true);
-    }
+        .withdraw(dai, BigNumber.from(0).toBigInt(), user.accountAddress),
+      { module: "validation_logic", code: AaveError.EINVALID_AMOUNT },
+    );
   });
 
   it("validateWithdraw() when amount > user balance (revert expected)", async () => {
@@ -71,13 +72,12 @@ describe("Withdraw Test", () => {
       BigNumber.from(reserveData.liquidityIndex),
     );
     const newUserBalance = userBalance.add(1000000000000000);
-    try {
-      await coreClient
+    await expectMoveAbort(
+      coreClient
         .withSigner(user)
-        .withdraw(dai, newUserBalance.toBigInt(), user.accountAddress);
-    } catch (err) {
-      expect(err.toString().includes("validation_logic: 0x20")).toBe(true);
-    }
+        .withdraw(dai, newUserBalance.toBigInt(), user.accountAddress),
+      { module: "validation_logic", code: AaveError.ENOT_ENOUGH_AVAILABLE_USER_BALANCE },
+    );
   });
 
   it("validateWithdraw() when reserve is paused (revert expected)", async () => {
@@ -97,13 +97,12 @@ describe("Withdraw Test", () => {
     await poolClient.withSigner(user1).setReservePaused(dai, true);
 
     const daiWithdrawAmount = 100 * 10 ** daiDecimals;
-    try {
-      await coreClient
+    await expectMoveAbort(
+      coreClient
         .withSigner(user)
-        .withdraw(dai, BigInt(daiWithdrawAmount), user.accountAddress);
-    } catch (err) {
-      expect(err.toString().includes("validation_logic: 0x1d")).toBe(true);
-    }
+        .withdraw(dai, BigInt(daiWithdrawAmount), user.accountAddress),
+      { module: "validation_logic", code: AaveError.ERESERVE_PAUSED },
+    );
 
     await poolClient.withSigner(user1).setReservePaused(dai, false);
   });
@@ -188,13 +187,12 @@ describe("Withdraw Test", () => {
 
     // withdraw
     const daiWithdrawAmount = 500 * 10 ** usdcDecimals;
-    try {
-      await coreClient
+    await expectMoveAbort(
+      coreClient
         .withSigner(user)
-        .withdraw(dai, BigInt(daiWithdrawAmount), user.accountAddress);
-    } catch (err) {
-      expect(err.toString().includes("validation_logic: 0x23")).toBe(true);
-    }
+        .withdraw(dai, BigInt(daiWithdrawAmount), user.accountAddress),
+      { module: "validation_logic", code: AaveError.EHEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD },
+    );
   });
 
   it("User 1 deposits 10 Dai Withdraws 1 DAI", async () => {